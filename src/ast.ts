@@ -1,4 +1,4 @@
-
+import { QueryCompileError } from './errors';
 
 // ==========================================
 // AST Node Types
@@ -8,7 +8,78 @@ export type ASTNode =
     | { type: 'column'; name: string }
     | { type: 'function'; name: string; args: ASTNode[] }
     | { type: 'operator'; op: string; left: ASTNode; right: ASTNode }
-    | { type: 'literal'; value: any };
+    | { type: 'literal'; value: any }
+    | { type: 'unary'; op: UnaryOperator; operand: ASTNode }
+    | { type: 'nary'; op: 'AND' | 'OR'; args: ASTNode[] }
+    | { type: 'in'; negated: boolean; left: ASTNode; values: ASTNode[] | SubqueryNode }
+    | { type: 'between'; negated: boolean; operand: ASTNode; low: ASTNode; high: ASTNode }
+    | { type: 'case'; whens: { when: ASTNode; then: ASTNode }[]; else?: ASTNode }
+    | { type: 'cast'; operand: ASTNode; as: CastType }
+    | { type: 'window'; fn: ASTNode; partitionBy: ASTNode[]; orderBy: { node: ASTNode; direction: 'asc' | 'desc' }[] }
+    | SubqueryNode;
+
+export type SubqueryNode = { type: 'subquery'; sql: string; params: any[] };
+
+/**
+ * An AST node tagged with the TypeScript type of its SQL value. The tag is
+ * type-only; it lets `select({ n: (c, f) => f.count() })` produce typed rows.
+ */
+export type Expr<V = unknown> = ASTNode & { readonly __value?: V };
+
+/** The value type of an expression callback's result: a tagged node, or a plain literal. */
+export type ExprValue<R> = R extends { readonly __value?: infer V } ? V : R extends ASTNode ? unknown : R;
+
+export type UnaryOperator = 'NOT' | 'EXISTS' | 'NOT EXISTS' | '-';
+
+/** Target types of `op.cast()` — SQLite's storage classes and NUMERIC. */
+export type CastType = 'INTEGER' | 'REAL' | 'TEXT' | 'BLOB' | 'NUMERIC';
+
+/** Binary operators `compileAST` accepts in `operator` nodes. */
+const BINARY_OPERATORS = new Set([
+    '=', '!=', '<>', '<', '<=', '>', '>=', 'AND', 'OR', 'LIKE', 'GLOB', 'IS', 'IS NOT',
+    '+', '-', '*', '/', '%', '||',
+]);
+
+const CAST_TYPES = new Set<string>(['INTEGER', 'REAL', 'TEXT', 'BLOB', 'NUMERIC']);
+
+/**
+ * SQL functions that may appear in an expression: SQLite's core scalar, aggregate,
+ * window, date, math and JSON functions. Anything else — `load_extension()`, typos —
+ * is rejected at compile time instead of being passed through to SQL.
+ */
+export const SQL_FUNCTIONS = [
+    // scalar
+    'abs', 'char', 'coalesce', 'concat', 'concat_ws', 'format', 'hex', 'ifnull', 'iif', 'instr', 'length',
+    'lower', 'ltrim', 'nullif', 'octet_length', 'printf', 'quote', 'random', 'randomblob', 'replace', 'round',
+    'rtrim', 'sign', 'substr', 'substring', 'trim', 'typeof', 'unhex', 'unicode', 'upper', 'zeroblob',
+    // aggregate
+    'avg', 'count', 'group_concat', 'max', 'min', 'string_agg', 'sum', 'total',
+    // window
+    'row_number', 'rank', 'dense_rank', 'percent_rank', 'cume_dist', 'ntile',
+    'lag', 'lead', 'first_value', 'last_value', 'nth_value',
+    // date & time
+    'date', 'time', 'datetime', 'julianday', 'unixepoch', 'strftime', 'timediff',
+    // math
+    'acos', 'asin', 'atan', 'atan2', 'ceil', 'ceiling', 'cos', 'degrees', 'exp', 'floor', 'ln', 'log',
+    'log10', 'log2', 'mod', 'pi', 'pow', 'power', 'radians', 'sin', 'sqrt', 'tan', 'trunc',
+    // JSON
+    'json', 'json_array', 'json_array_length', 'json_extract', 'json_insert', 'json_object', 'json_patch',
+    'json_quote', 'json_remove', 'json_replace', 'json_set', 'json_type', 'json_valid',
+    'json_group_array', 'json_group_object',
+] as const;
+
+export type SqlFunctionName = typeof SQL_FUNCTIONS[number];
+
+const SQL_FUNCTION_SET = new Set<string>(SQL_FUNCTIONS.map(f => f.toUpperCase()));
+
+/** Anything that compiles to a SELECT — a `QueryBuilder`, without importing it. */
+export type SubqueryLike = { toSQL(): { sql: string; params: any[] } };
+
+/** `op.over()` window: `PARTITION BY` nodes and `ORDER BY` nodes or `[node, 'desc']` pairs. */
+export type WindowSpec = {
+    partitionBy?: any[];
+    orderBy?: (any | [any, 'asc' | 'desc'])[];
+};
 
 /** Wraps raw JS values into AST literal nodes; passes through existing AST nodes. */
 export const wrapNode = (val: any): ASTNode =>
@@ -19,7 +90,8 @@ export const wrapNode = (val: any): ASTNode =>
 // ==========================================
 
 export function compileAST(node: ASTNode): { sql: string; params: any[] } {
-    if (node.type === 'column') return { sql: `"${node.name}"`, params: [] };
+    // `c['tree.depth']` → "tree"."depth", for joined tables and CTEs
+    if (node.type === 'column') return { sql: node.name.split('.').map(p => `"${p}"`).join('.'), params: [] };
     if (node.type === 'literal') {
         if (node.value instanceof Date) return { sql: '?', params: [node.value.toISOString()] };
         if (typeof node.value === 'boolean') return { sql: '?', params: [node.value ? 1 : 0] };
@@ -27,6 +99,10 @@ export function compileAST(node: ASTNode): { sql: string; params: any[] } {
     }
 
     if (node.type === 'function') {
+        if (!SQL_FUNCTION_SET.has(node.name.toUpperCase())) {
+            throw new QueryCompileError(`Unknown SQL function '${node.name.toLowerCase()}'`);
+        }
+        if (node.name.toUpperCase() === 'COUNT' && node.args.length === 0) return { sql: 'COUNT(*)', params: [] };
         const compiledArgs = node.args.map(compileAST);
         return {
             sql: `${node.name}(${compiledArgs.map(c => c.sql).join(', ')})`,
@@ -35,6 +111,7 @@ export function compileAST(node: ASTNode): { sql: string; params: any[] } {
     }
 
     if (node.type === 'operator') {
+        if (!BINARY_OPERATORS.has(node.op)) throw new QueryCompileError(`Unknown SQL operator '${node.op}'`);
         const left = compileAST(node.left);
         const right = compileAST(node.right);
         return {
@@ -43,7 +120,80 @@ export function compileAST(node: ASTNode): { sql: string; params: any[] } {
         };
     }
 
-    throw new Error('Unknown AST node type');
+    if (node.type === 'unary') {
+        const operand = compileAST(node.operand);
+        // EXISTS takes a parenthesized subquery as is
+        const sql = node.op === 'EXISTS' || node.op === 'NOT EXISTS'
+            ? `${node.op} ${operand.sql}`
+            : `(${node.op === '-' ? '-' : 'NOT '}${operand.sql})`;
+        return { sql, params: operand.params };
+    }
+
+    if (node.type === 'nary') {
+        const args = node.args.map(compileAST);
+        return { sql: `(${args.map(a => a.sql).join(` ${node.op} `)})`, params: args.flatMap(a => a.params) };
+    }
+
+    if (node.type === 'in') {
+        const left = compileAST(node.left);
+        const values = Array.isArray(node.values) ? node.values.map(compileAST) : [compileAST(node.values)];
+        const list = Array.isArray(node.values) ? `(${values.map(v => v.sql).join(', ')})` : values[0]!.sql;
+        return {
+            sql: `(${left.sql} ${node.negated ? 'NOT IN' : 'IN'} ${list})`,
+            params: [...left.params, ...values.flatMap(v => v.params)],
+        };
+    }
+
+    if (node.type === 'between') {
+        const [operand, low, high] = [node.operand, node.low, node.high].map(compileAST) as [
+            { sql: string; params: any[] }, { sql: string; params: any[] }, { sql: string; params: any[] },
+        ];
+        return {
+            sql: `(${operand.sql} ${node.negated ? 'NOT BETWEEN' : 'BETWEEN'} ${low.sql} AND ${high.sql})`,
+            params: [...operand.params, ...low.params, ...high.params],
+        };
+    }
+
+    if (node.type === 'case') {
+        const parts: string[] = ['CASE'];
+        const params: any[] = [];
+        for (const { when, then } of node.whens) {
+            const w = compileAST(when);
+            const t = compileAST(then);
+            parts.push(`WHEN ${w.sql} THEN ${t.sql}`);
+            params.push(...w.params, ...t.params);
+        }
+        if (node.else) {
+            const e = compileAST(node.else);
+            parts.push(`ELSE ${e.sql}`);
+            params.push(...e.params);
+        }
+        parts.push('END');
+        return { sql: parts.join(' '), params };
+    }
+
+    if (node.type === 'cast') {
+        if (!CAST_TYPES.has(node.as)) throw new QueryCompileError(`Unknown CAST type '${node.as}'`);
+        const operand = compileAST(node.operand);
+        return { sql: `CAST(${operand.sql} AS ${node.as})`, params: operand.params };
+    }
+
+    if (node.type === 'window') {
+        const fn = compileAST(node.fn);
+        const partition = node.partitionBy.map(compileAST);
+        const order = node.orderBy.map(o => ({ ...compileAST(o.node), direction: o.direction }));
+        const clauses: string[] = [];
+        if (partition.length > 0) clauses.push(`PARTITION BY ${partition.map(p => p.sql).join(', ')}`);
+        if (order.length > 0) clauses.push(`ORDER BY ${order.map(o => `${o.sql} ${o.direction.toUpperCase()}`).join(', ')}`);
+        return {
+            sql: `${fn.sql} OVER (${clauses.join(' ')})`,
+            params: [...fn.params, ...partition.flatMap(p => p.params), ...order.flatMap(o => o.params)],
+        };
+    }
+
+    if (node.type === 'subquery') return { sql: `(${node.sql})`, params: node.params };
+
+    throw new QueryCompileError('Unknown AST node type');
 }
 
 // ==========================================
@@ -66,25 +216,86 @@ export const createFunctionProxy = (): FunctionProxy =>
         } as ASTNode),
     });
 
+const binary = <V = number>(operator: string) => (left: any, right: any): Expr<V> =>
+    ({ type: 'operator', op: operator, left: wrapNode(left), right: wrapNode(right) });
+
+const nary = (operator: 'AND' | 'OR') => (...conditions: any[]): Expr<number> => {
+    if (conditions.length === 0) throw new QueryCompileError(`op.${operator.toLowerCase()}() needs at least one condition`);
+    return { type: 'nary', op: operator, args: conditions.map(wrapNode) };
+};
+
+const subquery = (query: SubqueryLike): SubqueryNode => ({ type: 'subquery', ...query.toSQL() });
+
+const inList = (negated: boolean) => (left: any, values: any[] | SubqueryLike): Expr<number> => ({
+    type: 'in',
+    negated,
+    left: wrapNode(left),
+    values: Array.isArray(values) ? values.map(wrapNode) : subquery(values),
+});
+
 /** Standard SQL operators as composable AST builders. */
 export const op = {
-    eq: (left: any, right: any): ASTNode => ({ type: 'operator', op: '=', left: wrapNode(left), right: wrapNode(right) }),
-    ne: (left: any, right: any): ASTNode => ({ type: 'operator', op: '!=', left: wrapNode(left), right: wrapNode(right) }),
-    gt: (left: any, right: any): ASTNode => ({ type: 'operator', op: '>', left: wrapNode(left), right: wrapNode(right) }),
-    gte: (left: any, right: any): ASTNode => ({ type: 'operator', op: '>=', left: wrapNode(left), right: wrapNode(right) }),
-    lt: (left: any, right: any): ASTNode => ({ type: 'operator', op: '<', left: wrapNode(left), right: wrapNode(right) }),
-    lte: (left: any, right: any): ASTNode => ({ type: 'operator', op: '<=', left: wrapNode(left), right: wrapNode(right) }),
-    and: (left: any, right: any): ASTNode => ({ type: 'operator', op: 'AND', left: wrapNode(left), right: wrapNode(right) }),
-    or: (left: any, right: any): ASTNode => ({ type: 'operator', op: 'OR', left: wrapNode(left), right: wrapNode(right) }),
-    like: (left: any, right: any): ASTNode => ({ type: 'operator', op: 'LIKE', left: wrapNode(left), right: wrapNode(right) }),
-    isNull: (node: any): ASTNode => ({ type: 'operator', op: 'IS', left: wrapNode(node), right: { type: 'literal', value: null } as ASTNode }),
-    isNotNull: (node: any): ASTNode => ({ type: 'operator', op: 'IS NOT', left: wrapNode(node), right: { type: 'literal', value: null } as ASTNode }),
-    in: (left: any, values: any[]): ASTNode => ({
-        type: 'function',
-        name: `${compileAST(wrapNode(left)).sql} IN`,
-        args: values.map(v => wrapNode(v)),
+    eq: binary('='),
+    ne: binary('!='),
+    gt: binary('>'),
+    gte: binary('>='),
+    lt: binary('<'),
+    lte: binary('<='),
+    /** `(a AND b AND ...)` — any number of conditions. */
+    and: nary('AND'),
+    /** `(a OR b OR ...)` — any number of conditions. */
+    or: nary('OR'),
+    like: binary('LIKE'),
+    /** Case-sensitive Unix-style wildcards: `op.glob(c.path, 'src/*.ts')`. */
+    glob: binary('GLOB'),
+    isNull: (node: any): Expr<number> => ({ type: 'operator', op: 'IS', left: wrapNode(node), right: { type: 'literal', value: null } as ASTNode }),
+    isNotNull: (node: any): Expr<number> => ({ type: 'operator', op: 'IS NOT', left: wrapNode(node), right: { type: 'literal', value: null } as ASTNode }),
+    /** `x IN (...)` over a list of values, or a subquery. */
+    in: inList(false),
+    notIn: inList(true),
+    between: (node: any, low: any, high: any): Expr<number> =>
+        ({ type: 'between', negated: false, operand: wrapNode(node), low: wrapNode(low), high: wrapNode(high) }),
+    notBetween: (node: any, low: any, high: any): Expr<number> =>
+        ({ type: 'between', negated: true, operand: wrapNode(node), low: wrapNode(low), high: wrapNode(high) }),
+    not: (node: any): Expr<number> => ({ type: 'unary', op: 'NOT', operand: wrapNode(node) }),
+    /** `EXISTS (SELECT ...)`: `op.exists(db.books.select().whereRaw('author_id = authors.id'))`. */
+    exists: (query: SubqueryLike): Expr<number> => ({ type: 'unary', op: 'EXISTS', operand: subquery(query) }),
+    notExists: (query: SubqueryLike): Expr<number> => ({ type: 'unary', op: 'NOT EXISTS', operand: subquery(query) }),
+    add: binary('+'),
+    sub: binary('-'),
+    mul: binary('*'),
+    div: binary('/'),
+    mod: binary('%'),
+    neg: (node: any): Expr<number> => ({ type: 'unary', op: '-', operand: wrapNode(node) }),
+    /** `a || b` string concatenation. */
+    concat: binary<string>('||'),
+    /**
+     * `CASE WHEN ... THEN ... ELSE ... END`:
+     * `op.case([[op.gte(c.score, 90), 'A'], [op.gte(c.score, 75), 'B']], 'C')`.
+     */
+    case: <V = unknown>(whens: [any, any][], otherwise?: any): Expr<V> => ({
+        type: 'case',
+        whens: whens.map(([when, then]) => ({ when: wrapNode(when), then: wrapNode(then) })),
+        ...(otherwise !== undefined ? { else: wrapNode(otherwise) } : {}),
+    }),
+    coalesce: <V>(first: Expr<V> | V, ...rest: any[]): Expr<NonNullable<V>> =>
+        ({ type: 'function', name: 'COALESCE', args: [first, ...rest].map(wrapNode) }),
+    cast: <C extends CastType | Lowercase<CastType>>(node: any, as: C): Expr<CastValue<Uppercase<C>>> =>
+        ({ type: 'cast', operand: wrapNode(node), as: as.toUpperCase() as CastType }),
+    /**
+     * Window function: `op.over(f.row_number(), { partitionBy: [c.author_id], orderBy: [[c.score, 'desc']] })`
+     * → `ROW_NUMBER() OVER (PARTITION BY "author_id" ORDER BY "score" DESC)`.
+     */
+    over: <V>(fn: Expr<V>, spec: WindowSpec = {}): Expr<V> => ({
+        type: 'window',
+        fn,
+        partitionBy: (spec.partitionBy ?? []).map(wrapNode),
+        orderBy: (spec.orderBy ?? []).map(o => Array.isArray(o)
+            ? { node: wrapNode(o[0]), direction: o[1] }
+            : { node: wrapNode(o), direction: 'asc' as const }),
     }),
-    not: (node: any): ASTNode => ({ type: 'operator', op: 'NOT', left: { type: 'literal', value: '' } as ASTNode, right: wrapNode(node) }),
+    /** A query as a scalar expression: `op.gt(c.score, op.subquery(db.scores.select()...))`. */
+    subquery: (query: SubqueryLike): Expr => subquery(query),
 };
 
 // ==========================================
@@ -92,10 +303,30 @@ export const op = {
 // ==========================================
 
 /** Maps schema fields to AST column nodes for typed autocomplete. */
-export type TypedColumnProxy<T> = { [K in keyof T]: ASTNode };
+export type TypedColumnProxy<T> = { [K in keyof T]: { type: 'column'; name: string; readonly __value?: T[K] } };
 
-/** SQL function proxy — any function name produces an AST function node. */
-export type FunctionProxy = Record<string, (...args: any[]) => ASTNode>;
+/** TypeScript type of `CAST(x AS <type>)`. */
+type CastValue<C> = C extends 'TEXT' ? string : C extends 'BLOB' ? Uint8Array : number;
+
+type NumericFunction =
+    | 'abs' | 'count' | 'sum' | 'avg' | 'total' | 'length' | 'octet_length' | 'instr' | 'round' | 'sign' | 'random' | 'unicode'
+    | 'row_number' | 'rank' | 'dense_rank' | 'percent_rank' | 'cume_dist' | 'ntile' | 'julianday' | 'unixepoch'
+    | 'acos' | 'asin' | 'atan' | 'atan2' | 'ceil' | 'ceiling' | 'cos' | 'degrees' | 'exp' | 'floor' | 'ln' | 'log'
+    | 'log10' | 'log2' | 'mod' | 'pi' | 'pow' | 'power' | 'radians' | 'sin' | 'sqrt' | 'tan' | 'trunc' | 'json_array_length' | 'json_valid';
+
+type TextFunction =
+    | 'char' | 'concat' | 'concat_ws' | 'format' | 'hex' | 'lower' | 'upper' | 'ltrim' | 'rtrim' | 'trim' | 'printf' | 'quote'
+    | 'replace' | 'substr' | 'substring' | 'typeof' | 'group_concat' | 'string_agg' | 'date' | 'time' | 'datetime'
+    | 'strftime' | 'timediff' | 'json' | 'json_array' | 'json_object' | 'json_quote' | 'json_type' | 'json_group_array' | 'json_group_object';
+
+/** Functions whose value has the type of their first argument. */
+type PassThroughFunction = 'min' | 'max' | 'coalesce' | 'ifnull' | 'nullif' | 'iif' | 'lag' | 'lead' | 'first_value' | 'last_value' | 'nth_value';
+
+/** SQL function proxy — one AST function builder per allow-listed name in `SQL_FUNCTIONS`. */
+export type FunctionProxy = {
+    [F in SqlFunctionName]: F extends PassThroughFunction ? <V>(first: Expr<V> | V, ...rest: any[]) => Expr<V>
+        : (...args: any[]) => Expr<F extends NumericFunction ? number : F extends TextFunction ? string : unknown>
+};
 
 /** The operators object type. */
 export type Operators = typeof op;
@@ -6,18 +6,188 @@
  */
 
 import {
-    type ASTNode, type WhereCallback, type TypedColumnProxy, type FunctionProxy, type Operators,
-    createColumnProxy, createFunctionProxy, op,
+    type ASTNode, type WhereCallback, type TypedColumnProxy, type FunctionProxy, type Operators, type SubqueryLike, type ExprValue,
+    compileAST, wrapNode, createColumnProxy, createFunctionProxy, op,
 } from './ast';
+import type { z } from 'zod';
 import {
-    type IQO, type WhereCondition, type WhereOperator, type OrderDirection,
-    OPERATOR_MAP, compileIQO,
+    type IQO, type EagerWindow, type WhereCondition, type JoinClause, type JoinKind, type SetOperator, type WhereOperator, type OrderDirection, type CommonTableExpression,
+    OPERATOR_MAP, compileIQO, compileWhere, compileCtes, joinKeyAlias,
 } from './iqo';
+import { NotFoundError, QueryCompileError } from './errors';
+import { searchTableName, sqlString } from './search';
 
 // =============================================================================
 // QueryBuilder Class
 // =============================================================================
 
+/**
+ * How a join target connects to the builder's table, as found by the join resolver.
+ * `table`/`alias` are set when the target was a nav name (`manager`) rather than a table.
+ */
+export type JoinResolution = { fk: string; pk: string; table?: string; alias?: string; through?: JoinClause['through'] };
+
+/** A table's live columns and its row decoder (dates, booleans, JSON), for shaping joined rows. */
+export type TableInfo = { columns: string[]; key: string[]; fromStorage: (row: Record<string, any>) => Record<string, any> };
+
+/**
+ * `join()` options. Joined columns come back as `users__name` (all columns unless
+ * `columns` is given), or as one `users: {...}` object per row with `nest: true`.
+ */
+export type JoinOptions = { kind?: JoinKind; columns?: readonly string[]; nest?: boolean };
+
+/** Something to join by accessor: `db.users`. */
+type JoinTarget = { _tableName: string; readonly _schema?: z.ZodType<any> };
+
+/** A joined table's row type, from the accessor's Zod schema. */
+type JoinedRow<A> = A extends { readonly _schema?: infer S } ? S extends z.ZodType<any> ? { id: number } & z.infer<S> : Record<string, any> : Record<string, any>;
+
+type JoinedColumns<J, O> = O extends { columns: readonly (infer C)[] } ? Pick<J, C & keyof J> : J;
+type OrNull<V, O> = O extends { kind: 'left' } ? V | null : V;
+
+/** The fields a join adds to `TResult`: `{ users__name: ... }` or, with `nest: true`, `{ users: {...} }`. */
+export type JoinedFields<N extends string, J, O> = O extends { nest: true }
+    ? { [P in N]: OrNull<JoinedColumns<J, O>, O> }
+    : { [P in keyof JoinedColumns<J, O> & string as `${N}__${P}`]: OrNull<JoinedColumns<J, O>[P], O> };
+
+/** Legacy `join(target, ['name'])`: `{ users_name: ... }`. */
+type ListedColumns<N extends string, J, C extends string> = { [P in C as `${N}_${P}`]: P extends keyof J ? J[P] : unknown };
+
+/**
+ * Related rows grouped by parent: by `parentKey(parent)` when given, else by parent `id`.
+ * `single` relations attach one row (or null) instead of an array.
+ */
+export type EagerLoad = {
+    key: string;
+    groups: Map<number | string, any[]>;
+    single?: boolean;
+    parentKey?: (parent: Record<string, any>) => number | string | null;
+};
+
+/**
+ * Query over the rows related through `relation`, for `whereHas()`/`withCount()`.
+ * `correlate` ties them to the outer table: `"books"."author_id" = "authors"."id"`.
+ */
+export type RelationSubquery = {
+    table: string;
+    query: QueryBuilder<any>;
+    correlate: (outer: string, inner: string) => { sql: string; params: any[] };
+};
+
+/**
+ * Options of `search()`. `highlight` and `snippet` name an indexed column
+ * (`snippet` without a column picks the best-matching one) and add a column
+ * of the same name to each row.
+ */
+export type SearchOptions<C extends string = string> = {
+    /** The whole column with each match wrapped in `open`/`close` (default `<b>`/`</b>`). */
+    highlight?: C | { column: C; open?: string; close?: string };
+    /** A short excerpt around the matches: up to `tokens` tokens (default 16), cut with `ellipsis` (default `…`). */
+    snippet?: C | { column?: C; open?: string; close?: string; ellipsis?: string; tokens?: number };
+    /** Order by relevance, best first, and add the bm25 `rank` (lower is better). */
+    rank?: boolean;
+};
+
+/** Columns `search()` adds to each row for the given options. */
+export type SearchFields<O> =
+    & (O extends { highlight: {} } ? { highlight: string } : {})
+    & (O extends { snippet: {} } ? { snippet: string } : {})
+    & (O extends { rank: true } ? { rank: number } : {});
+
+/** Dotted paths into a row's object/array fields: `'settings.theme'`, `'tags.0'`. */
+export type JsonPath<T> = {
+    [K in keyof T & string]: NonNullable<T[K]> extends Date | Buffer ? never
+        : NonNullable<T[K]> extends object ? `${K}.${string}` : never
+}[keyof T & string];
+
+/** An expression callback of `select({...})`/`selectExpr()`: `(c, f, op) => op.mul(c.price, c.qty)`. */
+export type ExprCallback<T> = (c: TypedColumnProxy<T>, f: FunctionProxy, op: Operators) => unknown;
+
+/** Row type of `select({...})`: each alias typed from its expression. */
+export type ExprRow<S> = { [K in keyof S]: S[K] extends (...args: any[]) => infer R ? ExprValue<R> : never };
+
+/** Body of a `withCte()`/`withRecursive()` entry: a query builder or raw SQL. */
+export type CteBody = SubqueryLike | { sql: string; params?: any[] };
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function cteSql(body: CteBody): { sql: string; params: any[] } {
+    return 'toSQL' in body ? body.toSQL() : { sql: body.sql, params: body.params ?? [] };
+}
+
+/**
+ * A page from `cursorPaginate()`. Pass `nextCursor` as `after` for the following
+ * page and `prevCursor` as `before` for the preceding one; each is null when
+ * there is nothing further in that direction.
+ */
+export type CursorPage<R> = {
+    data: R[];
+    nextCursor: string | null;
+    prevCursor: string | null;
+    hasNext: boolean;
+    hasPrev: boolean;
+};
+
+/** A row's ordering values as an opaque base64url string. BigInts survive the round trip. */
+function encodeCursor(values: unknown[]): string {
+    const json = JSON.stringify(values, (_, v) => typeof v === 'bigint' ? { $bigint: v.toString() } : v);
+    return Buffer.from(json).toString('base64url');
+}
+
+function decodeCursor(cursor: string, length: number): unknown[] {
+    let values: unknown;
+    try {
+        values = JSON.parse(Buffer.from(cursor, 'base64url').toString(), (_, v) =>
+            v !== null && typeof v === 'object' && typeof v.$bigint === 'string' ? BigInt(v.$bigint) : v);
+    } catch {
+        throw new QueryCompileError('cursorPaginate(): invalid cursor');
+    }
+    if (!Array.isArray(values) || values.length !== length) {
+        throw new QueryCompileError("cursorPaginate(): cursor doesn't match this query's orderBy");
+    }
+    return values;
+}
+
+/** Constraint callback of `.with({ relation: q => ... })`, applied to the related rows' query. */
+export type EagerConstraint = (q: QueryBuilder<any>) => unknown;
+
+/**
+ * Loads `relation` for a batch of `parents`. `configure` receives the related
+ * rows' query (already filtered to the parents) and the column that names each
+ * row's parent, to add constraints, nested loads and per-parent limits.
+ */
+export type EagerLoader = (
+    parentTable: string,
+    relation: string,
+    parents: Record<string, any>[],
+    configure: (q: QueryBuilder<any>, window: EagerWindow) => void,
+) => EagerLoad | null;
+
+/**
+ * Table-specific lookups a `QueryBuilder` gets from its database. Each is
+ * optional: a bare builder compiles plain SQL and rejects what needs one.
+ */
+export type QueryResolvers = {
+    /** Join columns for `join(target)` by table or relation name. */
+    joinResolver?: ((fromTable: string, target: string) => JoinResolution | null) | null;
+    /** Rewrites `where()` values, e.g. entities to their keys. */
+    conditionResolver?: ((conditions: Record<string, any>) => Record<string, any>) | null;
+    eagerLoader?: EagerLoader | null;
+    /** Correlated subquery of a relation, for `whereHas()`/`withCount()`. */
+    relationResolver?: ((fromTable: string, relation: string) => RelationSubquery | null) | null;
+    /** Columns of the table's FTS5 index, from the `search` option. */
+    searchColumns?: string[] | null;
+    /** SQL for a dotted JSON path key (`'settings.theme'`), or null for plain and table-qualified fields. */
+    fieldResolver?: ((field: string) => string | null) | null;
+    /** Streams rows one at a time for `iterate()`/`chunk()`/`each()`; falls back to `executor`. */
+    rowIterator?: ((sql: string, params: any[], raw: boolean) => Iterable<any>) | null;
+    /** Columns, key and decoder of a table, for `join()` results and cursor tiebreakers. */
+    tableInfo?: ((table: string) => TableInfo | null) | null;
+};
+
+/** Rows per eager-loading batch in `iterate()`/`each()`. */
+const ITERATE_BATCH_SIZE = 500;
+
 /**
  * A Fluent Query Builder that accumulates query state via chaining
  * and only executes when a terminal method is called (.all(), .get())
@@ -32,24 +202,21 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
     private tableName: string;
     private executor: (sql: string, params: any[], raw: boolean) => any[];
     private singleExecutor: (sql: string, params: any[], raw: boolean) => any | null;
-    private joinResolver: ((fromTable: string, toTable: string) => { fk: string; pk: string } | null) | null;
-    private conditionResolver: ((conditions: Record<string, any>) => Record<string, any>) | null;
-    private eagerLoader: ((parentTable: string, relation: string, parentIds: number[]) => { key: string; groups: Map<number, any[]> } | null) | null;
+    /** Passed on unchanged to every `clone()`. */
+    private resolvers: QueryResolvers;
+    /** `.with({ path: q => ... })` constraints, keyed by dotted path. Functions can't live in the IQO. */
+    private eagerConstraints = new Map<string, EagerConstraint>();
 
     constructor(
         tableName: string,
         executor: (sql: string, params: any[], raw: boolean) => any[],
         singleExecutor: (sql: string, params: any[], raw: boolean) => any | null,
-        joinResolver?: ((fromTable: string, toTable: string) => { fk: string; pk: string } | null) | null,
-        conditionResolver?: ((conditions: Record<string, any>) => Record<string, any>) | null,
-        eagerLoader?: ((parentTable: string, relation: string, parentIds: number[]) => { key: string; groups: Map<number, any[]> } | null) | null,
+        resolvers: QueryResolvers = {},
     ) {
         this.tableName = tableName;
         this.executor = executor;
         this.singleExecutor = singleExecutor;
-        this.joinResolver = joinResolver ?? null;
-        this.conditionResolver = conditionResolver ?? null;
-        this.eagerLoader = eagerLoader ?? null;
+        this.resolvers = resolvers;
         this.iqo = {
             selects: [],
             wheres: [],
@@ -71,8 +238,94 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
     /** Specify which columns to select. If called with no arguments, defaults to `*`. */
     select(): this;
     select<K extends keyof T & string>(...cols: K[]): QueryBuilder<T, Pick<T, K>>;
-    select(...cols: string[]): any {
-        this.iqo.selects.push(...cols);
+    /**
+     * Select expressions by alias, using the same `(c, f, op)` callback as `where()`.
+     * Rows contain exactly these columns, typed from the expressions:
+     * ```ts
+     * db.orders.select({ status: c => c.status, n: (c, f) => f.count(), revenue: (c, f, op) => f.sum(op.mul(c.price, c.qty)) })
+     *   .groupBy('status')
+     *   .all() // → { status: string; n: number; revenue: number }[]
+     * ```
+     */
+    select<S extends Record<string, ExprCallback<T>>>(exprs: S): QueryBuilder<T, ExprRow<S>>;
+    select(...cols: (string | Record<string, ExprCallback<T>>)[]): any {
+        for (const col of cols) {
+            if (typeof col === 'string') {
+                this.iqo.selects.push(col);
+                continue;
+            }
+            // An expression projection replaces `table.*` and returns plain rows
+            this.iqo.exprsOnly = true;
+            this.iqo.raw = true;
+            for (const [alias, expr] of Object.entries(col)) this._addSelectExpr('select', alias, expr);
+        }
+        return this;
+    }
+
+    /**
+     * Add a computed column, built with the same `(c, f, op)` callback as `where()`.
+     * Window functions go through `op.over()`:
+     * ```ts
+     * db.scores.select()
+     *   .selectExpr('place', (c, f, op) => op.over(f.rank(), { partitionBy: [c.game], orderBy: [[c.points, 'desc']] }))
+     *   .all() // → rows with a `place` column
+     * ```
+     */
+    selectExpr<K extends string, R>(alias: K, expr: (c: TypedColumnProxy<T>, f: FunctionProxy, op: Operators) => R): QueryBuilder<T, TResult & Record<K, ExprValue<R>>> {
+        this._addSelectExpr('selectExpr', alias, expr);
+        return this as any;
+    }
+
+    /** Internal: compile an expression callback into `<expr> AS "alias"`. */
+    private _addSelectExpr(method: string, alias: string, expr: ExprCallback<T>): void {
+        if (!IDENTIFIER.test(alias)) throw new QueryCompileError(`${method}(): invalid alias '${alias}'`);
+        const compiled = compileAST(wrapNode(expr(createColumnProxy<T>(), createFunctionProxy(), op)));
+        (this.iqo.selectExprs ??= []).push({ sql: `${compiled.sql} AS "${alias}"`, params: compiled.params });
+    }
+
+    /**
+     * Add a common table expression to a `WITH` clause, for use in joins, `whereRaw()`
+     * and `op.subquery()`. The body is a query builder or raw SQL.
+     * ```ts
+     * db.users.select()
+     *   .withCte('active', db.orders.select('user_id').where({ status: 'open' }))
+     *   .whereRaw('id IN (SELECT user_id FROM active)')
+     * ```
+     */
+    withCte(name: string, query: CteBody, columns?: string[]): this {
+        const { sql, params } = cteSql(query);
+        return this._addCte({ name, columns, sql, params });
+    }
+
+    /**
+     * Add a recursive CTE: `anchor UNION ALL step`, where `step` selects from `name`
+     * itself. Pass `{ distinct: true }` for `UNION`, which stops on cycles.
+     * ```ts
+     * db.employees.select()
+     *   .withRecursive('chain', ['id', 'depth'],
+     *     { sql: 'SELECT id, 0 FROM employees WHERE id = ?', params: [ceoId] },
+     *     { sql: 'SELECT e.id, chain.depth + 1 FROM employees e JOIN chain ON e.manager_id = chain.id' })
+     *   .join('chain', 'id', ['depth'])   // → rows with `chain_depth`
+     *   .all()
+     * ```
+     */
+    withRecursive(name: string, columns: string[], anchor: CteBody, step: CteBody, options: { distinct?: boolean } = {}): this {
+        const a = cteSql(anchor);
+        const b = cteSql(step);
+        return this._addCte({
+            name, columns, recursive: true,
+            sql: `${a.sql} ${options.distinct ? 'UNION' : 'UNION ALL'} ${b.sql}`,
+            params: [...a.params, ...b.params],
+        });
+    }
+
+    /** Internal: validate and append a CTE. */
+    private _addCte(cte: CommonTableExpression): this {
+        for (const name of [cte.name, ...cte.columns ?? []]) {
+            if (!IDENTIFIER.test(name)) throw new QueryCompileError(`Invalid CTE name '${name}'`);
+        }
+        if (this.iqo.ctes?.some(c => c.name === cte.name)) throw new QueryCompileError(`Duplicate CTE '${cte.name}'`);
+        (this.iqo.ctes ??= []).push(cte);
         return this;
     }
 
@@ -83,6 +336,7 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
      * ```ts
      * .where({ name: 'Alice' })
      * .where({ age: { $gt: 18 } })
+     * .where({ 'settings.theme': 'dark', tags: { $contains: 'urgent' } })  // JSON columns
      * ```
      *
      * **Callback-style** (AST-based, full SQL expression power):
@@ -93,7 +347,8 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
      * ))
      * ```
      */
-    where(criteriaOrCallback: (Partial<Record<keyof T & string, any>> & { $or?: Partial<Record<keyof T & string, any>>[] }) | WhereCallback<T>): this {
+    where(criteriaOrCallback: (Partial<Record<(keyof T & string) | JsonPath<T>, any>> & { $or?: Partial<Record<(keyof T & string) | JsonPath<T>, any>>[] }) | WhereCallback<T>): this {
+        this._assertNotCompound('where');
         if (typeof criteriaOrCallback === 'function') {
             const ast = (criteriaOrCallback as WhereCallback<T>)(
                 createColumnProxy<T>(),
@@ -106,25 +361,25 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
                 this.iqo.whereAST = ast;
             }
         } else {
-            const resolved = this.conditionResolver
-                ? this.conditionResolver(criteriaOrCallback as Record<string, any>)
+            const resolved = this.resolvers.conditionResolver
+                ? this.resolvers.conditionResolver(criteriaOrCallback as Record<string, any>)
                 : criteriaOrCallback;
 
             for (const [key, value] of Object.entries(resolved)) {
                 if (key === '$or' && Array.isArray(value)) {
                     const orConditions: WhereCondition[] = [];
                     for (const branch of value as Record<string, any>[]) {
-                        const resolvedBranch = this.conditionResolver
-                            ? this.conditionResolver(branch)
+                        const resolvedBranch = this.resolvers.conditionResolver
+                            ? this.resolvers.conditionResolver(branch)
                             : branch;
                         for (const [bKey, bValue] of Object.entries(resolvedBranch)) {
                             if (typeof bValue === 'object' && bValue !== null && !Array.isArray(bValue) && !(bValue instanceof Date)) {
                                 for (const [opKey, operand] of Object.entries(bValue)) {
                                     const sqlOp = OPERATOR_MAP[opKey as WhereOperator];
-                                    if (sqlOp) orConditions.push({ field: bKey, operator: sqlOp as WhereCondition['operator'], value: operand });
+                                    if (sqlOp) orConditions.push({ field: this._field(bKey), operator: sqlOp as WhereCondition['operator'], value: operand });
                                 }
                             } else {
-                                orConditions.push({ field: bKey, operator: '=', value: bValue });
+                                orConditions.push({ field: this._field(bKey), operator: '=', value: bValue });
                             }
                         }
                     }
@@ -135,18 +390,18 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
                 if (typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)) {
                     for (const [opKey, operand] of Object.entries(value)) {
                         const sqlOp = OPERATOR_MAP[opKey as WhereOperator];
-                        if (!sqlOp) throw new Error(`Unsupported query operator: '${opKey}' on field '${key}'.`);
+                        if (!sqlOp) throw new QueryCompileError(`Unsupported query operator: '${opKey}' on field '${key}'.`);
                         if (opKey === '$between') {
-                            if (!Array.isArray(operand) || operand.length !== 2) throw new Error(`$between for '${key}' requires [min, max]`);
+                            if (!Array.isArray(operand) || operand.length !== 2) throw new QueryCompileError(`$between for '${key}' requires [min, max]`);
                         }
                         this.iqo.wheres.push({
-                            field: key,
+                            field: this._field(key),
                             operator: sqlOp as WhereCondition['operator'],
                             value: operand,
                         });
                     }
                 } else {
-                    this.iqo.wheres.push({ field: key, operator: '=', value });
+                    this.iqo.wheres.push({ field: this._field(key), operator: '=', value });
                 }
             }
         }
@@ -165,53 +420,220 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
         return this;
     }
 
-    /** Add ORDER BY clauses. */
-    orderBy(field: keyof T & string, direction: OrderDirection = 'asc'): this {
-        this.iqo.orderBy.push({ field, direction });
+    /**
+     * Add ORDER BY clauses. Also accepts result-only columns such as `withCount()`'s
+     * `books_count`, and dotted paths into JSON columns: `orderBy('settings.theme')`.
+     */
+    orderBy(field: (keyof T | keyof TResult) & string | JsonPath<T>, direction: OrderDirection = 'asc'): this {
+        this.iqo.orderBy.push({ field: this._field(field), direction });
         return this;
     }
 
+    /** Internal: a where/orderBy key as SQL — dotted JSON paths become `json_extract(...)`. */
+    private _field(field: string): string {
+        return this.resolvers.fieldResolver?.(field) ?? field;
+    }
+
     /**
-     * Join another table. Two calling styles:
+     * Join another table. Three calling styles:
      *
      * **Accessor-based** (auto-infers FK from relationships):
      * ```ts
      * db.trees.select('name').join(db.forests, ['name']).all()
      * ```
      *
+     * **Relation-based** (a nav name; renamed relations are aliased, so self-joins work):
+     * ```ts
+     * db.users.select('name').join('manager', ['name']).all() // → { name, manager_name }
+     * ```
+     *
      * **String-based** (manual FK):
      * ```ts
      * db.trees.select('name').join('forests', 'forestId', ['name']).all()
      * ```
+     *
+     * A column list comes back as `forests_name`. Without one, every column of the
+     * joined table comes back as `forests__name`, so nothing collides with the
+     * builder's own columns. Options pick the join kind, the columns and the shape:
+     * ```ts
+     * db.books.select('title').join(db.authors).all()                           // → { title, authors__id, authors__name }
+     * db.books.select('title').join('author', { kind: 'left', nest: true }).all() // → { title, author: { id, name } | null }
+     * ```
      */
-    join(accessor: { _tableName: string }, columns?: string[]): this;
-    join(table: string, fk: string, columns?: string[], pk?: string): this;
-    join(tableOrAccessor: string | { _tableName: string }, fkOrCols?: string | string[], colsOrPk?: string[] | string, pk?: string): this {
+    join<A extends JoinTarget, const C extends string>(accessor: A, columns: readonly C[]): QueryBuilder<T, TResult & ListedColumns<A['_tableName'], JoinedRow<A>, C>>;
+    join<A extends JoinTarget, const O extends JoinOptions = {}>(accessor: A, options?: O): QueryBuilder<T, TResult & JoinedFields<A['_tableName'], JoinedRow<A>, O>>;
+    join(relation: string, columns: string[]): this;
+    join<const N extends string, const O extends JoinOptions = {}>(relation: N, options?: O): QueryBuilder<T, TResult & JoinedFields<N, Record<string, any>, O>>;
+    join(table: string, fk: string, columns?: string[] | JoinOptions, pk?: string): this;
+    join(tableOrAccessor: string | JoinTarget, fkOrCols?: string | readonly string[] | JoinOptions, colsOrPk?: string[] | string | JoinOptions, pk?: string): any {
         let table: string;
         let fromCol: string;
         let toCol: string;
-        let columns: string[];
-
-        if (typeof tableOrAccessor === 'object' && '_tableName' in tableOrAccessor) {
-            table = tableOrAccessor._tableName;
-            columns = Array.isArray(fkOrCols) ? fkOrCols : [];
-            if (!this.joinResolver) throw new Error(`Cannot auto-resolve join: no relationship data available`);
-            const resolved = this.joinResolver(this.tableName, table);
-            if (!resolved) throw new Error(`No relationship found between '${this.tableName}' and '${table}'`);
+        let listed: readonly string[] | null = null;
+        let options: JoinOptions = {};
+        let through: JoinClause['through'];
+        let alias: string | undefined;
+
+        if (typeof tableOrAccessor === 'object' || typeof fkOrCols !== 'string') {
+            const target = typeof tableOrAccessor === 'object' ? tableOrAccessor._tableName : tableOrAccessor;
+            if (Array.isArray(fkOrCols)) listed = fkOrCols;
+            else if (fkOrCols) options = fkOrCols as JoinOptions;
+            if (options.kind === 'cross') return this._addJoin({ table: target, fromCol: '', toCol: '', columns: [] }, null, options);
+            if (!this.resolvers.joinResolver) throw new QueryCompileError(`Cannot auto-resolve join: no relationship data available`);
+            const resolved = this.resolvers.joinResolver(this.tableName, target);
+            if (!resolved) throw new QueryCompileError(`No relationship found between '${this.tableName}' and '${target}'`);
+            table = resolved.table ?? target;
+            alias = resolved.alias;
             fromCol = resolved.fk;
             toCol = resolved.pk;
+            through = resolved.through;
         } else {
             table = tableOrAccessor;
-            fromCol = fkOrCols as string;
-            columns = Array.isArray(colsOrPk) ? colsOrPk : [];
+            fromCol = fkOrCols;
+            if (Array.isArray(colsOrPk)) listed = colsOrPk;
+            else if (typeof colsOrPk === 'object') options = colsOrPk;
             toCol = (typeof colsOrPk === 'string' ? colsOrPk : pk) ?? 'id';
         }
 
-        this.iqo.joins.push({ table, fromCol, toCol, columns });
+        const join: JoinClause = { table, fromCol, toCol, columns: [] };
+        if (alias) join.alias = alias;
+        if (through) join.through = through;
+        return this._addJoin(join, listed, options);
+    }
+
+    /**
+     * `join(..., { kind: 'left' })`: rows without a match keep their joined
+     * columns as null (a nested object becomes `null`).
+     * ```ts
+     * db.authors.select('name').leftJoin('books', { columns: ['title'] }).all() // → { name, books__title: string | null }
+     * ```
+     */
+    leftJoin<A extends JoinTarget, const O extends Omit<JoinOptions, 'kind'> = {}>(accessor: A, options?: O): QueryBuilder<T, TResult & JoinedFields<A['_tableName'], JoinedRow<A>, O & { kind: 'left' }>>;
+    leftJoin<const N extends string, const O extends Omit<JoinOptions, 'kind'> = {}>(relation: N, options?: O): QueryBuilder<T, TResult & JoinedFields<N, Record<string, any>, O & { kind: 'left' }>>;
+    leftJoin(table: string, fk: string, options?: Omit<JoinOptions, 'kind'>, pk?: string): this;
+    leftJoin(target: string | JoinTarget, fkOrOptions?: string | Omit<JoinOptions, 'kind'>, options?: Omit<JoinOptions, 'kind'>, pk?: string): any {
+        return typeof fkOrOptions === 'string'
+            ? this.join(target as string, fkOrOptions, { ...options, kind: 'left' }, pk)
+            : this.join(target as any, { ...fkOrOptions, kind: 'left' });
+    }
+
+    /** `join(..., { kind: 'cross' })`: every row paired with every row of `target`, no relationship needed. */
+    crossJoin<A extends JoinTarget, const O extends Omit<JoinOptions, 'kind'> = {}>(accessor: A, options?: O): QueryBuilder<T, TResult & JoinedFields<A['_tableName'], JoinedRow<A>, O>>;
+    crossJoin<const N extends string, const O extends Omit<JoinOptions, 'kind'> = {}>(table: N, options?: O): QueryBuilder<T, TResult & JoinedFields<N, Record<string, any>, O>>;
+    crossJoin(target: string | JoinTarget, options?: Omit<JoinOptions, 'kind'>): any {
+        return this.join(target as any, { ...options, kind: 'cross' });
+    }
+
+    /**
+     * Internal: push a join. A `listed` column list keeps the `users_name` prefix;
+     * otherwise the options' columns (or all of the table's) become `users__name`.
+     */
+    private _addJoin(join: JoinClause, listed: readonly string[] | null, options: JoinOptions): this {
+        const name = join.alias ?? join.table;
+        if (options.kind && options.kind !== 'inner') join.kind = options.kind;
+        if (listed) {
+            join.columns = [...listed];
+        } else {
+            const columns = options.columns ?? this.resolvers.tableInfo?.(join.table)?.columns ?? [];
+            if (columns.length > 0) {
+                join.columns = [...columns];
+                join.prefix = `${name}__`;
+            }
+            if (options.nest) {
+                if (columns.length === 0) throw new QueryCompileError(`join(): can't nest '${name}' without its columns — pass options.columns`);
+                join.nest = true;
+            }
+        }
+        this.iqo.joins.push(join);
+        this.iqo.ownColumns ??= this.resolvers.tableInfo?.(this.tableName)?.columns;
         this.iqo.raw = true;
         return this;
     }
 
+    /**
+     * Internal: decode raw join/compound rows with each table's schema (dates, booleans, JSON)
+     * and fold `nest` joins into one object — `null` for an unmatched LEFT JOIN.
+     */
+    private _shapeRows<R>(rows: R[]): R[] {
+        const joins = this.iqo.joins;
+        const foreign = this.iqo.compound?.some(c => c.table !== this.tableName) ?? false;
+        const { tableInfo } = this.resolvers;
+        if ((joins.length === 0 && !foreign) || !tableInfo) return rows;
+        const own = tableInfo(this.tableName);
+        const decoders = joins.map(j => tableInfo(j.table));
+        return rows.map((row: any) => {
+            const rest = { ...row };
+            const joined: Record<string, any> = {};
+            joins.forEach((j, i) => {
+                const name = j.alias ?? j.table;
+                const prefix = j.prefix ?? `${name}_`;
+                const values: Record<string, any> = {};
+                for (const c of j.columns) {
+                    values[c] = rest[prefix + c];
+                    delete rest[prefix + c];
+                }
+                const decoded = decoders[i]?.fromStorage(values) ?? values;
+                if (!j.nest) {
+                    for (const c of j.columns) joined[prefix + c] = decoded[c];
+                } else if (j.kind === 'left') {
+                    const key = joinKeyAlias(j);
+                    joined[name] = rest[key] === null ? null : decoded;
+                    delete rest[key];
+                } else {
+                    joined[name] = decoded;
+                }
+            });
+            return { ...(own ? own.fromStorage(rest) : rest), ...joined };
+        });
+    }
+
+    /**
+     * Combine with another query's rows — `UNION` drops duplicate rows. Both queries
+     * must select the same number of columns. `orderBy()`/`limit()`/`offset()` on this
+     * builder apply to the combined rows; `other` keeps its own.
+     * ```ts
+     * db.posts.select('title', 'createdAt')
+     *   .unionAll(db.reposts.select('title', 'createdAt'))
+     *   .orderBy('createdAt', 'desc').limit(20).all()
+     * ```
+     * Rows from another table come back as plain decoded objects, not entities.
+     */
+    union(other: QueryBuilder<any, any>): this {
+        return this._compound('UNION', other);
+    }
+
+    /** `union()` that keeps duplicate rows. */
+    unionAll(other: QueryBuilder<any, any>): this {
+        return this._compound('UNION ALL', other);
+    }
+
+    /** Rows returned by both this query and `other`. */
+    intersect(other: QueryBuilder<any, any>): this {
+        return this._compound('INTERSECT', other);
+    }
+
+    /** Rows of this query that `other` doesn't return. */
+    except(other: QueryBuilder<any, any>): this {
+        return this._compound('EXCEPT', other);
+    }
+
+    /** Internal: append `other`, compiled now; WITH/ORDER BY/LIMIT need it wrapped as a subquery. */
+    private _compound(op: SetOperator, other: QueryBuilder<any, any>): this {
+        const { sql, params } = other.toSQL();
+        const o = other.iqo;
+        const wrap = (o.ctes?.length ?? 0) > 0 || o.orderBy.length > 0 || o.limit !== null || o.offset !== null;
+        this.iqo.compound = [...this.iqo.compound ?? [], { op, table: other.tableName, sql: wrap ? `SELECT * FROM (${sql})` : sql, params }];
+        if (other.tableName !== this.tableName) this.iqo.raw = true;
+        return this;
+    }
+
+    /** Internal: filters and modifiers added after `union()` & co. would only reach the first query, so they're rejected. */
+    private _assertNotCompound(method: string): void {
+        if (this.iqo.compound?.length) {
+            throw new QueryCompileError(`${method}() after union()/intersect()/except() would only apply to the first query — call it on each query before combining them`);
+        }
+    }
+
     /** Skip Zod parsing and return raw SQLite row objects. */
     raw(): this {
         this.iqo.raw = true;
@@ -227,6 +649,7 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
      * ```
      */
     whereRaw(sql: string, params: any[] = []): this {
+        this._assertNotCompound('whereRaw');
         this.iqo.rawWheres.push({ sql, params });
         return this;
     }
@@ -239,6 +662,7 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
      * ```
      */
     whereIn(column: keyof T & string, values: any[] | QueryBuilder<any, any>): this {
+        this._assertNotCompound('whereIn');
         if (Array.isArray(values)) {
             const placeholders = values.map(() => '?').join(', ');
             this.iqo.rawWheres.push({ sql: `"${column}" IN (${placeholders})`, params: values });
@@ -254,6 +678,7 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
      * Filter by column value NOT being in a list or subquery.
      */
     whereNotIn(column: keyof T & string, values: any[] | QueryBuilder<any, any>): this {
+        this._assertNotCompound('whereNotIn');
         if (Array.isArray(values)) {
             const placeholders = values.map(() => '?').join(', ');
             this.iqo.rawWheres.push({ sql: `"${column}" NOT IN (${placeholders})`, params: values });
@@ -265,31 +690,210 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
     }
 
     /**
-     * Eagerly load a related entity and attach as an array property.
+     * Eagerly load related entities and attach them as properties
+     * (an array for has-many, the row or null for belongs-to/has-one).
      *
-     * Runs a single batched query (WHERE fk IN (...)) per relation,
-     * avoiding the N+1 problem of lazy navigation.
+     * Runs a single batched query (WHERE fk IN (...)) per relation and level,
+     * avoiding the N+1 problem of lazy navigation. Dotted paths load nested
+     * relations; the object form constrains the related query — `limit()` and
+     * `offset()` apply per parent:
+     * ```ts
+     * db.users.select().with('posts.comments.author').all()
+     * db.users.select().with({ posts: q => q.where({ published: true }).orderBy('createdAt', 'desc').limit(5) }).all()
+     * ```
+     */
+    with(...relations: (string | Record<string, EagerConstraint>)[]): this {
+        for (const relation of relations) {
+            const paths = typeof relation === 'string' ? [relation] : Object.keys(relation);
+            for (const path of paths) {
+                if (!this.iqo.includes.includes(path)) this.iqo.includes.push(path);
+            }
+            if (typeof relation !== 'string') {
+                for (const [path, constraint] of Object.entries(relation)) this.eagerConstraints.set(path, constraint);
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Keep rows that have at least one related row through `relation`,
+     * optionally matching a constraint. Compiles to a correlated `EXISTS`.
+     * ```ts
+     * db.authors.select().whereHas('books', q => q.where({ published: true })).all()
+     * ```
      */
-    with(...relations: string[]): this {
-        this.iqo.includes.push(...relations);
+    whereHas(relation: string, constrain?: EagerConstraint): this {
+        this._assertNotCompound('whereHas');
+        const sub = this._relationSubquery(relation, 'whereHas', '1', constrain);
+        this.iqo.rawWheres.push({ sql: `EXISTS (${sub.sql})`, params: sub.params });
         return this;
     }
 
+    /**
+     * Keep rows with no related row through `relation` (matching the constraint, if given).
+     * ```ts
+     * db.users.select().whereDoesntHave('orders').all()
+     * ```
+     */
+    whereDoesntHave(relation: string, constrain?: EagerConstraint): this {
+        this._assertNotCompound('whereDoesntHave');
+        const sub = this._relationSubquery(relation, 'whereDoesntHave', '1', constrain);
+        this.iqo.rawWheres.push({ sql: `NOT EXISTS (${sub.sql})`, params: sub.params });
+        return this;
+    }
+
+    /**
+     * Add a `<relation>_count` column counting related rows, via a correlated subquery.
+     * ```ts
+     * db.authors.select().withCount('books', { published: q => q.where({ published: true }) }).all()
+     * // → [{ name: 'Alice', books_count: 3, published_count: 1 }]  ('published' must be a relation)
+     * ```
+     */
+    withCount<K extends string>(...relations: (K | { [P in K]?: EagerConstraint })[]): QueryBuilder<T, TResult & { [P in K as `${P}_count`]: number }> {
+        this._assertNotCompound('withCount');
+        for (const relation of relations) {
+            const entries: [string, EagerConstraint | undefined][] = typeof relation === 'string'
+                ? [[relation, undefined]]
+                : Object.entries(relation) as [string, EagerConstraint | undefined][];
+            for (const [name, constrain] of entries) {
+                const sub = this._relationSubquery(name, 'withCount', 'COUNT(*)', constrain);
+                (this.iqo.selectExprs ??= []).push({ sql: `(${sub.sql}) AS "${name}_count"`, params: sub.params });
+            }
+        }
+        return this as any;
+    }
+
+    /** Internal: `SELECT <select> FROM <related> WHERE <correlation> AND (<constraints>)` for a relation. */
+    private _relationSubquery(relation: string, method: string, select: string, constrain?: EagerConstraint): { sql: string; params: any[] } {
+        if (!this.resolvers.relationResolver) throw new QueryCompileError(`${method}(): no relationship data available`);
+        const resolved = this.resolvers.relationResolver(this.tableName, relation);
+        if (!resolved) throw new QueryCompileError(`${method}(): no relationship '${relation}' on '${this.tableName}'`);
+        constrain?.(resolved.query);
+
+        // Self-referencing relations (employees.reports) alias the inner table
+        const inner = resolved.table === this.tableName ? relation : resolved.table;
+        const from = inner === resolved.table ? `"${inner}"` : `"${resolved.table}" AS "${inner}"`;
+        const { sql: where, params } = compileWhere(resolved.table, { ...resolved.query.iqo, joins: [] });
+        const withClause = compileCtes(resolved.query.iqo.ctes);
+        const correlation = resolved.correlate(`"${this.tableName}"`, `"${inner}"`);
+        return {
+            sql: `${withClause.sql}SELECT ${select} FROM ${from} WHERE ${correlation.sql}${where ? ` AND (${where})` : ''}`,
+            params: [...withClause.params, ...correlation.params, ...params],
+        };
+    }
+
+    /**
+     * Full-text search over the columns declared in the `search` option, using
+     * FTS5 query syntax (`'sqlite AND (fast OR small)'`, `'"exact phrase"'`, `'pref*'`).
+     * Composes with `.where()`, `.orderBy()`, `.paginate()` and the aggregates.
+     * ```ts
+     * db.messages.select()
+     *     .search('deploy', { highlight: 'body', snippet: 'body', rank: true })
+     *     .where({ archived: false })
+     *     .paginate(1, 20)
+     * // → rows with `highlight`, `snippet` and `rank` columns, best match first
+     * ```
+     */
+    search<const O extends SearchOptions<keyof T & string> = {}>(query: string, options?: O): QueryBuilder<T, TResult & SearchFields<O>> {
+        this._assertNotCompound('search');
+        const { searchColumns } = this.resolvers;
+        if (!searchColumns) {
+            throw new QueryCompileError(`search(): '${this.tableName}' has no search index — declare its columns in the 'search' option`);
+        }
+        const table = searchTableName(this.tableName);
+        const columnIndex = (column: string | undefined, method: string) => {
+            if (column === undefined) return -1;
+            const index = searchColumns.indexOf(column);
+            if (index === -1) throw new QueryCompileError(`search(): ${method} column '${column}' is not indexed on '${this.tableName}'`);
+            return index;
+        };
+        const columns: { sql: string; as: string }[] = [];
+        const { highlight, snippet, rank } = (options ?? {}) as SearchOptions;
+        if (highlight !== undefined) {
+            const h = typeof highlight === 'string' ? { column: highlight } : highlight;
+            const markers = [h.open ?? '<b>', h.close ?? '</b>'].map(sqlString).join(', ');
+            columns.push({ sql: `highlight("${table}", ${columnIndex(h.column, 'highlight')}, ${markers})`, as: 'highlight' });
+        }
+        if (snippet !== undefined) {
+            const s = typeof snippet === 'string' ? { column: snippet } : snippet;
+            const markers = [s.open ?? '<b>', s.close ?? '</b>', s.ellipsis ?? '…'].map(sqlString).join(', ');
+            columns.push({ sql: `snippet("${table}", ${columnIndex(s.column, 'snippet')}, ${markers}, ${s.tokens ?? 16})`, as: 'snippet' });
+        }
+        if (rank) {
+            columns.push({ sql: 'rank', as: 'rank' });
+            this.iqo.orderBy.push({ field: '_search._rank', direction: 'asc' });
+        }
+        this.iqo.search = { table, query, columns };
+        return this as any;
+    }
+
+    /**
+     * Internal: compile without `withCount()` expressions or the `WITH` clause — for aggregates
+     * and mutations that rewrite the SELECT list. Run the result with `_executeBare()`.
+     */
+    private _compileBare(): { sql: string; params: any[] } {
+        // A compound query is already wrapped in `SELECT * FROM (...)`, and its columns must line up
+        if (this.iqo.compound?.length) return compileIQO(this.tableName, { ...this.iqo, ctes: [] });
+        return compileIQO(this.tableName, { ...this.iqo, selectExprs: [], exprsOnly: false, ctes: [] });
+    }
+
+    /** Internal: run SQL derived from `_compileBare()`/`_compileMutation()` with the `WITH` clause restored. */
+    private _executeBare(sql: string, params: any[]): any[] {
+        const withClause = compileCtes(this.iqo.ctes);
+        return this.executor(withClause.sql + sql, [...withClause.params, ...params], true);
+    }
+
+    /**
+     * Internal: compile for UPDATE/DELETE, which keep only the WHERE clause —
+     * so a `search()` becomes a rowid filter instead of a join.
+     */
+    private _compileMutation(): { sql: string; params: any[] } {
+        if (this.iqo.compound?.length) throw new QueryCompileError(`updateAll()/deleteAll()/increment() don't support union/intersect/except queries`);
+        const search = this.iqo.search;
+        if (!search) return this._compileBare();
+        const filter = {
+            sql: `"${this.tableName}".rowid IN (SELECT rowid FROM "${search.table}" WHERE "${search.table}" MATCH ?)`,
+            params: [search.query],
+        };
+        return compileIQO(this.tableName, { ...this.iqo, selectExprs: [], ctes: [], search: undefined, rawWheres: [...this.iqo.rawWheres, filter], exprsOnly: false });
+    }
+
     /** Internal: apply eager loads to a set of results */
     private _applyEagerLoads(results: T[]): T[] {
-        if (this.iqo.includes.length === 0 || !this.eagerLoader || results.length === 0) {
+        if (this.iqo.includes.length === 0 || !this.resolvers.eagerLoader || results.length === 0) {
             return results;
         }
 
-        const parentIds = results.map((r: any) => r.id).filter((id: any) => typeof id === 'number');
-        if (parentIds.length === 0) return results;
+        // Group dotted paths by their first segment: 'posts.comments' loads posts, then comments per post
+        const tree = new Map<string, { nested: string[]; constraints: Record<string, EagerConstraint> }>();
+        const node = (head: string) => {
+            if (!tree.has(head)) tree.set(head, { nested: [], constraints: {} });
+            return tree.get(head)!;
+        };
+        for (const path of this.iqo.includes) {
+            const [head, ...rest] = path.split('.');
+            const entry = node(head!);
+            if (rest.length > 0) entry.nested.push(rest.join('.'));
+        }
+        for (const [path, constraint] of this.eagerConstraints) {
+            const [head, ...rest] = path.split('.');
+            node(head!).constraints[rest.join('.')] = constraint;
+        }
 
-        for (const relation of this.iqo.includes) {
-            const loaded = this.eagerLoader(this.tableName, relation, parentIds);
+        for (const [relation, { nested, constraints }] of tree) {
+            const { '': own, ...nestedConstraints } = constraints;
+            const loaded = this.resolvers.eagerLoader(this.tableName, relation, results, (q, window) => {
+                if (nested.length > 0) q.with(...nested);
+                if (Object.keys(nestedConstraints).length > 0) q.with(nestedConstraints);
+                own?.(q);
+                q._eagerWindow(window);
+            });
             if (!loaded) continue;
 
             for (const row of results as any[]) {
-                row[loaded.key] = loaded.groups.get(row.id) ?? [];
+                const key = loaded.parentKey ? loaded.parentKey(row) : row.id;
+                const group = key === null ? undefined : loaded.groups.get(key);
+                row[loaded.key] = loaded.single ? group?.[0] ?? null : group ?? [];
             }
         }
 
@@ -298,30 +902,84 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
 
     // ---------- Terminal / Execution Methods ----------
 
+    /** Internal (eager loading): select each row's parent key; LIMIT/OFFSET then apply per parent. */
+    private _eagerWindow(window: EagerWindow): void {
+        this.iqo.eager = window;
+        if (window.through) this.iqo.ownColumns ??= this.resolvers.tableInfo?.(this.tableName)?.columns;
+    }
+
     /** Execute the query and return all matching rows. */
     all(): TResult[] {
         const { sql, params } = compileIQO(this.tableName, this.iqo);
-        const results = this.executor(sql, params, this.iqo.raw);
+        const results = this._shapeRows(this.executor(sql, params, this.iqo.raw));
         return this._applyEagerLoads(results) as unknown as TResult[];
     }
 
+    /**
+     * Stream matching rows without materializing the result set. Rows are read
+     * from the statement as they are consumed; eager loads run per batch.
+     * Breaking out of the loop finalizes the statement.
+     * ```ts
+     * for (const log of db.logs.select().where({ level: 'error' }).iterate()) { ... }
+     * ```
+     */
+    *iterate(): Generator<TResult> {
+        for (const batch of this._batches(ITERATE_BATCH_SIZE)) yield* batch;
+    }
+
+    /**
+     * Process matching rows `size` at a time. Return `false` from the callback to stop.
+     * ```ts
+     * db.logs.select().orderBy('id').chunk(500, (rows, page) => exportRows(rows));
+     * ```
+     */
+    chunk(size: number, callback: (rows: TResult[], page: number) => void | false): void {
+        if (!Number.isInteger(size) || size < 1) throw new QueryCompileError('chunk() size must be a positive integer');
+        let page = 0;
+        for (const batch of this._batches(size)) {
+            if (callback(batch, page++) === false) return;
+        }
+    }
+
+    /** Call `callback` for each matching row, streamed like `iterate()`. Return `false` to stop. */
+    each(callback: (row: TResult, index: number) => void | false): void {
+        let index = 0;
+        for (const row of this.iterate()) {
+            if (callback(row, index++) === false) return;
+        }
+    }
+
+    /** Internal: matching rows in batches of `size`, with eager loads applied to each batch. */
+    private *_batches(size: number): Generator<TResult[]> {
+        const { sql, params } = compileIQO(this.tableName, this.iqo);
+        const rows = this.resolvers.rowIterator?.(sql, params, this.iqo.raw) ?? this.executor(sql, params, this.iqo.raw);
+        let batch: T[] = [];
+        for (const row of rows) {
+            batch.push(row);
+            if (batch.length < size) continue;
+            yield this._applyEagerLoads(this._shapeRows(batch)) as unknown as TResult[];
+            batch = [];
+        }
+        if (batch.length > 0) yield this._applyEagerLoads(this._shapeRows(batch)) as unknown as TResult[];
+    }
+
     /** Execute the query and return the first matching row, or null. */
     get(): TResult | null {
         this.iqo.limit = 1;
         const { sql, params } = compileIQO(this.tableName, this.iqo);
         const result = this.singleExecutor(sql, params, this.iqo.raw);
         if (!result) return null;
-        const [loaded] = this._applyEagerLoads([result]);
+        const [loaded] = this._applyEagerLoads(this._shapeRows([result]));
         return (loaded ?? null) as TResult | null;
     }
 
     /** Execute the query and return the count of matching rows. */
     count(): number {
         // Reuse compileIQO to avoid duplicating WHERE logic
-        const { sql: selectSql, params } = compileIQO(this.tableName, this.iqo);
+        const { sql: selectSql, params } = this._compileBare();
         // Replace "SELECT ... FROM" with "SELECT COUNT(*) as count FROM"
         const countSql = selectSql.replace(/^SELECT .+? FROM/, 'SELECT COUNT(*) as count FROM');
-        const results = this.executor(countSql, params, true);
+        const results = this._executeBare(countSql, params);
         return (results[0] as any)?.count ?? 0;
     }
 
@@ -334,31 +992,33 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
      * Return the first matching row or throw if none found.
      * ```ts
      * const user = db.users.select().where({ id: 1 }).firstOrFail();
-     * // throws Error('No matching row found') if id=1 doesn't exist
+     * // throws NotFoundError('No matching row found') if id=1 doesn't exist
      * ```
      */
     firstOrFail(): TResult {
         const row = this.get();
-        if (row === null) throw new Error('No matching row found');
+        if (row === null) throw new NotFoundError(this.tableName);
         return row;
     }
 
     /** Returns true if at least one row matches the query. */
     exists(): boolean {
-        const { sql: selectSql, params } = compileIQO(this.tableName, this.iqo);
+        const { sql: selectSql, params } = this._compileBare();
         const existsSql = selectSql.replace(/^SELECT .+? FROM/, 'SELECT 1 FROM').replace(/ LIMIT \d+/, '') + ' LIMIT 1';
-        const results = this.executor(existsSql, params, true);
+        const results = this._executeBare(existsSql, params);
         return results.length > 0;
     }
 
     /** Group results by one or more columns. */
     groupBy(...fields: string[]): this {
+        this._assertNotCompound('groupBy');
         this.iqo.groupBy.push(...fields);
         return this;
     }
 
     /** Return only distinct rows. */
     distinct(): this {
+        this._assertNotCompound('distinct');
         this.iqo.distinct = true;
         return this;
     }
@@ -368,6 +1028,7 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
      * Only relevant when `softDeletes: true` is set in Database options.
      */
     withTrashed(): this {
+        this._assertNotCompound('withTrashed');
         // Remove the auto-injected `deletedAt IS NULL` filter
         this.iqo.wheres = this.iqo.wheres.filter(
             w => !(w.field === 'deletedAt' && w.operator === 'IS NULL')
@@ -380,6 +1041,7 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
      * Only relevant when `softDeletes: true` is set in Database options.
      */
     onlyTrashed(): this {
+        this._assertNotCompound('onlyTrashed');
         // Remove the auto-injected `deletedAt IS NULL` and add `deletedAt IS NOT NULL`
         this.iqo.wheres = this.iqo.wheres.filter(
             w => !(w.field === 'deletedAt' && w.operator === 'IS NULL')
@@ -398,11 +1060,12 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
      * ```
      */
     having(conditions: Record<string, any>): this {
+        this._assertNotCompound('having');
         for (const [field, value] of Object.entries(conditions)) {
             if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
                 for (const [opKey, operand] of Object.entries(value)) {
                     const sqlOp = OPERATOR_MAP[opKey as WhereOperator];
-                    if (!sqlOp) throw new Error(`Unsupported having operator: '${opKey}'`);
+                    if (!sqlOp) throw new QueryCompileError(`Unsupported having operator: '${opKey}'`);
                     this.iqo.having.push({ field, operator: sqlOp as WhereCondition['operator'], value: operand });
                 }
             } else {
@@ -416,33 +1079,33 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
 
     /** Returns the SUM of a numeric column. */
     sum(field: keyof T & string): number {
-        const { sql: selectSql, params } = compileIQO(this.tableName, this.iqo);
+        const { sql: selectSql, params } = this._compileBare();
         const aggSql = selectSql.replace(/^SELECT .+? FROM/, `SELECT COALESCE(SUM("${field}"), 0) as val FROM`);
-        const results = this.executor(aggSql, params, true);
+        const results = this._executeBare(aggSql, params);
         return (results[0] as any)?.val ?? 0;
     }
 
     /** Returns the AVG of a numeric column. */
     avg(field: keyof T & string): number {
-        const { sql: selectSql, params } = compileIQO(this.tableName, this.iqo);
+        const { sql: selectSql, params } = this._compileBare();
         const aggSql = selectSql.replace(/^SELECT .+? FROM/, `SELECT AVG("${field}") as val FROM`);
-        const results = this.executor(aggSql, params, true);
+        const results = this._executeBare(aggSql, params);
         return (results[0] as any)?.val ?? 0;
     }
 
     /** Returns the MIN of a column. */
     min(field: keyof T & string): number | string | null {
-        const { sql: selectSql, params } = compileIQO(this.tableName, this.iqo);
+        const { sql: selectSql, params } = this._compileBare();
         const aggSql = selectSql.replace(/^SELECT .+? FROM/, `SELECT MIN("${field}") as val FROM`);
-        const results = this.executor(aggSql, params, true);
+        const results = this._executeBare(aggSql, params);
         return (results[0] as any)?.val ?? null;
     }
 
     /** Returns the MAX of a column. */
     max(field: keyof T & string): number | string | null {
-        const { sql: selectSql, params } = compileIQO(this.tableName, this.iqo);
+        const { sql: selectSql, params } = this._compileBare();
         const aggSql = selectSql.replace(/^SELECT .+? FROM/, `SELECT MAX("${field}") as val FROM`);
-        const results = this.executor(aggSql, params, true);
+        const results = this._executeBare(aggSql, params);
         return (results[0] as any)?.val ?? null;
     }
 
@@ -456,6 +1119,94 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
         return { data, total, page, perPage, pages };
     }
 
+    /**
+     * Keyset pagination: pages by the `orderBy()` columns, with the primary key as a tiebreaker,
+     * instead of OFFSET. Stays fast deep into large tables and doesn't skip or repeat
+     * rows when data changes between pages. Cursors are opaque strings.
+     *
+     * ```ts
+     * const page = db.posts.select().orderBy('createdAt', 'desc').cursorPaginate({ limit: 20 });
+     * const next = db.posts.select().orderBy('createdAt', 'desc').cursorPaginate({ after: page.nextCursor!, limit: 20 });
+     * const back = db.posts.select().orderBy('createdAt', 'desc').cursorPaginate({ before: next.prevCursor!, limit: 20 });
+     * ```
+     * Ordered columns should be NOT NULL — NULLs never compare, so those rows are skipped.
+     */
+    cursorPaginate(options: { after?: string; before?: string; limit?: number } = {}): CursorPage<TResult> {
+        const { after, before, limit = 20 } = options;
+        if (after !== undefined && before !== undefined) {
+            throw new QueryCompileError('cursorPaginate(): pass either after or before, not both');
+        }
+        if (this.iqo.compound?.length) throw new QueryCompileError(`cursorPaginate() doesn't support union/intersect/except queries; use paginate()`);
+        const keys = [...this.iqo.orderBy];
+        for (const column of this.resolvers.tableInfo?.(this.tableName)?.key ?? ['id']) {
+            const qualified = `${this.tableName}.${column}`;
+            if (!keys.some(k => k.field === column || k.field === qualified)) keys.push({ field: qualified, direction: 'asc' });
+        }
+        const qualify = (field: string) =>
+            this.iqo.joins.length > 0 && /^\w+$/.test(field) ? `${this.tableName}.${field}` : field;
+
+        // Pages before a cursor are read in reverse order, then flipped back
+        const backward = before !== undefined;
+        const cursor = after ?? before;
+        const rawWheres = [...this.iqo.rawWheres];
+        let beyond: { sql: string; params: any[] } | null = null;
+        if (cursor !== undefined) {
+            const values = decodeCursor(cursor, keys.length);
+            const parts = keys.map((k, i) => {
+                const forward = (k.direction === 'asc') !== backward;
+                const ties = keys.slice(0, i).map(p => `${qualify(p.field)} = ?`);
+                return [...ties, `${qualify(k.field)} ${forward ? '>' : '<'} ?`].join(' AND ');
+            });
+            const params = keys.flatMap((_, i) => values.slice(0, i + 1));
+            const sql = parts.map(p => `(${p})`).join(' OR ');
+            rawWheres.push({ sql, params });
+            // Rows on the cursor's other side, including the cursor row itself
+            beyond = { sql: `NOT (${sql})`, params };
+        }
+
+        const { sql, params } = compileIQO(this.tableName, {
+            ...this.iqo,
+            rawWheres,
+            selectExprs: [...this.iqo.selectExprs ?? [], ...keys.map((k, i) => ({ sql: `${qualify(k.field)} AS _cursor_${i}`, params: [] }))],
+            orderBy: backward ? keys.map(k => ({ field: k.field, direction: k.direction === 'asc' ? 'desc' as const : 'asc' as const })) : keys,
+            limit: limit + 1,
+            offset: null,
+        });
+        const rows = this._shapeRows(this.executor(sql, params, this.iqo.raw));
+        const more = rows.length > limit;
+        const page = rows.slice(0, limit);
+        if (backward) page.reverse();
+
+        const cursors = page.map(row => {
+            const values = keys.map((_, i) => row[`_cursor_${i}`]);
+            keys.forEach((_, i) => delete row[`_cursor_${i}`]);
+            return encodeCursor(values);
+        });
+        // Whether rows exist on the cursor's other side: one probe, only when a cursor was given
+        let behind = false;
+        if (beyond !== null) {
+            const probe = compileIQO(this.tableName, {
+                ...this.iqo,
+                rawWheres: [...this.iqo.rawWheres, beyond],
+                selectExprs: [],
+                exprsOnly: false,
+                orderBy: [],
+                limit: 1,
+                offset: null,
+            });
+            behind = this.executor(probe.sql, probe.params, true).length > 0;
+        }
+        const hasNext = backward ? behind : more;
+        const hasPrev = backward ? more : behind;
+        return {
+            data: this._applyEagerLoads(page) as unknown as TResult[],
+            nextCursor: hasNext ? cursors[cursors.length - 1] ?? null : null,
+            prevCursor: hasPrev ? cursors[0] ?? null : null,
+            hasNext,
+            hasPrev,
+        };
+    }
+
     /**
      * Count rows per group. Must call `.groupBy()` first.
      * Returns an array of objects with the grouped column(s) and a `count` field.
@@ -467,15 +1218,15 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
      */
     countGrouped(): (Record<string, any> & { count: number })[] {
         if (this.iqo.groupBy.length === 0) {
-            throw new Error('countGrouped() requires at least one groupBy() call');
+            throw new QueryCompileError('countGrouped() requires at least one groupBy() call');
         }
         const groupCols = this.iqo.groupBy.map(c => `"${c}"`).join(', ');
-        const { sql: selectSql, params } = compileIQO(this.tableName, this.iqo);
+        const { sql: selectSql, params } = this._compileBare();
         const aggSql = selectSql.replace(
             /^SELECT .+? FROM/,
             `SELECT ${groupCols}, COUNT(*) as count FROM`
         );
-        return this.executor(aggSql, params, true) as any;
+        return this._executeBare(aggSql, params) as any;
     }
 
     // ---------- Query Inspection ----------
@@ -500,24 +1251,18 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
      * ```
      */
     pluck(column: keyof T & string): any[] {
-        const { sql: selectSql, params } = compileIQO(this.tableName, this.iqo);
+        const { sql: selectSql, params } = this._compileBare();
         const pluckSql = selectSql.replace(/^SELECT .+? FROM/, `SELECT "${column}" FROM`);
-        const results = this.executor(pluckSql, params, true);
+        const results = this._executeBare(pluckSql, params);
         return results.map((r: any) => r[column]);
     }
 
     /** Clone this QueryBuilder so you can fork a query. */
     clone(): QueryBuilder<T, TResult> {
-        const cloned = new QueryBuilder<T, TResult>(
-            this.tableName,
-            this.executor,
-            this.singleExecutor,
-            this.joinResolver,
-            this.conditionResolver,
-            this.eagerLoader,
-        );
+        const cloned = new QueryBuilder<T, TResult>(this.tableName, this.executor, this.singleExecutor, this.resolvers);
         // Deep-copy the IQO state
         (cloned as any).iqo = JSON.parse(JSON.stringify(this.iqo));
+        cloned.eagerConstraints = new Map(this.eagerConstraints);
         return cloned;
     }
 
@@ -531,7 +1276,7 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
      * ```
      */
     updateAll(data: Partial<T>): number {
-        const { sql: selectSql, params } = compileIQO(this.tableName, this.iqo);
+        const { sql: selectSql, params } = this._compileMutation();
         // Extract WHERE clause from compiled SELECT
         const whereMatch = selectSql.match(/WHERE (.+?)(?:\s+ORDER|\s+LIMIT|\s+GROUP|\s+HAVING|$)/s);
         const wherePart = whereMatch ? whereMatch[1] : '1=1';
@@ -548,7 +1293,7 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
         }
 
         const updateSql = `UPDATE "${this.tableName}" SET ${setClauses.join(', ')} WHERE ${wherePart}`;
-        this.executor(updateSql, [...setParams, ...params], true);
+        this._executeBare(updateSql, [...setParams, ...params]);
         // Return affected rows via changes()
         const result = this.executor(`SELECT changes() as c`, [], true);
         return (result[0] as any)?.c ?? 0;
@@ -562,12 +1307,12 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
      * ```
      */
     deleteAll(): number {
-        const { sql: selectSql, params } = compileIQO(this.tableName, this.iqo);
+        const { sql: selectSql, params } = this._compileMutation();
         const whereMatch = selectSql.match(/WHERE (.+?)(?:\s+ORDER|\s+LIMIT|\s+GROUP|\s+HAVING|$)/s);
         const wherePart = whereMatch ? whereMatch[1] : '1=1';
 
         const deleteSql = `DELETE FROM "${this.tableName}" WHERE ${wherePart}`;
-        this.executor(deleteSql, params, true);
+        this._executeBare(deleteSql, params);
         const result = this.executor(`SELECT changes() as c`, [], true);
         return (result[0] as any)?.c ?? 0;
     }
@@ -580,12 +1325,12 @@ export class QueryBuilder<T extends Record<string, any>, TResult extends Record<
      * ```
      */
     increment(column: keyof T & string, amount: number = 1): number {
-        const { sql: selectSql, params } = compileIQO(this.tableName, this.iqo);
+        const { sql: selectSql, params } = this._compileMutation();
         const whereMatch = selectSql.match(/WHERE (.+?)(?:\s+ORDER|\s+LIMIT|\s+GROUP|\s+HAVING|$)/s);
         const wherePart = whereMatch ? whereMatch[1] : '1=1';
 
         const sql = `UPDATE "${this.tableName}" SET "${column}" = "${column}" + ? WHERE ${wherePart}`;
-        this.executor(sql, [amount, ...params], true);
+        this._executeBare(sql, [amount, ...params]);
         const result = this.executor(`SELECT changes() as c`, [], true);
         return (result[0] as any)?.c ?? 0;
     }
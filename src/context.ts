@@ -5,7 +5,8 @@
  * can access the Database's internals without importing the full class.
  */
 import type { Database as SqliteDatabase } from 'bun:sqlite';
-import type { SchemaMap, Relationship, AugmentedEntity, TableHooks } from './types';
+import type { SchemaMap, Relationship, AugmentedEntity, TableHooks, ValidationMode } from './types';
+import type { KeySpec } from './keys';
 
 export interface DatabaseContext {
     /** The raw bun:sqlite Database handle. */
@@ -32,14 +33,23 @@ export interface DatabaseContext {
     /** Whether soft deletes are enabled (deletedAt column). */
     softDeletes: boolean;
 
+    /** How writes are validated against the Zod schema. */
+    validate: ValidationMode;
+
     /** Lifecycle hooks keyed by table name. */
     hooks: Record<string, TableHooks>;
 
     /** Computed/virtual getters per table. */
     computed: Record<string, Record<string, (entity: Record<string, any>) => any>>;
 
-    /** Cascade delete config — parent table → list of child tables to auto-delete. */
-    cascade: Record<string, string[]>;
+    /** Primary key of each table. */
+    keys: Record<string, KeySpec>;
+
+    /** FTS5-indexed columns per table, from the `search` option. */
+    search: Record<string, string[]>;
+
+    /** JSON paths per table with an indexed generated column, from the `jsonIndexes` option. */
+    jsonIndexes: Record<string, string[]>;
 
     /**
      * Conditional measurement helper — wraps fn with measure-fn when debug is on.
@@ -50,6 +60,7 @@ export interface DatabaseContext {
     /**
      * Get a cached prepared statement. Compiles SQL once, reuses on subsequent calls.
      * Falls back to `db.query(sql)` if the statement was finalized.
+     * With `safeIntegers`, integers are read as bigint (for `z.bigint()` columns).
      */
-    _stmt(sql: string): ReturnType<SqliteDatabase['query']>;
+    _stmt(sql: string, safeIntegers?: boolean): ReturnType<SqliteDatabase['query']>;
 }
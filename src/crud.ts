@@ -4,33 +4,57 @@
  * Each function accepts a `DatabaseContext` so it can access
  * the db handle, schemas, and entity methods without tight coupling.
  */
-import type { AugmentedEntity, UpdateBuilder, DeleteBuilder } from './types';
+import type { AugmentedEntity, UpdateBuilder, DeleteBuilder, EntityKey, Relationship } from './types';
 import { asZodObject } from './types';
-import { transformForStorage, transformFromStorage } from './schema';
+import { transformForStorage, transformFromStorage, hasBigIntFields, deleteAction } from './schema';
+import { keyWhere, rowKey, hasIdColumn } from './keys';
 import type { DatabaseContext } from './context';
+import { ValidationError, QueryCompileError, ForeignKeyError, withSqliteErrors } from './errors';
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Run the configured Zod validation for a write, before `transformForStorage`.
+ * Inserts in `'strict'` mode parse the full schema (so `.default()` values are
+ * applied); everything else parses `.partial()`. Throws `ValidationError`.
+ */
+export function validateWrite(ctx: DatabaseContext, entityName: string, data: Record<string, any>, kind: 'insert' | 'update'): Record<string, any> {
+    if (ctx.validate === false) return data;
+    const schema = asZodObject(ctx.schemas[entityName]!);
+    const zodSchema = kind === 'insert' && ctx.validate === 'strict' ? schema.passthrough() : schema.partial();
+    const result = zodSchema.safeParse(data);
+    if (!result.success) throw new ValidationError(entityName, result.error);
+    return result.data;
+}
 
 // ---------------------------------------------------------------------------
 // Read helpers
 // ---------------------------------------------------------------------------
 
-export function getById(ctx: DatabaseContext, entityName: string, id: number): AugmentedEntity<any> | null {
-    const row = ctx._stmt(`SELECT * FROM "${entityName}" WHERE id = ?`).get(id) as any;
+export function getById(ctx: DatabaseContext, entityName: string, id: EntityKey): AugmentedEntity<any> | null {
+    const schema = ctx.schemas[entityName]!;
+    const { clause, values } = keyWhere(ctx, entityName, id);
+    const row = ctx._stmt(`SELECT * FROM "${entityName}" ${clause}`, hasBigIntFields(schema)).get(...values) as any;
     if (!row) return null;
-    return ctx.attachMethods(entityName, transformFromStorage(row, ctx.schemas[entityName]!));
+    return ctx.attachMethods(entityName, transformFromStorage(row, schema));
 }
 
 export function getOne(ctx: DatabaseContext, entityName: string, conditions: Record<string, any>): AugmentedEntity<any> | null {
     const { clause, values } = ctx.buildWhereClause(conditions);
-    const row = ctx._stmt(`SELECT * FROM "${entityName}" ${clause} LIMIT 1`).get(...values) as any;
+    const schema = ctx.schemas[entityName]!;
+    const row = ctx._stmt(`SELECT * FROM "${entityName}" ${clause} LIMIT 1`, hasBigIntFields(schema)).get(...values) as any;
     if (!row) return null;
-    return ctx.attachMethods(entityName, transformFromStorage(row, ctx.schemas[entityName]!));
+    return ctx.attachMethods(entityName, transformFromStorage(row, schema));
 }
 
 export function findMany(ctx: DatabaseContext, entityName: string, conditions: Record<string, any> = {}): AugmentedEntity<any>[] {
     const { clause, values } = ctx.buildWhereClause(conditions);
-    const rows = ctx._stmt(`SELECT * FROM "${entityName}" ${clause}`).all(...values);
+    const schema = ctx.schemas[entityName]!;
+    const rows = ctx._stmt(`SELECT * FROM "${entityName}" ${clause}`, hasBigIntFields(schema)).all(...values);
     return rows.map((row: any) =>
-        ctx.attachMethods(entityName, transformFromStorage(row, ctx.schemas[entityName]!))
+        ctx.attachMethods(entityName, transformFromStorage(row, schema))
     );
 }
 
@@ -39,7 +63,6 @@ export function findMany(ctx: DatabaseContext, entityName: string, conditions: R
 // ---------------------------------------------------------------------------
 
 export function insert<T extends Record<string, any>>(ctx: DatabaseContext, entityName: string, data: Omit<T, 'id'>): AugmentedEntity<any> {
-    const schema = ctx.schemas[entityName]!;
     let inputData = { ...data } as Record<string, any>;
 
     // beforeInsert hook — can transform data
@@ -49,16 +72,7 @@ export function insert<T extends Record<string, any>>(ctx: DatabaseContext, enti
         if (result) inputData = result;
     }
 
-    const validatedData = asZodObject(schema).passthrough().parse(inputData);
-    const transformed = transformForStorage(validatedData);
-
-    // Auto-inject timestamps
-    if (ctx.timestamps) {
-        const now = new Date().toISOString();
-        transformed.createdAt = now;
-        transformed.updatedAt = now;
-    }
-
+    const transformed = prepareInsert(ctx, entityName, inputData);
     const columns = Object.keys(transformed);
 
     const quotedCols = columns.map(c => `"${c}"`);
@@ -66,12 +80,12 @@ export function insert<T extends Record<string, any>>(ctx: DatabaseContext, enti
         ? `INSERT INTO "${entityName}" DEFAULT VALUES`
         : `INSERT INTO "${entityName}" (${quotedCols.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`;
 
-    let lastId = 0;
-    ctx._m(`SQL: ${sql.slice(0, 40)}`, () => {
+    let key: EntityKey = 0;
+    ctx._m(`SQL: ${sql.slice(0, 40)}`, () => withSqliteErrors(entityName, () => {
         const result = ctx._stmt(sql).run(...Object.values(transformed));
-        lastId = result.lastInsertRowid as number;
-    });
-    const newEntity = getById(ctx, entityName, lastId);
+        key = insertedKey(ctx, entityName, transformed, result.lastInsertRowid as number);
+    }));
+    const newEntity = getById(ctx, entityName, key);
     if (!newEntity) throw new Error('Failed to retrieve entity after insertion');
 
     // afterInsert hook
@@ -80,8 +94,37 @@ export function insert<T extends Record<string, any>>(ctx: DatabaseContext, enti
     return newEntity;
 }
 
-export function update<T extends Record<string, any>>(ctx: DatabaseContext, entityName: string, id: number, data: Partial<Omit<T, 'id'>>): AugmentedEntity<any> | null {
-    const schema = ctx.schemas[entityName]!;
+/**
+ * Validate and transform one row for INSERT: keeps a caller-supplied `id`
+ * (Zod strips unknown keys in partial mode), generates one for uuid/ulid
+ * keys, and adds timestamps. A missing `'text'` id is left to NOT NULL.
+ */
+function prepareInsert(ctx: DatabaseContext, entityName: string, inputData: Record<string, any>): Record<string, any> {
+    const spec = ctx.keys[entityName]!;
+    const { id, ...fields } = inputData;
+    const validatedData = validateWrite(ctx, entityName, hasIdColumn(spec) ? fields : inputData, 'insert');
+    const transformed = transformForStorage(validatedData);
+
+    if (hasIdColumn(spec)) {
+        const key = id ?? spec.generate?.();
+        if (key !== undefined && key !== null) transformed.id = key;
+    }
+
+    // Auto-inject timestamps
+    if (ctx.timestamps) {
+        const now = new Date().toISOString();
+        transformed.createdAt = now;
+        transformed.updatedAt = now;
+    }
+    return transformed;
+}
+
+/** Key of a row just inserted from `transformed`. */
+function insertedKey(ctx: DatabaseContext, entityName: string, transformed: Record<string, any>, lastInsertRowid: number): EntityKey {
+    return ctx.keys[entityName]!.autoincrement ? lastInsertRowid : rowKey(ctx, entityName, transformed);
+}
+
+export function update<T extends Record<string, any>>(ctx: DatabaseContext, entityName: string, id: EntityKey, data: Partial<Omit<T, 'id'>>): AugmentedEntity<any> | null {
     let inputData = { ...data } as Record<string, any>;
 
     // beforeUpdate hook — can transform data
@@ -91,7 +134,7 @@ export function update<T extends Record<string, any>>(ctx: DatabaseContext, enti
         if (result) inputData = result;
     }
 
-    const validatedData = asZodObject(schema).partial().parse(inputData);
+    const validatedData = validateWrite(ctx, entityName, inputData, 'update');
     const transformed = transformForStorage(validatedData);
     if (Object.keys(transformed).length === 0 && !ctx.timestamps) return getById(ctx, entityName, id);
 
@@ -101,10 +144,11 @@ export function update<T extends Record<string, any>>(ctx: DatabaseContext, enti
     }
 
     const setClause = Object.keys(transformed).map(key => `"${key}" = ?`).join(', ');
-    const sql = `UPDATE "${entityName}" SET ${setClause} WHERE id = ?`;
-    ctx._m(`SQL: UPDATE ${entityName} SET ...`, () => {
-        ctx._stmt(sql).run(...Object.values(transformed), id);
-    });
+    const { clause, values } = keyWhere(ctx, entityName, id);
+    const sql = `UPDATE "${entityName}" SET ${setClause} ${clause}`;
+    ctx._m(`SQL: UPDATE ${entityName} SET ...`, () => withSqliteErrors(entityName, () => {
+        ctx._stmt(sql).run(...Object.values(transformed), ...values);
+    }));
 
     const updated = getById(ctx, entityName, id);
 
@@ -115,20 +159,19 @@ export function update<T extends Record<string, any>>(ctx: DatabaseContext, enti
 }
 
 export function updateWhere(ctx: DatabaseContext, entityName: string, data: Record<string, any>, conditions: Record<string, any>): number {
-    const schema = ctx.schemas[entityName]!;
-    const validatedData = asZodObject(schema).partial().parse(data);
+    const validatedData = validateWrite(ctx, entityName, data, 'update');
     const transformed = transformForStorage(validatedData);
     if (Object.keys(transformed).length === 0) return 0;
 
     const { clause, values: whereValues } = ctx.buildWhereClause(conditions);
-    if (!clause) throw new Error('update().where() requires at least one condition');
+    if (!clause) throw new QueryCompileError('update().where() requires at least one condition');
 
     const setCols = Object.keys(transformed);
     const setClause = setCols.map(key => `"${key}" = ?`).join(', ');
-    const result = ctx._stmt(`UPDATE "${entityName}" SET ${setClause} ${clause}`).run(
+    const result = withSqliteErrors(entityName, () => ctx._stmt(`UPDATE "${entityName}" SET ${setClause} ${clause}`).run(
         ...setCols.map(key => transformed[key]),
         ...whereValues
-    );
+    ));
 
     return (result as any).changes ?? 0;
 }
@@ -143,7 +186,7 @@ export function createUpdateBuilder(ctx: DatabaseContext, entityName: string, da
 }
 
 export function upsert<T extends Record<string, any>>(ctx: DatabaseContext, entityName: string, data: any, conditions: any = {}): AugmentedEntity<any> {
-    const hasId = data?.id && typeof data.id === 'number';
+    const hasId = data?.id !== undefined && data.id !== null && hasIdColumn(ctx.keys[entityName]!);
     const existing = hasId
         ? getById(ctx, entityName, data.id)
         : Object.keys(conditions ?? {}).length > 0
@@ -153,10 +196,11 @@ export function upsert<T extends Record<string, any>>(ctx: DatabaseContext, enti
     if (existing) {
         const updateData = { ...data };
         delete updateData.id;
-        return update(ctx, entityName, existing.id, updateData) as AugmentedEntity<any>;
+        return update(ctx, entityName, rowKey(ctx, entityName, existing), updateData) as AugmentedEntity<any>;
     }
     const insertData = { ...(conditions ?? {}), ...(data ?? {}) };
-    delete insertData.id;
+    // Autoincrement ids are assigned by SQLite; text ids are kept as the new row's key
+    if (ctx.keys[entityName]!.autoincrement) delete insertData.id;
     return insert(ctx, entityName, insertData);
 }
 
@@ -169,11 +213,11 @@ export function findOrCreate<T extends Record<string, any>>(
     const existing = getOne(ctx, entityName, conditions);
     if (existing) return { entity: existing, created: false };
     const data = { ...conditions, ...defaults };
-    delete (data as any).id;
+    if (ctx.keys[entityName]!.autoincrement) delete (data as any).id;
     return { entity: insert(ctx, entityName, data), created: true };
 }
 
-export function deleteEntity(ctx: DatabaseContext, entityName: string, id: number): void {
+export function deleteEntity(ctx: DatabaseContext, entityName: string, id: EntityKey): void {
     // beforeDelete hook — return false to cancel
     const hooks = ctx.hooks[entityName];
     if (hooks?.beforeDelete) {
@@ -181,7 +225,8 @@ export function deleteEntity(ctx: DatabaseContext, entityName: string, id: numbe
         if (result === false) return;
     }
 
-    ctx._stmt(`DELETE FROM "${entityName}" WHERE id = ?`).run(id);
+    const { clause, values } = keyWhere(ctx, entityName, id);
+    withSqliteErrors(entityName, () => ctx._stmt(`DELETE FROM "${entityName}" ${clause}`).run(...values));
 
     // afterDelete hook
     if (hooks?.afterDelete) hooks.afterDelete(id);
@@ -190,21 +235,57 @@ export function deleteEntity(ctx: DatabaseContext, entityName: string, id: numbe
 /** Delete all rows matching the given conditions. Returns the number of rows affected. */
 export function deleteWhere(ctx: DatabaseContext, entityName: string, conditions: Record<string, any>): number {
     const { clause, values } = ctx.buildWhereClause(conditions);
-    if (!clause) throw new Error('delete().where() requires at least one condition');
+    if (!clause) throw new QueryCompileError('delete().where() requires at least one condition');
 
     if (ctx.softDeletes) {
         // Soft delete: set deletedAt instead of removing rows
-        const now = new Date().toISOString();
-        const sql = `UPDATE "${entityName}" SET "deletedAt" = ? ${clause}`;
-        const result = ctx._m(`SQL: ${sql.slice(0, 50)}`, () => ctx._stmt(sql).run(now, ...values));
-        return (result as any).changes ?? 0;
+        return ctx._m(`SQL: soft delete ${entityName}`, () => softDelete(ctx, entityName, clause, values));
     }
 
     const sql = `DELETE FROM "${entityName}" ${clause}`;
-    const result = ctx._m(`SQL: ${sql.slice(0, 50)}`, () => ctx._stmt(sql).run(...values));
+    const result = ctx._m(`SQL: ${sql.slice(0, 50)}`, () => withSqliteErrors(entityName, () => ctx._stmt(sql).run(...values)));
     return (result as any).changes ?? 0;
 }
 
+/**
+ * Soft-delete the live rows matching `clause` (a `WHERE ...` fragment), then
+ * follow the foreign keys pointing at them through the whole relation graph:
+ * `'cascade'` children are soft-deleted too, live `'restrict'` children throw
+ * `ForeignKeyError` and roll everything back. `'set null'` children are left
+ * alone — the parent row still exists. Returns the number of rows deleted
+ * from `entityName`.
+ */
+export function softDelete(ctx: DatabaseContext, entityName: string, clause: string, values: any[]): number {
+    const now = new Date().toISOString();
+    return withSqliteErrors(entityName, () => ctx.db.transaction(() => softDeleteRows(ctx, entityName, clause, values, now))());
+}
+
+function softDeleteRows(ctx: DatabaseContext, table: string, clause: string, values: any[], now: string): number {
+    const live = `${clause ? `${clause} AND` : 'WHERE'} "deletedAt" IS NULL`;
+    const children = ctx.relationships.filter(r => r.type === 'belongs-to' && r.to === table);
+    const ids = children.length === 0 ? []
+        : (ctx._stmt(`SELECT "id" FROM "${table}" ${live}`).all(...values) as { id: number | string }[]).map(r => r.id);
+    const byId = (rel: Relationship) => `WHERE "${rel.foreignKey}" IN (${ids.map(() => '?').join(', ')})`;
+
+    if (ids.length > 0) {
+        for (const rel of children.filter(r => deleteAction(r, ctx.keys) === 'restrict')) {
+            const blocked = ctx._stmt(`SELECT 1 FROM "${rel.from}" ${byId(rel)} AND "deletedAt" IS NULL LIMIT 1`).get(...ids);
+            if (blocked) {
+                throw new ForeignKeyError(`Cannot delete from '${table}': '${rel.from}.${rel.foreignKey}' restricts it`, table, 'SQLITE_CONSTRAINT_FOREIGNKEY');
+            }
+        }
+    }
+    ctx._stmt(`UPDATE "${table}" SET "deletedAt" = ? ${live}`).run(now, ...values);
+    // changes() leaves out the change-tracking trigger's inserts, which run().changes counts
+    const { changes } = ctx._stmt('SELECT changes() AS changes').get() as { changes: number };
+    if (ids.length > 0) {
+        for (const rel of children.filter(r => deleteAction(r, ctx.keys) === 'cascade')) {
+            softDeleteRows(ctx, rel.from, byId(rel), ids, now);
+        }
+    }
+    return changes;
+}
+
 /** Create a fluent delete builder: db.table.delete().where({...}).exec() */
 export function createDeleteBuilder(ctx: DatabaseContext, entityName: string): DeleteBuilder<any> {
     let _conditions: Record<string, any> = {};
@@ -218,12 +299,10 @@ export function createDeleteBuilder(ctx: DatabaseContext, entityName: string): D
 /** Insert multiple rows in a single transaction for better performance. */
 export function insertMany<T extends Record<string, any>>(ctx: DatabaseContext, entityName: string, rows: Omit<T, 'id'>[]): AugmentedEntity<any>[] {
     if (rows.length === 0) return [];
-    const schema = ctx.schemas[entityName]!;
-    const zodSchema = asZodObject(schema).passthrough();
     const hooks = ctx.hooks[entityName];
 
     const txn = ctx.db.transaction(() => {
-        const ids: number[] = [];
+        const ids: EntityKey[] = [];
         for (let data of rows) {
             let inputData = { ...data } as Record<string, any>;
 
@@ -233,28 +312,20 @@ export function insertMany<T extends Record<string, any>>(ctx: DatabaseContext,
                 if (result) inputData = result;
             }
 
-            const validatedData = zodSchema.parse(inputData);
-            const transformed = transformForStorage(validatedData);
-
-            if (ctx.timestamps) {
-                const now = new Date().toISOString();
-                transformed.createdAt = now;
-                transformed.updatedAt = now;
-            }
-
+            const transformed = prepareInsert(ctx, entityName, inputData);
             const columns = Object.keys(transformed);
             const quotedCols = columns.map(c => `"${c}"`);
             const sql = columns.length === 0
                 ? `INSERT INTO "${entityName}" DEFAULT VALUES`
                 : `INSERT INTO "${entityName}" (${quotedCols.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`;
-            const result = ctx._stmt(sql).run(...Object.values(transformed));
-            ids.push(result.lastInsertRowid as number);
+            const result = withSqliteErrors(entityName, () => ctx._stmt(sql).run(...Object.values(transformed)));
+            ids.push(insertedKey(ctx, entityName, transformed, result.lastInsertRowid as number));
         }
         return ids;
     });
 
     const ids = txn();
-    const entities = ids.map((id: number) => getById(ctx, entityName, id)!).filter(Boolean);
+    const entities = ids.map(id => getById(ctx, entityName, id)!).filter(Boolean);
 
     // afterInsert hooks
     if (hooks?.afterInsert) {
@@ -278,3 +349,74 @@ export function upsertMany<T extends Record<string, any>>(ctx: DatabaseContext,
 
     return txn();
 }
+
+// ---------------------------------------------------------------------------
+// Many-to-many
+// ---------------------------------------------------------------------------
+
+function manyToMany(ctx: DatabaseContext, entityName: string, relation: string): Relationship {
+    const rel = ctx.relationships.find(
+        r => r.type === 'many-to-many' && r.from === entityName && r.relationshipField === relation
+    );
+    if (!rel) throw new Error(`'${entityName}' has no many-to-many relation '${relation}'`);
+    return rel;
+}
+
+/** Normalize `attach()`-style targets — ids, entities, or arrays of either — to ids. */
+function targetIds(targets: unknown): EntityKey[] {
+    const list = Array.isArray(targets) ? targets : [targets];
+    return list.map(t => t !== null && typeof t === 'object' ? (t as any).id : t);
+}
+
+/** Rows of `rel.to` linked to `id` through the junction table. */
+export function findRelated(ctx: DatabaseContext, rel: Relationship, id: EntityKey): AugmentedEntity<any>[] {
+    const { table, sourceKey, targetKey } = rel.through!;
+    const schema = ctx.schemas[rel.to]!;
+    const rows = ctx._stmt(
+        `SELECT t.* FROM "${rel.to}" t JOIN "${table}" j ON j."${targetKey}" = t.id WHERE j."${sourceKey}" = ? ORDER BY t.id`,
+        hasBigIntFields(schema)
+    ).all(id);
+    return rows.map((row: any) => ctx.attachMethods(rel.to, transformFromStorage(row, schema)));
+}
+
+/** Link `id` to `targets` through the junction table. Existing links are kept. Returns the number of new links. */
+export function attach(ctx: DatabaseContext, entityName: string, id: EntityKey, relation: string, targets: unknown, pivot: Record<string, any> = {}): number {
+    const { table, sourceKey, targetKey } = manyToMany(ctx, entityName, relation).through!;
+    const extra = transformForStorage(pivot);
+    const columns = [sourceKey, targetKey, ...Object.keys(extra)].map(c => `"${c}"`);
+    const sql = `INSERT OR IGNORE INTO "${table}" (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`;
+    return withSqliteErrors(table, () => ctx.db.transaction(() => {
+        let added = 0;
+        for (const targetId of targetIds(targets)) {
+            added += ctx._stmt(sql).run(id, targetId, ...Object.values(extra)).changes;
+        }
+        return added;
+    })());
+}
+
+/** Unlink `id` from `targets`, or from every linked row when `targets` is omitted. Returns the number removed. */
+export function detach(ctx: DatabaseContext, entityName: string, id: EntityKey, relation: string, targets?: unknown): number {
+    const { table, sourceKey, targetKey } = manyToMany(ctx, entityName, relation).through!;
+    if (targets === undefined) {
+        return withSqliteErrors(table, () => ctx._stmt(`DELETE FROM "${table}" WHERE "${sourceKey}" = ?`).run(id).changes);
+    }
+    const ids = targetIds(targets);
+    if (ids.length === 0) return 0;
+    return withSqliteErrors(table, () => ctx._stmt(
+        `DELETE FROM "${table}" WHERE "${sourceKey}" = ? AND "${targetKey}" IN (${ids.map(() => '?').join(', ')})`
+    ).run(id, ...ids).changes);
+}
+
+/** Make the rows linked to `id` exactly `targets`: attach the missing ones, detach the rest. */
+export function sync(ctx: DatabaseContext, entityName: string, id: EntityKey, relation: string, targets: unknown): { attached: EntityKey[]; detached: EntityKey[] } {
+    const { table, sourceKey, targetKey } = manyToMany(ctx, entityName, relation).through!;
+    const wanted = targetIds(targets);
+    return ctx.db.transaction(() => {
+        const current = (ctx._stmt(`SELECT "${targetKey}" AS id FROM "${table}" WHERE "${sourceKey}" = ?`).all(id) as any[]).map(r => r.id);
+        const detached = current.filter(t => !wanted.includes(t));
+        const attached = wanted.filter((t, i) => !current.includes(t) && wanted.indexOf(t) === i);
+        if (detached.length > 0) detach(ctx, entityName, id, relation, detached);
+        if (attached.length > 0) attach(ctx, entityName, id, relation, attached);
+        return { attached, detached };
+    })();
+}
@@ -6,33 +6,63 @@
  * focused modules.
  */
 import { Database as SqliteDatabase } from 'bun:sqlite';
+import { existsSync } from 'fs';
 import { createMeasure } from 'measure-fn';
 import { z } from 'zod';
 import { QueryBuilder, executeProxyQuery, createQueryBuilder, type ProxyQueryResult } from './query';
 import type {
     SchemaMap, DatabaseOptions, Relationship, RelationsConfig,
     EntityAccessor, TypedAccessors, TypedNavAccessors, AugmentedEntity, UpdateBuilder,
-    ProxyColumns, InferSchema, ChangeEvent,
+    ProxyColumns, InferSchema, ChangeEvent, Migration, MigrationStatus,
+    TableDiff, ApplyDiffOptions, PlanStatement, PrimaryKeyConfig,
 } from './types';
 import { asZodObject } from './types';
 import {
     parseRelationsConfig,
     getStorableFields,
-    zodTypeToSqlType,
+    sqlAffinity,
+    zodTypeToCheck,
+    buildTableDefinition,
+    createTableSql,
+    junctionTableSql,
+    columnSql,
+    safeColumnDefault,
+    parseColumnChecks,
+    deleteAction,
+    type TableDefinition,
 } from './schema';
 import { transformFromStorage } from './schema';
 import type { DatabaseContext } from './context';
 import { buildWhereClause } from './helpers';
 import { attachMethods } from './entity';
+import { withSqliteErrors } from './errors';
+import { normalizePrimaryKey, hasIdColumn, keyWhere, changeKeySql, parseChangeKey, type KeySpec } from './keys';
+import { searchTableName, searchDdl, validateSearchConfig } from './search';
+import { validateJsonIndexes, jsonIndexColumn } from './json';
 import {
-    insert, insertMany, update, upsert, upsertMany, findOrCreate, deleteEntity, createDeleteBuilder,
+    insert, insertMany, update, upsert, upsertMany, findOrCreate, deleteEntity, softDelete, createDeleteBuilder,
     getById, getOne, findMany, updateWhere, createUpdateBuilder,
 } from './crud';
+import {
+    validateMigrations, isFreshDatabase, baselineMigrations,
+    migrate, rollback, migrationStatus, rebuildTable, rebuildStatements, pendingMigrations,
+} from './migrations';
 
 // =============================================================================
 // Database Class
 // =============================================================================
 
+/** Heuristic for plan output: can this SQL drop, rewrite or delete existing data? */
+function isDestructiveSql(sql: string): boolean {
+    return /\b(DROP|DELETE|RENAME|REPLACE)\b/i.test(sql) || /\bUPDATE\b[\s\S]*\bSET\b/i.test(sql);
+}
+
+/** `ON DELETE CASCADE [ON UPDATE ...]` — foreign key actions as `diff()` reports them. */
+function foreignKeyActions(onDelete: string, onUpdate: string): string {
+    const update = onUpdate.toUpperCase();
+    return `ON DELETE ${onDelete.toUpperCase()}${update === 'NO ACTION' ? '' : ` ON UPDATE ${update}`}`;
+}
+
 type Listener = {
     table: string;
     event: ChangeEvent;
@@ -48,6 +78,17 @@ class _Database<Schemas extends SchemaMap> {
     private schemas: Schemas;
     private relationships: Relationship[];
     private options: DatabaseOptions;
+    private _migrations: Migration[];
+    private _dryRun: boolean;
+
+    /** Normalized primary key per table. */
+    private _keys: Record<string, KeySpec>;
+
+    /** Collected statements while planning; `null` means DDL executes for real. */
+    private _plan: PlanStatement[] | null = null;
+
+    /** Startup plan captured by a `dryRun` instance. */
+    private _dryRunPlan: PlanStatement[] = [];
 
     /** Shared context for extracted modules. */
     private _ctx: DatabaseContext;
@@ -70,13 +111,18 @@ class _Database<Schemas extends SchemaMap> {
     /** Prepared statement cache — avoids re-compiling identical SQL. */
     private _stmtCache = new Map<string, ReturnType<SqliteDatabase['query']>>();
 
-    /** Get or create a cached prepared statement. */
-    private _stmt(sql: string): ReturnType<SqliteDatabase['query']> {
+    /**
+     * Get or create a cached prepared statement. The safe-integer mode is reset
+     * on every call, since cached statements are shared between callers.
+     */
+    private _stmt(sql: string, safeIntegers: boolean = false): ReturnType<SqliteDatabase['query']> {
         let stmt = this._stmtCache.get(sql);
         if (!stmt) {
             stmt = this.db.query(sql);
             this._stmtCache.set(sql, stmt);
         }
+        // Statement#safeIntegers() exists at runtime but is missing from bun-types
+        (stmt as any).safeIntegers(safeIntegers);
         return stmt;
     }
 
@@ -93,8 +139,12 @@ class _Database<Schemas extends SchemaMap> {
         this._debug = options.debug === true;
         this._measure = createMeasure('satidb');
 
-        this.db = new SqliteDatabase(dbFile);
-        if (options.wal !== false) this.db.run('PRAGMA journal_mode = WAL');
+        this._dryRun = options.dryRun === true;
+        // A dry run never writes: an existing file opens read-only, a missing one is planned against an empty database
+        this.db = !this._dryRun || dbFile === ':memory:' ? new SqliteDatabase(dbFile)
+            : existsSync(dbFile) ? new SqliteDatabase(dbFile, { readonly: true })
+            : new SqliteDatabase(':memory:');
+        if (options.wal !== false && !this._dryRun) this.db.run('PRAGMA journal_mode = WAL');
         this.db.run('PRAGMA foreign_keys = ON');
         this.schemas = schemas;
         this.options = options;
@@ -103,6 +153,12 @@ class _Database<Schemas extends SchemaMap> {
         this._softDeletes = options.softDeletes === true;
         this._pollInterval = options.pollInterval ?? 100;
         this.relationships = options.relations ? parseRelationsConfig(options.relations, schemas) : [];
+        this._applyCascadeOption(options.cascade ?? {});
+        this._migrations = options.migrations ?? [];
+        validateMigrations(this._migrations);
+        this._keys = this._resolveKeys(options.primaryKey ?? {});
+        validateSearchConfig(options.search ?? {}, schemas);
+        validateJsonIndexes(options.jsonIndexes ?? {}, schemas);
 
         // Build the context that extracted modules use
         this._ctx = {
@@ -114,18 +170,22 @@ class _Database<Schemas extends SchemaMap> {
             debug: this._debug,
             timestamps: this._timestamps,
             softDeletes: this._softDeletes,
+            validate: options.validate ?? 'strict',
             hooks: options.hooks ?? {},
             computed: options.computed ?? {},
-            cascade: options.cascade ?? {},
+            keys: this._keys,
+            search: options.search ?? {},
+            jsonIndexes: options.jsonIndexes ?? {},
             _m: <T>(label: string, fn: () => T): T => this._m(label, fn),
-            _stmt: (sql: string) => this._stmt(sql),
+            _stmt: (sql: string, safeIntegers?: boolean) => this._stmt(sql, safeIntegers),
         };
 
-        this._m('Init tables', () => this.initializeTables());
-        if (this._reactive) this._m('Change tracking', () => this.initializeChangeTracking());
-        this._m('Run migrations', () => this.runMigrations());
-        if (options.indexes) this._m('Create indexes', () => this.createIndexes(options.indexes!));
-        if (options.unique) this._m('Unique constraints', () => this.createUniqueConstraints(options.unique!));
+        if (this._dryRun) {
+            this._dryRunPlan = this._capturePlan(() => this.initializeSchema());
+        } else {
+            this.initializeSchema();
+            this._syncForeignKeyFallbacks();
+        }
 
         // Create typed entity accessors (db.users, db.posts, etc.)
         for (const entityName of Object.keys(schemas)) {
@@ -133,16 +193,16 @@ class _Database<Schemas extends SchemaMap> {
             const accessor: EntityAccessor<Schemas[typeof key]> = {
                 insert: (data) => this._m(`${entityName}.insert`, () => insert(this._ctx, entityName, data)),
                 insertMany: (rows: any[]) => this._m(`${entityName}.insertMany(${rows.length})`, () => insertMany(this._ctx, entityName, rows)),
-                update: (idOrData: any, data?: any) => {
-                    if (typeof idOrData === 'number') return this._m(`${entityName}.update(${idOrData})`, () => update(this._ctx, entityName, idOrData, data));
-                    return createUpdateBuilder(this._ctx, entityName, idOrData);
+                update: (keyOrData: any, data?: any) => {
+                    if (data !== undefined) return this._m(`${entityName}.update(${JSON.stringify(keyOrData)})`, () => update(this._ctx, entityName, keyOrData, data));
+                    return createUpdateBuilder(this._ctx, entityName, keyOrData);
                 },
                 upsert: (conditions, data) => this._m(`${entityName}.upsert`, () => upsert(this._ctx, entityName, data, conditions)),
                 upsertMany: (rows: any[], conditions?: any) => this._m(`${entityName}.upsertMany(${rows.length})`, () => upsertMany(this._ctx, entityName, rows, conditions)),
                 findOrCreate: (conditions: any, defaults?: any) => this._m(`${entityName}.findOrCreate`, () => findOrCreate(this._ctx, entityName, conditions, defaults)),
                 delete: ((id?: any) => {
-                    if (typeof id === 'number') {
-                        return this._m(`${entityName}.delete(${id})`, () => {
+                    if (id !== undefined) {
+                        return this._m(`${entityName}.delete(${JSON.stringify(id)})`, () => withSqliteErrors(entityName, () => {
                             // beforeDelete hook — return false to cancel
                             const hooks = this._ctx.hooks[entityName];
                             if (hooks?.beforeDelete) {
@@ -150,42 +210,26 @@ class _Database<Schemas extends SchemaMap> {
                                 if (result === false) return;
                             }
 
-                            // Cascade delete children first
-                            const cascadeTargets = this._ctx.cascade[entityName];
-                            if (cascadeTargets) {
-                                for (const childTable of cascadeTargets) {
-                                    const rel = this._ctx.relationships.find(
-                                        r => r.type === 'belongs-to' && r.from === childTable && r.to === entityName
-                                    );
-                                    if (rel) {
-                                        if (this._softDeletes) {
-                                            const now = new Date().toISOString();
-                                            this._stmt(`UPDATE "${childTable}" SET "deletedAt" = ? WHERE "${rel.foreignKey}" = ?`).run(now, id);
-                                        } else {
-                                            this._stmt(`DELETE FROM "${childTable}" WHERE "${rel.foreignKey}" = ?`).run(id);
-                                        }
-                                    }
-                                }
-                            }
-
+                            // Hard deletes cascade through the FOREIGN KEY clauses; soft deletes in JS
                             if (this._softDeletes) {
-                                const now = new Date().toISOString();
-                                this._stmt(`UPDATE "${entityName}" SET "deletedAt" = ? WHERE id = ?`).run(now, id);
+                                const { clause, values } = keyWhere(this._ctx, entityName, id);
+                                softDelete(this._ctx, entityName, clause, values);
                                 if (hooks?.afterDelete) hooks.afterDelete(id);
                                 return;
                             }
                             return deleteEntity(this._ctx, entityName, id);
-                        });
+                        }));
                     }
                     return createDeleteBuilder(this._ctx, entityName);
                 }) as any,
-                restore: ((id: number) => {
+                restore: ((id: any) => {
                     if (!this._softDeletes) throw new Error('restore() requires softDeletes: true');
-                    this._m(`${entityName}.restore(${id})`, () => {
-                        this._stmt(`UPDATE "${entityName}" SET "deletedAt" = NULL WHERE id = ?`).run(id);
+                    this._m(`${entityName}.restore(${JSON.stringify(id)})`, () => {
+                        const { clause, values } = keyWhere(this._ctx, entityName, id);
+                        withSqliteErrors(entityName, () => this._stmt(`UPDATE "${entityName}" SET "deletedAt" = NULL ${clause}`).run(...values));
                     });
                 }) as any,
-                select: (...cols: string[]) => createQueryBuilder(this._ctx, entityName, cols),
+                select: ((...cols: string[]) => createQueryBuilder(this._ctx, entityName, cols)) as any,
                 count: () => this._m(`${entityName}.count`, () => {
                     const row = this._stmt(`SELECT COUNT(*) as count FROM "${entityName}"${this._softDeletes ? ' WHERE "deletedAt" IS NULL' : ''}`).get() as any;
                     return row?.count ?? 0;
@@ -203,33 +247,120 @@ class _Database<Schemas extends SchemaMap> {
     // Table Initialization & Migrations
     // =========================================================================
 
+    /** Run every startup DDL step, in order. */
+    private initializeSchema(): void {
+        const fresh = this._migrations.length > 0 && isFreshDatabase(this._ctx);
+        this._m('Init tables', () => this.initializeTables());
+        if (this._migrations.length > 0) this._m('Versioned migrations', () => this.runVersionedMigrations(fresh));
+        if (this._reactive) this._m('Change tracking', () => this.initializeChangeTracking());
+        this._m('Run migrations', () => this.runMigrations());
+        if (Object.keys(this._ctx.search).length > 0) this._m('Search indexes', () => this.initializeSearch());
+        const indexes = this._indexes();
+        if (Object.keys(indexes).length > 0) this._m('Create indexes', () => this.createIndexes(indexes));
+        const unique = this._uniqueConstraints();
+        if (Object.keys(unique).length > 0) this._m('Unique constraints', () => this.createUniqueConstraints(unique));
+    }
+
+    /**
+     * Execute a DDL statement — or, while planning, record it instead.
+     * When `object` is given, planning skips it if that object already exists.
+     */
+    private _ddl(step: PlanStatement['step'], sql: string, object?: { type: 'table' | 'index' | 'trigger'; name: string }): void {
+        if (!this._plan) {
+            this.db.run(sql);
+            return;
+        }
+        if (object && this.db.query('SELECT 1 FROM sqlite_master WHERE type = ? AND name = ?').get(object.type, object.name)) return;
+        this._plan.push({ step, sql: sql.replace(/\s+/g, ' ').trim(), destructive: false });
+    }
+
+    /** Run `fn` with DDL redirected into a plan, and return the plan. */
+    private _capturePlan(fn: () => void): PlanStatement[] {
+        this._plan = [];
+        try {
+            fn();
+            return this._plan;
+        } finally {
+            this._plan = null;
+        }
+    }
+
     private initializeTables(): void {
-        for (const [entityName, schema] of Object.entries(this.schemas)) {
-            const storableFields = getStorableFields(schema);
-            const columnDefs = storableFields.map(f => `"${f.name}" ${zodTypeToSqlType(f.type)}`);
+        for (const entityName of Object.keys(this.schemas)) {
+            this._ddl('tables', createTableSql(entityName, this._tableDefinition(entityName)), { type: 'table', name: entityName });
+        }
+        // Junction tables of many-to-many relations, unless declared as schemas
+        const junctions = new Set<string>();
+        for (const rel of this.relationships) {
+            if (rel.type !== 'many-to-many' || this.schemas[rel.through!.table] || junctions.has(rel.through!.table)) continue;
+            junctions.add(rel.through!.table);
+            this._ddl('tables', junctionTableSql(rel, this._keys), { type: 'table', name: rel.through!.table });
+        }
+    }
 
-            // Add timestamp columns
-            if (this._timestamps) {
-                columnDefs.push('"createdAt" TEXT');
-                columnDefs.push('"updatedAt" TEXT');
-            }
-            // Add soft delete column
-            if (this._softDeletes) {
-                columnDefs.push('"deletedAt" TEXT');
-            }
+    private runVersionedMigrations(fresh: boolean): void {
+        if (!this._plan) {
+            if (fresh) baselineMigrations(this._ctx, this._migrations);
+            else migrate(this._ctx, this._migrations);
+            return;
+        }
+        // A fresh file would only record the steps as applied
+        if (fresh) return;
+        for (const m of pendingMigrations(this._ctx, this._migrations)) {
+            this._plan.push(typeof m.up === 'string'
+                ? { step: 'migration', migration: m.name, sql: m.up.replace(/\s+/g, ' ').trim(), destructive: isDestructiveSql(m.up) }
+                // Function steps can't be inspected — assume the worst
+                : { step: 'migration', migration: m.name, sql: `-- ${m.name}: up() function`, destructive: true });
+        }
+    }
 
-            const constraints: string[] = [];
+    /** Column + constraint definition for a table, derived from its Zod schema. */
+    private _tableDefinition(entityName: string): TableDefinition {
+        return buildTableDefinition(entityName, this.schemas[entityName]!, this.relationships, {
+            timestamps: this._timestamps,
+            softDeletes: this._softDeletes,
+            keys: this._keys,
+            jsonIndexes: this.options.jsonIndexes?.[entityName],
+        });
+    }
 
-            const belongsToRels = this.relationships.filter(
-                rel => rel.type === 'belongs-to' && rel.from === entityName
-            );
-            for (const rel of belongsToRels) {
-                constraints.push(`FOREIGN KEY ("${rel.foreignKey}") REFERENCES "${rel.to}"(id) ON DELETE SET NULL`);
+    /** Normalize `options.primaryKey` for every table and check it against schemas and relations. */
+    private _resolveKeys(config: PrimaryKeyConfig): Record<string, KeySpec> {
+        for (const tableName of Object.keys(config)) {
+            if (!this.schemas[tableName]) throw new Error(`primaryKey: unknown table '${tableName}'`);
+        }
+        const keys: Record<string, KeySpec> = {};
+        for (const [tableName, schema] of Object.entries(this.schemas)) {
+            const spec = normalizePrimaryKey(tableName, config[tableName]);
+            if (!hasIdColumn(spec)) {
+                const fields = new Set(getStorableFields(schema).map(f => f.name));
+                const missing = spec.columns.find(c => !fields.has(c));
+                if (missing) throw new Error(`primaryKey: '${tableName}' has no column '${missing}'`);
+            }
+            keys[tableName] = spec;
+        }
+        for (const rel of this.relationships) {
+            if (rel.type === 'belongs-to' && !hasIdColumn(keys[rel.to]!)) {
+                throw new Error(`relations: ${rel.from}.${rel.foreignKey} can't reference '${rel.to}', which has a composite primary key`);
             }
+            if (rel.type === 'many-to-many' && (!hasIdColumn(keys[rel.from]!) || !hasIdColumn(keys[rel.to]!))) {
+                throw new Error(`relations: ${rel.from}.${rel.relationshipField} can't join tables with composite primary keys`);
+            }
+            if (rel.type === 'morph-many' && !hasIdColumn(keys[rel.from]!)) {
+                throw new Error(`relations: ${rel.to}.${rel.foreignKey} can't reference '${rel.from}', which has a composite primary key`);
+            }
+        }
+        return keys;
+    }
 
-            const allCols = columnDefs.join(', ');
-            const allConstraints = constraints.length > 0 ? ', ' + constraints.join(', ') : '';
-            this.db.run(`CREATE TABLE IF NOT EXISTS "${entityName}" (id INTEGER PRIMARY KEY AUTOINCREMENT, ${allCols}${allConstraints})`);
+    /** `cascade: { authors: ['books'] }` → `onDelete: 'cascade'` on books' foreign keys to authors, unless declared. */
+    private _applyCascadeOption(cascade: Record<string, string[]>): void {
+        for (const [parent, children] of Object.entries(cascade)) {
+            for (const child of children) {
+                const fks = this.relationships.filter(r => r.type === 'belongs-to' && r.from === child && r.to === parent);
+                if (fks.length === 0) throw new Error(`cascade: '${child}' has no foreign key to '${parent}'`);
+                for (const rel of fks) rel.onDelete ??= 'cascade';
+            }
         }
     }
 
@@ -241,51 +372,82 @@ class _Database<Schemas extends SchemaMap> {
      * row-level change detection for the `on()` API.
      */
     private initializeChangeTracking(): void {
-        this.db.run(`CREATE TABLE IF NOT EXISTS "_changes" (
+        // row_id is untyped: it holds integer ids, text ids, or a JSON object for composite keys
+        this._ddl('changeTracking', `CREATE TABLE IF NOT EXISTS "_changes" (
             id INTEGER PRIMARY KEY AUTOINCREMENT,
             tbl TEXT NOT NULL,
             op TEXT NOT NULL,
-            row_id INTEGER NOT NULL
-        )`);
+            row_id NOT NULL
+        )`, { type: 'table', name: '_changes' });
 
         for (const entityName of Object.keys(this.schemas)) {
+            const spec = this._keys[entityName]!;
+
             // INSERT trigger — logs NEW.id
-            this.db.run(`CREATE TRIGGER IF NOT EXISTS "_trg_${entityName}_insert"
+            this._ddl('changeTracking', `CREATE TRIGGER IF NOT EXISTS "_trg_${entityName}_insert"
                 AFTER INSERT ON "${entityName}"
                 BEGIN
-                    INSERT INTO "_changes" (tbl, op, row_id) VALUES ('${entityName}', 'insert', NEW.id);
-                END`);
+                    INSERT INTO "_changes" (tbl, op, row_id) VALUES ('${entityName}', 'insert', ${changeKeySql(spec, 'NEW')});
+                END`, { type: 'trigger', name: `_trg_${entityName}_insert` });
 
             // UPDATE trigger — logs NEW.id (post-update row)
-            this.db.run(`CREATE TRIGGER IF NOT EXISTS "_trg_${entityName}_update"
+            this._ddl('changeTracking', `CREATE TRIGGER IF NOT EXISTS "_trg_${entityName}_update"
                 AFTER UPDATE ON "${entityName}"
                 BEGIN
-                    INSERT INTO "_changes" (tbl, op, row_id) VALUES ('${entityName}', 'update', NEW.id);
-                END`);
+                    INSERT INTO "_changes" (tbl, op, row_id) VALUES ('${entityName}', 'update', ${changeKeySql(spec, 'NEW')});
+                END`, { type: 'trigger', name: `_trg_${entityName}_update` });
 
             // DELETE trigger — logs OLD.id (row that was deleted)
-            this.db.run(`CREATE TRIGGER IF NOT EXISTS "_trg_${entityName}_delete"
+            this._ddl('changeTracking', `CREATE TRIGGER IF NOT EXISTS "_trg_${entityName}_delete"
                 AFTER DELETE ON "${entityName}"
                 BEGIN
-                    INSERT INTO "_changes" (tbl, op, row_id) VALUES ('${entityName}', 'delete', OLD.id);
-                END`);
+                    INSERT INTO "_changes" (tbl, op, row_id) VALUES ('${entityName}', 'delete', ${changeKeySql(spec, 'OLD')});
+                END`, { type: 'trigger', name: `_trg_${entityName}_delete` });
         }
 
+        if (this._plan) return;
+
         // Initialize watermark to current max (skip replaying historical changes)
         const row = this.db.query('SELECT MAX(id) as maxId FROM "_changes"').get() as any;
         this._changeWatermark = row?.maxId ?? 0;
     }
 
+    /**
+     * Create each FTS5 index and its sync triggers. A new index — or one whose
+     * column list changed, which is dropped first — is filled from existing rows.
+     */
+    private initializeSearch(): void {
+        for (const [table, columns] of Object.entries(this._ctx.search)) {
+            const fts = searchTableName(table);
+            const existing = (this.db.query(`PRAGMA table_info("${fts}")`).all() as { name: string }[]).map(c => c.name);
+            const changed = existing.length > 0 && existing.join(',') !== columns.join(',');
+            if (changed) {
+                this._ddl('search', `DROP TABLE "${fts}"`);
+                for (const op of ['insert', 'delete', 'update']) this._ddl('search', `DROP TRIGGER IF EXISTS "${fts}_${op}"`);
+            }
+            for (const { sql, object } of searchDdl(table, columns)) this._ddl('search', sql, changed ? undefined : object);
+            if (existing.length === 0 || changed) this._ddl('search', `INSERT INTO "${fts}"("${fts}") VALUES ('rebuild')`);
+        }
+    }
+
     private runMigrations(): void {
         for (const [entityName, schema] of Object.entries(this.schemas)) {
-            const existingColumns = this.db.query(`PRAGMA table_info("${entityName}")`).all() as any[];
+            // table_xinfo also lists generated columns
+            const existingColumns = this.db.query(`PRAGMA table_xinfo("${entityName}")`).all() as any[];
+            // Table doesn't exist yet (only while planning) — it will be created from the schema
+            if (existingColumns.length === 0) continue;
             const existingNames = new Set(existingColumns.map(c => c.name));
 
-            const storableFields = getStorableFields(schema);
-            for (const field of storableFields) {
-                if (!existingNames.has(field.name)) {
-                    const sqlType = zodTypeToSqlType(field.type);
-                    this.db.run(`ALTER TABLE "${entityName}" ADD COLUMN "${field.name}" ${sqlType}`);
+            const storable = new Map(getStorableFields(schema).map(f => [f.name, f.type]));
+            for (let column of this._tableDefinition(entityName).columns) {
+                if ((storable.has(column.name) || column.generated) && !existingNames.has(column.name)) {
+                    // SQLite can't add a NOT NULL column without a default: fill existing
+                    // rows with a value the schema accepts, or leave the column nullable
+                    if (column.notNull && column.default == null) {
+                        const fallback = safeColumnDefault(storable.get(column.name)!);
+                        column = fallback !== null ? { ...column, default: fallback } : { ...column, notNull: false };
+                    }
+                    this._ddl('columns', `ALTER TABLE "${entityName}" ADD COLUMN ${columnSql(column)}`);
                 }
             }
         }
@@ -296,20 +458,65 @@ class _Database<Schemas extends SchemaMap> {
             for (const def of indexDefs) {
                 const cols = Array.isArray(def) ? def : [def];
                 const idxName = `idx_${tableName}_${cols.join('_')}`;
-                this.db.run(`CREATE INDEX IF NOT EXISTS "${idxName}" ON "${tableName}" (${cols.map(c => `"${c}"`).join(', ')})`);
+                this._ddl('indexes', `CREATE INDEX IF NOT EXISTS "${idxName}" ON "${tableName}" (${cols.map(c => `"${c}"`).join(', ')})`, { type: 'index', name: idxName });
             }
         }
     }
 
+    /** `options.indexes`, plus the type/id pair of every polymorphic relation. */
+    private _indexes(): Record<string, (string | string[])[]> {
+        const indexes: Record<string, (string | string[])[]> = {};
+        for (const [tableName, defs] of Object.entries(this.options.indexes ?? {})) indexes[tableName] = [...defs];
+        for (const [tableName, paths] of Object.entries(this.options.jsonIndexes ?? {})) {
+            (indexes[tableName] ??= []).push(...paths.map(jsonIndexColumn));
+        }
+        for (const rel of this.relationships) {
+            if (rel.type !== 'morph-to') continue;
+            (indexes[rel.from] ??= []).push([rel.morph!.typeColumn, rel.foreignKey]);
+        }
+        return indexes;
+    }
+
+    /** `options.unique`, plus the foreign key of every one-to-one relation. */
+    private _uniqueConstraints(): Record<string, string[][]> {
+        const unique: Record<string, string[][]> = {};
+        for (const [tableName, groups] of Object.entries(this.options.unique ?? {})) unique[tableName] = [...groups];
+        for (const rel of this.relationships) {
+            if (rel.type !== 'one-to-one') continue;
+            const groups = unique[rel.to] ??= [];
+            if (!groups.some(cols => cols.length === 1 && cols[0] === rel.foreignKey)) groups.push([rel.foreignKey]);
+        }
+        return unique;
+    }
+
     private createUniqueConstraints(unique: Record<string, string[][]>): void {
         for (const [tableName, groups] of Object.entries(unique)) {
             for (const cols of groups) {
                 const idxName = `uq_${tableName}_${cols.join('_')}`;
-                this.db.run(`CREATE UNIQUE INDEX IF NOT EXISTS "${idxName}" ON "${tableName}" (${cols.map(c => `"${c}"`).join(', ')})`);
+                this._ddl('unique', `CREATE UNIQUE INDEX IF NOT EXISTS "${idxName}" ON "${tableName}" (${cols.map(c => `"${c}"`).join(', ')})`, { type: 'index', name: idxName });
             }
         }
     }
 
+    // =========================================================================
+    // Versioned Migrations — db.migrate() / db.rollback(n) / db.migrationStatus()
+    // =========================================================================
+
+    /** Run pending versioned migrations. Returns the names that ran. */
+    public migrate(): string[] {
+        return this._m('migrate', () => this._withoutForeignKeyFallbacks(() => migrate(this._ctx, this._migrations)));
+    }
+
+    /** Undo the last `steps` applied migrations (default 1). Returns the names rolled back. */
+    public rollback(steps: number = 1): string[] {
+        return this._m(`rollback(${steps})`, () => this._withoutForeignKeyFallbacks(() => rollback(this._ctx, this._migrations, steps)));
+    }
+
+    /** Applied/pending state of each declared migration, in declaration order. */
+    public migrationStatus(): MigrationStatus[] {
+        return migrationStatus(this._ctx, this._migrations);
+    }
+
     // =========================================================================
     // Change Listeners — db.table.on('insert' | 'update' | 'delete', cb)
     // =========================================================================
@@ -359,7 +566,7 @@ class _Database<Schemas extends SchemaMap> {
 
         const changes = this._stmt(
             'SELECT id, tbl, op, row_id FROM "_changes" WHERE id > ? ORDER BY id'
-        ).all(this._changeWatermark) as { id: number; tbl: string; op: string; row_id: number }[];
+        ).all(this._changeWatermark) as { id: number; tbl: string; op: string; row_id: any }[];
 
         for (const change of changes) {
             const listeners = this._listeners.filter(
@@ -367,15 +574,17 @@ class _Database<Schemas extends SchemaMap> {
             );
 
             if (listeners.length > 0) {
+                const spec = this._keys[change.tbl]!;
+                const key = parseChangeKey(spec, change.row_id);
                 if (change.op === 'delete') {
-                    // Row is gone — pass just the id
-                    const payload = { id: change.row_id };
+                    // Row is gone — pass just the key: { id } or the composite key columns
+                    const payload = hasIdColumn(spec) ? { id: key } : key;
                     for (const l of listeners) {
                         try { l.callback(payload); } catch { /* listener error */ }
                     }
                 } else {
                     // insert or update — re-fetch the current row
-                    const row = getById(this._ctx, change.tbl, change.row_id);
+                    const row = getById(this._ctx, change.tbl, key);
                     if (row) {
                         for (const l of listeners) {
                             try { l.callback(row); } catch { /* listener error */ }
@@ -429,12 +638,12 @@ class _Database<Schemas extends SchemaMap> {
 
     /** Execute a raw SQL query and return results. */
     public raw<T = any>(sql: string, ...params: any[]): T[] {
-        return this._m(`raw: ${sql.slice(0, 60)}`, () => this._stmt(sql).all(...params) as T[]);
+        return this._m(`raw: ${sql.slice(0, 60)}`, () => withSqliteErrors(null, () => this._stmt(sql).all(...params) as T[]));
     }
 
     /** Execute a raw SQL statement (INSERT/UPDATE/DELETE) without returning rows. */
     public exec(sql: string, ...params: any[]): void {
-        this._m(`exec: ${sql.slice(0, 60)}`, () => this.db.run(sql, ...params));
+        this._m(`exec: ${sql.slice(0, 60)}`, () => withSqliteErrors(null, () => this.db.run(sql, ...params)));
     }
 
     // =========================================================================
@@ -447,7 +656,7 @@ class _Database<Schemas extends SchemaMap> {
     }
 
     /** Return column info for a table via PRAGMA table_info. */
-    public columns(tableName: string): { name: string; type: string; notnull: number; pk: number }[] {
+    public columns(tableName: string): { name: string; type: string; notnull: number; dflt_value: string | null; pk: number }[] {
         return this.db.query(`PRAGMA table_info("${tableName}")`).all() as any[];
     }
 
@@ -481,8 +690,11 @@ class _Database<Schemas extends SchemaMap> {
                     if (!options?.append) {
                         this.db.run(`DELETE FROM "${tableName}"`);
                     }
+                    // Generated JSON index columns come back in dumps but can't be written
+                    const generated = new Set((this.options.jsonIndexes?.[tableName] ?? []).map(jsonIndexColumn));
                     for (const row of rows) {
-                        const cols = Object.keys(row).filter(k => k !== 'id');
+                        // Autoincrement ids are reassigned; other keys are data
+                        const cols = Object.keys(row).filter(k => (k !== 'id' || !this._keys[tableName]!.autoincrement) && !generated.has(k));
                         const placeholders = cols.map(() => '?').join(', ');
                         const values = cols.map(c => {
                             const v = row[c];
@@ -513,32 +725,44 @@ class _Database<Schemas extends SchemaMap> {
 
     /**
      * Compare Zod schemas against the live SQLite table structure.
-     * Returns a diff object per table: { added, removed, typeChanged }.
+     * Returns a diff object per table: { added, removed, typeChanged, checkChanged, foreignKeyChanged }.
+     * Column types are compared by affinity, so `INT` matches `INTEGER` but not `REAL`.
      */
-    public diff(): Record<string, { added: string[]; removed: string[]; typeChanged: { column: string; expected: string; actual: string }[] }> {
+    public diff(): Record<string, TableDiff> {
         return this._m('diff', () => {
-            const result: Record<string, { added: string[]; removed: string[]; typeChanged: { column: string; expected: string; actual: string }[] }> = {};
+            const result: Record<string, TableDiff> = {};
             const systemCols = new Set(['id', 'createdAt', 'updatedAt', 'deletedAt']);
 
             for (const [tableName, schema] of Object.entries(this.schemas)) {
                 const schemaFields = getStorableFields(schema);
-                const schemaColMap = new Map(schemaFields.map(f => [f.name, zodTypeToSqlType(f.type)]));
+                const storable = new Set(schemaFields.map(f => f.name));
+                const schemaColMap = new Map(this._tableDefinition(tableName).columns
+                    .filter(c => storable.has(c.name))
+                    .map(c => [c.name, c.type]));
+                const schemaChecks = new Map(schemaFields.map(f => [f.name, zodTypeToCheck(f.name, f.type)]));
 
                 const liveColumns = this.columns(tableName);
                 const liveColMap = new Map(liveColumns.map(c => [c.name, c.type]));
+                const liveChecks = this._liveChecks(tableName);
 
                 const added: string[] = [];
                 const removed: string[] = [];
                 const typeChanged: { column: string; expected: string; actual: string }[] = [];
+                const checkChanged: { column: string; expected: string | null; actual: string | null }[] = [];
 
                 for (const [col, expectedType] of schemaColMap) {
                     if (!liveColMap.has(col)) {
                         added.push(col);
                     } else {
                         const actualType = liveColMap.get(col)!;
-                        if (actualType !== expectedType) {
+                        if (sqlAffinity(actualType) !== sqlAffinity(expectedType)) {
                             typeChanged.push({ column: col, expected: expectedType, actual: actualType });
                         }
+                        const expectedCheck = schemaChecks.get(col) ?? null;
+                        const actualCheck = liveChecks.get(col) ?? null;
+                        if (expectedCheck !== actualCheck) {
+                            checkChanged.push({ column: col, expected: expectedCheck, actual: actualCheck });
+                        }
                     }
                 }
 
@@ -548,25 +772,180 @@ class _Database<Schemas extends SchemaMap> {
                     }
                 }
 
-                if (added.length > 0 || removed.length > 0 || typeChanged.length > 0) {
-                    result[tableName] = { added, removed, typeChanged };
+                const foreignKeyChanged = this._foreignKeyDrift(tableName)
+                    .map(({ rel, expected, actual }) => ({ column: rel.foreignKey, expected, actual }));
+
+                if (added.length > 0 || removed.length > 0 || typeChanged.length > 0 || checkChanged.length > 0 || foreignKeyChanged.length > 0) {
+                    result[tableName] = { added, removed, typeChanged, checkChanged, foreignKeyChanged };
                 }
             }
 
             return result;
         });
     }
+
+    /**
+     * Foreign keys of a table whose live actions (`PRAGMA foreign_key_list`)
+     * differ from the relation config — tables created before an `onDelete`,
+     * `onUpdate` or `cascade` option was declared keep their old clauses.
+     */
+    private _foreignKeyDrift(tableName: string): { rel: Relationship; expected: string; actual: string | null }[] {
+        const live = new Map((this.db.query(`PRAGMA foreign_key_list("${tableName}")`).all() as any[]).map(fk => [fk.from as string, fk]));
+        const drift: { rel: Relationship; expected: string; actual: string | null }[] = [];
+        for (const rel of this.relationships) {
+            if (rel.type !== 'belongs-to' || rel.from !== tableName) continue;
+            const expected = foreignKeyActions(deleteAction(rel, this._keys), rel.onUpdate ?? 'no action');
+            const fk = live.get(rel.foreignKey);
+            const actual = fk?.table === rel.to ? foreignKeyActions(fk.on_delete, fk.on_update) : null;
+            if (actual !== expected) drift.push({ rel, expected, actual });
+        }
+        return drift;
+    }
+
+    /**
+     * Until a drifted foreign key is rebuilt (`applyDiff({ foreignKeys: true })`),
+     * a TEMP trigger on the parent carries out its declared `onDelete`, so
+     * deletes from an older file cascade, restrict or set null as configured.
+     * TEMP triggers live on this connection only and never touch the file.
+     */
+    private _syncForeignKeyFallbacks(): void {
+        this._dropForeignKeyFallbacks();
+        if (this._dryRun) return;
+        for (const tableName of Object.keys(this.schemas)) {
+            for (const { rel, actual } of this._foreignKeyDrift(tableName)) {
+                const action = deleteAction(rel, this._keys);
+                if (actual?.startsWith(`ON DELETE ${action.toUpperCase()}`)) continue; // only ON UPDATE drifted
+                const children = `"${rel.from}" WHERE "${rel.foreignKey}" = OLD."id"`;
+                const body = action === 'cascade' ? `DELETE FROM ${children}`
+                    : action === 'set null' ? `UPDATE "${rel.from}" SET "${rel.foreignKey}" = NULL WHERE "${rel.foreignKey}" = OLD."id"`
+                    : `SELECT RAISE(ABORT, 'FOREIGN KEY constraint failed') WHERE EXISTS (SELECT 1 FROM ${children})`;
+                this.db.run(`CREATE TEMP TRIGGER "_fk_${rel.from}_${rel.foreignKey}" BEFORE DELETE ON "${rel.to}" BEGIN ${body}; END`);
+            }
+        }
+    }
+
+    private _dropForeignKeyFallbacks(): void {
+        const triggers = this.db.query(`SELECT name FROM sqlite_temp_master WHERE type = 'trigger' AND name LIKE '\\_fk\\_%' ESCAPE '\\'`).all() as { name: string }[];
+        for (const { name } of triggers) this.db.run(`DROP TRIGGER temp."${name}"`);
+    }
+
+    /** Run schema changes with the fallback triggers out of the way — a table rebuild or rename breaks any trigger naming it. */
+    private _withoutForeignKeyFallbacks<T>(fn: () => T): T {
+        this._dropForeignKeyFallbacks();
+        try {
+            return fn();
+        } finally {
+            this._syncForeignKeyFallbacks();
+        }
+    }
+
+    /** Column CHECK expressions of a live table, parsed from sqlite_master. */
+    private _liveChecks(tableName: string): Map<string, string> {
+        const row = this.db.query(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?`).get(tableName) as any;
+        return row?.sql ? parseColumnChecks(row.sql) : new Map();
+    }
+
+    /**
+     * Act on `db.diff()`: rebuild tables so removed columns are dropped
+     * (`dropRemoved`), type-changed columns take the schema's type (`retype`)
+     * drifted CHECK constraints match the schema (`checks`) and foreign keys
+     * take the declared `onDelete`/`onUpdate` actions (`foreignKeys`). Indexes,
+     * unique indexes, foreign keys and change-tracking triggers are preserved.
+     * Returns what was done per rebuilt table.
+     */
+    public applyDiff(options: ApplyDiffOptions = {}): Record<string, { dropped: string[]; retyped: string[]; rechecked: string[]; relinked: string[] }> {
+        return this._m('applyDiff', () => {
+            const result: Record<string, { dropped: string[]; retyped: string[]; rechecked: string[]; relinked: string[] }> = {};
+
+            const rebuilds = this._pendingRebuilds(options);
+            if (rebuilds.length === 0) return result;
+
+            this._withoutForeignKeyFallbacks(() => {
+                for (const { tableName, def, ...changes } of rebuilds) {
+                    rebuildTable(this._ctx, tableName, def);
+                    result[tableName] = changes;
+                }
+            });
+            this._stmtCache.clear();
+            return result;
+        });
+    }
+
+    /** Tables `applyDiff(options)` would rebuild, with the definition each would be rebuilt to. */
+    private _pendingRebuilds(options: ApplyDiffOptions): { tableName: string; dropped: string[]; retyped: string[]; rechecked: string[]; relinked: string[]; def: TableDefinition }[] {
+        const rebuilds = [];
+        for (const [tableName, d] of Object.entries(this.diff())) {
+            const dropped = options.dropRemoved ? d.removed : [];
+            const retyped = options.retype ? d.typeChanged.map(t => t.column) : [];
+            const rechecked = options.checks ? d.checkChanged.map(c => c.column) : [];
+            const relinked = options.foreignKeys ? d.foreignKeyChanged.map(f => f.column) : [];
+            if (dropped.length === 0 && retyped.length === 0 && rechecked.length === 0 && relinked.length === 0) continue;
+
+            // Start from the schema definition (foreign key clauses included), then keep whatever the caller didn't opt into changing
+            const def = this._tableDefinition(tableName);
+            const live = new Map(this.columns(tableName).map(c => [c.name, c]));
+            const liveChecks = this._liveChecks(tableName);
+            def.columns = def.columns.map(c => {
+                const l = live.get(c.name);
+                return l ? {
+                    name: c.name,
+                    type: retyped.includes(c.name) ? c.type : l.type,
+                    notNull: l.notnull === 1,
+                    default: l.dflt_value,
+                    check: rechecked.includes(c.name) ? c.check : liveChecks.get(c.name) ?? null,
+                } : c;
+            });
+            const defined = new Set(def.columns.map(c => c.name));
+            for (const [col, l] of live) {
+                if (col !== 'id' && !defined.has(col) && !dropped.includes(col)) {
+                    def.columns.push({ name: col, type: l.type, notNull: l.notnull === 1, default: l.dflt_value, check: liveChecks.get(col) ?? null });
+                }
+            }
+
+            rebuilds.push({ tableName, dropped, retyped, rechecked, relinked, def });
+        }
+        return rebuilds;
+    }
+
+    // =========================================================================
+    // Schema Plan (dry run)
+    // =========================================================================
+
+    /**
+     * The DDL this database would run, without running it.
+     *
+     * On a `dryRun` instance this is everything startup would have executed
+     * (tables, pending versioned migrations, change tracking, added columns,
+     * indexes, unique constraints). On a normal instance startup already ran,
+     * so it is whatever is still missing. Pass `applyDiff` options to append
+     * the (destructive) rebuild statements `db.applyDiff()` would run.
+     */
+    public plan(options: ApplyDiffOptions = {}): PlanStatement[] {
+        return this._m('plan', () => {
+            const statements = this._dryRun
+                ? [...this._dryRunPlan]
+                : this._capturePlan(() => this.initializeSchema());
+
+            for (const { tableName, def } of this._pendingRebuilds(options)) {
+                for (const sql of rebuildStatements(this._ctx, tableName, def)) {
+                    statements.push({ step: 'rebuild', sql: sql.replace(/\s+/g, ' ').trim(), destructive: true });
+                }
+            }
+
+            return statements;
+        });
+    }
 }
 
 // =============================================================================
 // Public Export
 // =============================================================================
 
-const Database = _Database as unknown as new <S extends SchemaMap, const R extends RelationsConfig = {}>(
-    dbFile: string, schemas: S, options?: DatabaseOptions<R>
-) => _Database<S> & TypedNavAccessors<S, R>;
+const Database = _Database as unknown as new <S extends SchemaMap, const R extends RelationsConfig = {}, const P extends PrimaryKeyConfig = {}>(
+    dbFile: string, schemas: S, options?: DatabaseOptions<R, P>
+) => _Database<S> & TypedNavAccessors<S, R, P>;
 
-type Database<S extends SchemaMap, R extends RelationsConfig = {}> = _Database<S> & TypedNavAccessors<S, R>;
+type Database<S extends SchemaMap, R extends RelationsConfig = {}, P extends PrimaryKeyConfig = {}> = _Database<S> & TypedNavAccessors<S, R, P>;
 
 export { Database };
 export type { Database as DatabaseType };
@@ -7,13 +7,16 @@
 import type { AugmentedEntity, Relationship } from './types';
 import { getStorableFields, transformForStorage } from './schema';
 import type { DatabaseContext } from './context';
-import { getById, findMany, update, deleteEntity } from './crud';
+import { getById, getOne, findMany, update, deleteEntity, findRelated, attach, detach, sync } from './crud';
+import { rowKey } from './keys';
+import { omitJsonIndexColumns } from './json';
 
 /**
  * Augment a raw entity with:
  * - .update(data) → persist partial update
  * - .delete() → delete from DB
- * - Lazy relationship accessors (author(), books(), etc.)
+ * - Lazy relationship accessors (author(), books(), tags(), etc.)
+ * - .attach()/.detach()/.sync() for many-to-many relations
  * - Auto-persist proxy: `entity.name = 'New'` auto-updates DB
  */
 export function attachMethods<T extends Record<string, any>>(
@@ -21,9 +24,9 @@ export function attachMethods<T extends Record<string, any>>(
     entityName: string,
     entity: T,
 ): AugmentedEntity<any> {
-    const augmented = entity as any;
-    augmented.update = (data: any) => update(ctx, entityName, entity.id, data);
-    augmented.delete = () => deleteEntity(ctx, entityName, entity.id);
+    const augmented = omitJsonIndexColumns(entity as any, ctx.jsonIndexes[entityName]);
+    augmented.update = (data: any) => update(ctx, entityName, rowKey(ctx, entityName, entity), data);
+    augmented.delete = () => deleteEntity(ctx, entityName, rowKey(ctx, entityName, entity));
 
     // Attach lazy relationship navigation
     for (const rel of ctx.relationships) {
@@ -31,21 +34,38 @@ export function attachMethods<T extends Record<string, any>>(
             // book.author() → lazy load parent via author_id FK
             augmented[rel.relationshipField] = () => {
                 const fkValue = entity[rel.foreignKey];
-                return fkValue ? getById(ctx, rel.to, fkValue) : null;
+                return fkValue !== null && fkValue !== undefined ? getById(ctx, rel.to, fkValue) : null;
             };
         } else if (rel.from === entityName && rel.type === 'one-to-many') {
             // author.books() → lazy load children
-            const belongsToRel = ctx.relationships.find(
-                r => r.type === 'belongs-to' && r.from === rel.to && r.to === rel.from
-            );
-            if (belongsToRel) {
-                const fk = belongsToRel.foreignKey;
-                augmented[rel.relationshipField] = () => {
-                    return findMany(ctx, rel.to, { [fk]: entity.id });
-                };
-            }
+            augmented[rel.relationshipField] = () => {
+                return findMany(ctx, rel.to, { [rel.foreignKey]: entity.id });
+            };
+        } else if (rel.from === entityName && rel.type === 'one-to-one') {
+            // user.profile() → the single child row, or null
+            augmented[rel.relationshipField] = () => getOne(ctx, rel.to, { [rel.foreignKey]: entity.id });
+        } else if (rel.from === entityName && rel.type === 'morph-to') {
+            // comment.commentable() → the row of whichever table commentable_type names
+            augmented[rel.relationshipField] = () => {
+                const type = entity[rel.morph!.typeColumn];
+                const id = entity[rel.foreignKey];
+                return rel.morph!.types.includes(type) && id !== null && id !== undefined ? getById(ctx, type, id) : null;
+            };
+        } else if (rel.from === entityName && rel.type === 'morph-many') {
+            // post.comments() → children whose type column names this table
+            augmented[rel.relationshipField] = () => {
+                return findMany(ctx, rel.to, { [rel.morph!.typeColumn]: entityName, [rel.foreignKey]: entity.id });
+            };
+        } else if (rel.from === entityName && rel.type === 'many-to-many') {
+            // post.tags() → lazy load through the junction table
+            augmented[rel.relationshipField] = () => findRelated(ctx, rel, entity.id);
         }
     }
+    if (ctx.relationships.some(r => r.type === 'many-to-many' && r.from === entityName)) {
+        augmented.attach = (relation: string, targets: unknown, pivot?: Record<string, any>) => attach(ctx, entityName, entity.id, relation, targets, pivot);
+        augmented.detach = (relation: string, targets?: unknown) => detach(ctx, entityName, entity.id, relation, targets);
+        augmented.sync = (relation: string, targets: unknown) => sync(ctx, entityName, entity.id, relation, targets);
+    }
 
     // Attach computed/virtual getters from context
     const computedGetters = ctx.computed[entityName];
@@ -64,7 +84,7 @@ export function attachMethods<T extends Record<string, any>>(
     return new Proxy(augmented, {
         set: (target, prop: string, value) => {
             if (storableFieldNames.has(prop) && target[prop] !== value) {
-                update(ctx, entityName, target.id, { [prop]: value });
+                update(ctx, entityName, rowKey(ctx, entityName, target), { [prop]: value });
             }
             target[prop] = value;
             return true;
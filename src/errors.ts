@@ -0,0 +1,139 @@
+/**
+ * errors.ts — Typed errors thrown by sqlite-zod-orm.
+ *
+ * Every error extends `SatiDBError`, so HTTP layers can map them to status
+ * codes with `instanceof` instead of matching on message strings. SQLite
+ * constraint failures are translated by `translateSqliteError()`; the
+ * original bun:sqlite error is kept as `cause`.
+ */
+import type { z } from 'zod';
+
+/** Base class for all errors thrown by the ORM. */
+export class SatiDBError extends Error {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = new.target.name;
+    }
+}
+
+/** One failing field of a write, flattened from a ZodError issue. */
+export type ValidationIssue = {
+    /** Dotted field path, e.g. `'address.city'` or `'tags.0'`. */
+    path: string;
+    message: string;
+    code: string;
+};
+
+/**
+ * A write was rejected by the table's Zod schema.
+ * `fields` lists the failing field paths; `issues` has the details.
+ */
+export class ValidationError extends SatiDBError {
+    readonly table: string;
+    readonly issues: ValidationIssue[];
+    /** The original ZodError. */
+    declare readonly cause: z.ZodError;
+
+    constructor(table: string, zodError: z.ZodError) {
+        const issues = zodError.issues.map(i => ({ path: i.path.join('.'), message: i.message, code: i.code }));
+        super(`Validation failed for '${table}': ${issues.map(i => `${i.path || '(root)'}: ${i.message}`).join('; ')}`, { cause: zodError });
+        this.table = table;
+        this.issues = issues;
+    }
+
+    /** Failing field paths, deduplicated. */
+    get fields(): string[] {
+        return [...new Set(this.issues.map(i => i.path))];
+    }
+}
+
+/** A query matched no row where one was required (e.g. `firstOrFail()`). */
+export class NotFoundError extends SatiDBError {
+    readonly table: string;
+
+    constructor(table: string, message: string = 'No matching row found') {
+        super(message);
+        this.table = table;
+    }
+}
+
+/** A query could not be compiled to SQL: unknown operator, bad operand, unresolvable join, ... */
+export class QueryCompileError extends SatiDBError { }
+
+/** Base class for SQLite constraint violations. `code` is the SQLite extended result code. */
+export class ConstraintError extends SatiDBError {
+    readonly table: string | null;
+    readonly code: string;
+
+    constructor(message: string, table: string | null, code: string, cause?: unknown) {
+        super(message, { cause });
+        this.table = table;
+        this.code = code;
+    }
+}
+
+/** A UNIQUE index or PRIMARY KEY rejected a duplicate. */
+export class UniqueConstraintError extends ConstraintError {
+    readonly columns: string[];
+
+    constructor(message: string, table: string | null, columns: string[], code: string, cause?: unknown) {
+        super(message, table, code, cause);
+        this.columns = columns;
+    }
+}
+
+/** A FOREIGN KEY constraint failed (missing parent, or parent still referenced). */
+export class ForeignKeyError extends ConstraintError { }
+
+/** A CHECK constraint (e.g. one derived from a Zod refinement) failed. */
+export class CheckConstraintError extends ConstraintError { }
+
+/** A NOT NULL column was given no value. */
+export class NotNullError extends ConstraintError {
+    readonly column: string | null;
+
+    constructor(message: string, table: string | null, column: string | null, code: string, cause?: unknown) {
+        super(message, table, code, cause);
+        this.column = column;
+    }
+}
+
+/**
+ * Map a bun:sqlite constraint error to a typed error. Anything else is
+ * returned unchanged. `table` is used when the message doesn't name one
+ * (foreign key and CHECK failures).
+ */
+export function translateSqliteError(err: unknown, table: string | null = null): unknown {
+    if (!(err instanceof Error) || err instanceof SatiDBError) return err;
+    const code: string = (err as any).code ?? '';
+    const message = err.message;
+
+    // "UNIQUE constraint failed: users.email, users.org_id"
+    if (code === 'SQLITE_CONSTRAINT_UNIQUE' || code === 'SQLITE_CONSTRAINT_PRIMARYKEY') {
+        const refs = (message.split(': ')[1] ?? '').split(',').map(r => r.trim()).filter(Boolean);
+        const uniqueTable = refs[0]?.split('.')[0] ?? table;
+        return new UniqueConstraintError(message, uniqueTable, refs.map(r => r.split('.').pop()!), code, err);
+    }
+    // ON DELETE RESTRICT fails as SQLITE_CONSTRAINT_TRIGGER with the foreign key message
+    if (code === 'SQLITE_CONSTRAINT_FOREIGNKEY' || message.startsWith('FOREIGN KEY constraint failed')) {
+        return new ForeignKeyError(message, table, code, err);
+    }
+    if (code === 'SQLITE_CONSTRAINT_CHECK') {
+        return new CheckConstraintError(message, table, code, err);
+    }
+    // "NOT NULL constraint failed: users.email"
+    if (code === 'SQLITE_CONSTRAINT_NOTNULL') {
+        const ref = message.split(': ')[1]?.trim();
+        return new NotNullError(message, ref?.split('.')[0] ?? table, ref?.split('.').pop() ?? null, code, err);
+    }
+    return err;
+}
+
+/** Run `fn`, rethrowing SQLite constraint failures as typed errors. */
+export function withSqliteErrors<T>(table: string | null, fn: () => T): T {
+    try {
+        return fn();
+    } catch (err) {
+        throw translateSqliteError(err, table);
+    }
+}
@@ -4,6 +4,8 @@
  * Contains WHERE clause building and other SQL-level helpers.
  */
 import { transformForStorage } from './schema';
+import { QueryCompileError } from './errors';
+import { jsonExtractSql } from './json';
 
 /**
  * Build a parameterized WHERE clause from a conditions object.
@@ -14,6 +16,7 @@ import { transformForStorage } from './schema';
  * - $in: `{ status: { $in: ['active', 'pending'] } }`
  * - $or: `{ $or: [{ name: 'Alice' }, { name: 'Bob' }] }`
  * - $isNull / $isNotNull: `{ deletedAt: { $isNull: true } }`
+ * - JSON paths: `{ 'settings.theme': 'dark' }`, arrays: `{ tags: { $contains: 'urgent' } }`
  */
 export function buildWhereClause(conditions: Record<string, any>, tablePrefix?: string): { clause: string; values: any[] } {
     const parts: string[] = [];
@@ -36,17 +39,19 @@ export function buildWhereClause(conditions: Record<string, any>, tablePrefix?:
             continue;
         }
         const value = conditions[key];
-        const fieldName = tablePrefix ? `"${tablePrefix}"."${key}"` : `"${key}"`;
+        const column = key.includes('.') ? key.split('.')[0] : key;
+        const columnRef = tablePrefix ? `"${tablePrefix}"."${column}"` : `"${column}"`;
+        const fieldName = key.includes('.') ? jsonExtractSql(columnRef, key) : columnRef;
 
         if (typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)) {
             const operator = Object.keys(value)[0];
             if (!operator?.startsWith('$')) {
-                throw new Error(`Querying on nested object '${key}' not supported. Use operators like $gt.`);
+                throw new QueryCompileError(`Querying on nested object '${key}' not supported. Use operators like $gt.`);
             }
             const operand = value[operator];
 
             if (operator === '$in') {
-                if (!Array.isArray(operand)) throw new Error(`$in for '${key}' requires an array`);
+                if (!Array.isArray(operand)) throw new QueryCompileError(`$in for '${key}' requires an array`);
                 if (operand.length === 0) { parts.push('1 = 0'); continue; }
                 parts.push(`${fieldName} IN (${operand.map(() => '?').join(', ')})`);
                 values.push(...operand.map((v: any) => transformForStorage({ v }).v));
@@ -54,7 +59,7 @@ export function buildWhereClause(conditions: Record<string, any>, tablePrefix?:
             }
 
             if (operator === '$notIn') {
-                if (!Array.isArray(operand)) throw new Error(`$notIn for '${key}' requires an array`);
+                if (!Array.isArray(operand)) throw new QueryCompileError(`$notIn for '${key}' requires an array`);
                 if (operand.length === 0) continue; // no-op: everything is "not in" an empty set
                 parts.push(`${fieldName} NOT IN (${operand.map(() => '?').join(', ')})`);
                 values.push(...operand.map((v: any) => transformForStorage({ v }).v));
@@ -68,7 +73,7 @@ export function buildWhereClause(conditions: Record<string, any>, tablePrefix?:
             }
 
             if (operator === '$between') {
-                if (!Array.isArray(operand) || operand.length !== 2) throw new Error(`$between for '${key}' requires [min, max]`);
+                if (!Array.isArray(operand) || operand.length !== 2) throw new QueryCompileError(`$between for '${key}' requires [min, max]`);
                 parts.push(`${fieldName} BETWEEN ? AND ?`);
                 values.push(transformForStorage({ v: operand[0] }).v, transformForStorage({ v: operand[1] }).v);
                 continue;
@@ -84,8 +89,14 @@ export function buildWhereClause(conditions: Record<string, any>, tablePrefix?:
                 continue;
             }
 
+            if (operator === '$contains') {
+                parts.push(`EXISTS (SELECT 1 FROM json_each(${fieldName}) WHERE json_each.value = ?)`);
+                values.push(transformForStorage({ operand }).operand);
+                continue;
+            }
+
             const sqlOp = ({ $gt: '>', $gte: '>=', $lt: '<', $lte: '<=', $ne: '!=' } as Record<string, string>)[operator];
-            if (!sqlOp) throw new Error(`Unsupported operator '${operator}' on '${key}'`);
+            if (!sqlOp) throw new QueryCompileError(`Unsupported operator '${operator}' on '${key}'`);
             parts.push(`${fieldName} ${sqlOp} ?`);
             values.push(transformForStorage({ operand }).operand);
         } else {
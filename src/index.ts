@@ -10,14 +10,22 @@ export type {
     SchemaMap, DatabaseOptions, Relationship,
     EntityAccessor, TypedAccessors, AugmentedEntity, UpdateBuilder, DeleteBuilder,
     InferSchema, EntityData, IndexDef, ChangeEvent,
-    ProxyColumns, ColumnRef,
+    ProxyColumns, ColumnRef, Migration, MigrationStatus,
+    TableDiff, ApplyDiffOptions, PlanStatement, ValidationMode,
+    PrimaryKey, PrimaryKeyConfig, EntityKey, ReferentialAction,
 } from './types';
 
+export {
+    SatiDBError, ValidationError, NotFoundError, QueryCompileError,
+    ConstraintError, UniqueConstraintError, ForeignKeyError, CheckConstraintError, NotNullError,
+    type ValidationIssue,
+} from './errors';
+
 export { z } from 'zod';
 
-export { QueryBuilder, ColumnNode, compileIQO, type ProxyQueryResult } from './query';
+export { QueryBuilder, ColumnNode, compileIQO, type ProxyQueryResult, type ProxyAggregate } from './query';
 export {
     type ASTNode, type WhereCallback, type SetCallback,
-    type TypedColumnProxy, type FunctionProxy, type Operators,
-    compileAST, wrapNode, createColumnProxy, createFunctionProxy, op,
+    type TypedColumnProxy, type FunctionProxy, type Operators, type SqlFunctionName, type CastType, type Expr, type ExprValue,
+    SQL_FUNCTIONS, compileAST, wrapNode, createColumnProxy, createFunctionProxy, op,
 } from './ast';
@@ -12,19 +12,52 @@ import { type ASTNode, compileAST } from './ast';
 // =============================================================================
 
 export type OrderDirection = 'asc' | 'desc';
-export type WhereOperator = '$gt' | '$gte' | '$lt' | '$lte' | '$ne' | '$in' | '$like' | '$notIn' | '$between' | '$isNull' | '$isNotNull';
+export type WhereOperator = '$gt' | '$gte' | '$lt' | '$lte' | '$ne' | '$in' | '$like' | '$notIn' | '$between' | '$isNull' | '$isNotNull' | '$contains';
 
 export interface WhereCondition {
     field: string;
-    operator: '=' | '>' | '>=' | '<' | '<=' | '!=' | 'IN' | 'LIKE' | 'NOT IN' | 'BETWEEN' | 'IS NULL' | 'IS NOT NULL';
+    operator: '=' | '>' | '>=' | '<' | '<=' | '!=' | 'IN' | 'LIKE' | 'NOT IN' | 'BETWEEN' | 'IS NULL' | 'IS NOT NULL' | 'CONTAINS';
     value: any;
 }
 
+export type JoinKind = 'inner' | 'left' | 'cross';
+export type SetOperator = 'UNION' | 'UNION ALL' | 'INTERSECT' | 'EXCEPT';
+
 export interface JoinClause {
     table: string;
     fromCol: string;
     toCol: string;
     columns: string[];   // columns to SELECT from the joined table
+    /** `LEFT JOIN`/`CROSS JOIN`; plain `JOIN` when unset. */
+    kind?: JoinKind;
+    /** Result key prefix for the joined columns: `users__` → `users__name`. Defaults to `users_`. */
+    prefix?: string;
+    /** Fold the prefixed columns into one object per row: `{ users: { name } }`. */
+    nest?: boolean;
+    /** `JOIN table AS alias` — set for renamed relations, e.g. a self-join to `manager`. */
+    alias?: string;
+    /** Junction hop for many-to-many joins: `fromCol` = junction.fromCol, junction.toCol = `toCol`. */
+    through?: { table: string; fromCol: string; toCol: string };
+}
+
+/**
+ * Hidden result column holding a nested LEFT JOIN's key: null exactly when the
+ * join found no row, whatever the selected columns hold.
+ */
+export function joinKeyAlias(join: JoinClause): string {
+    return `_${join.alias ?? join.table}__key`;
+}
+
+/**
+ * A `WITH` clause entry. `recursive` CTEs reference themselves in their body
+ * (`anchor UNION ALL step`) and switch the whole clause to `WITH RECURSIVE`.
+ */
+export interface CommonTableExpression {
+    name: string;
+    columns?: string[];
+    sql: string;
+    params: any[];
+    recursive?: boolean;
 }
 
 export interface IQO {
@@ -42,6 +75,42 @@ export interface IQO {
     includes: string[];
     raw: boolean;
     distinct: boolean;
+    /** Extra SELECT expressions, e.g. `withCount()` subqueries: `(SELECT COUNT(*) ...) AS "books_count"`. */
+    selectExprs?: { sql: string; params: any[] }[];
+    /**
+     * `search()`: MATCH against the FTS5 table, joined as `_search`, plus columns
+     * computed there (`highlight(...)` must run in the MATCH query itself).
+     */
+    search?: { table: string; query: string; columns: { sql: string; as: string }[] };
+    /** `select({...})`: the SELECT list is `selects` and `selectExprs` only, without the implicit `table.*`. */
+    exprsOnly?: boolean;
+    /** `WITH` clause prepended to the query, for `withCte()`/`withRecursive()`. */
+    ctes?: CommonTableExpression[];
+    /** The table's own columns, recorded by `join()` so ORDER BY can qualify them. */
+    ownColumns?: string[];
+    /**
+     * `union()`/`intersect()`/...: compiled queries combined with this one, in order.
+     * ORDER BY/LIMIT/OFFSET then apply to the combined rows.
+     */
+    compound?: { op: SetOperator; table: string; sql: string; params: any[] }[];
+    /** Eager loading: per-parent rows, see `EagerWindow`. */
+    eager?: EagerWindow;
+}
+
+/**
+ * Which parent an eager-loaded row belongs to: the `parent` column of this
+ * table, or of a `through` junction joined as `_through` (whose `key` column
+ * references this table's id). It is selected as `_eager_parent`, and
+ * LIMIT/OFFSET apply to each parent's rows through `row_number()`.
+ */
+export interface EagerWindow {
+    parent: string;
+    through?: { table: string; key: string };
+}
+
+/** SQL reference to the parent key column of an eager window. */
+export function eagerParentSql(tableName: string, eager: EagerWindow): string {
+    return `${eager.through ? '_through' : tableName}."${eager.parent}"`;
 }
 
 export const OPERATOR_MAP: Record<WhereOperator, string> = {
@@ -56,54 +125,49 @@ export const OPERATOR_MAP: Record<WhereOperator, string> = {
     $between: 'BETWEEN',
     $isNull: 'IS NULL',
     $isNotNull: 'IS NOT NULL',
+    $contains: 'CONTAINS',
 };
 
+/** `$contains`: some element of the JSON array `field` equals the value. */
+function containsSql(field: string): string {
+    return `EXISTS (SELECT 1 FROM json_each(${field}) WHERE json_each.value = ?)`;
+}
+
 export function transformValueForStorage(value: any): any {
     if (value instanceof Date) return value.toISOString();
     if (typeof value === 'boolean') return value ? 1 : 0;
     return value;
 }
 
+/** `WITH [RECURSIVE] name(cols) AS (...), ... ` — empty when there are no CTEs. */
+export function compileCtes(ctes: CommonTableExpression[] | undefined): { sql: string; params: any[] } {
+    if (!ctes || ctes.length === 0) return { sql: '', params: [] };
+    const parts = ctes.map(c => `${c.name}${c.columns?.length ? `(${c.columns.join(', ')})` : ''} AS (${c.sql})`);
+    return {
+        sql: `WITH ${ctes.some(c => c.recursive) ? 'RECURSIVE ' : ''}${parts.join(', ')} `,
+        params: ctes.flatMap(c => c.params),
+    };
+}
+
 /**
- * Compile an Internal Query Object into executable SQL + params.
- * Handles SELECT, JOIN, WHERE (object + AST + $or), ORDER BY, LIMIT, OFFSET.
+ * The WHERE condition of an IQO without the `WHERE` keyword — object conditions or
+ * the AST, then `$or` groups and raw fragments, AND-ed — or `''` when there is none.
+ * Correlated subqueries (`whereHas()`, `withCount()`) embed it directly.
  */
-export function compileIQO(tableName: string, iqo: IQO): { sql: string; params: any[] } {
+export function compileWhere(tableName: string, iqo: IQO): { sql: string; params: any[] } {
+    const whereParts: string[] = [];
     const params: any[] = [];
 
-    // SELECT clause
-    const selectParts: string[] = [];
-    if (iqo.selects.length > 0) {
-        selectParts.push(...iqo.selects.map(s => `${tableName}.${s}`));
-    } else {
-        selectParts.push(`${tableName}.*`);
-    }
-    for (const j of iqo.joins) {
-        if (j.columns.length > 0) {
-            selectParts.push(...j.columns.map(c => `${j.table}.${c} AS ${j.table}_${c}`));
-        } else {
-            selectParts.push(`${j.table}.*`);
-        }
-    }
-
-    let sql = `SELECT ${iqo.distinct ? 'DISTINCT ' : ''}${selectParts.join(', ')} FROM ${tableName}`;
-
-    // JOIN clauses
-    for (const j of iqo.joins) {
-        sql += ` JOIN ${j.table} ON ${tableName}.${j.fromCol} = ${j.table}.${j.toCol}`;
-    }
-
-    // WHERE clause — AST-based takes precedence if set
+    // AST-based takes precedence if set
     if (iqo.whereAST) {
         const compiled = compileAST(iqo.whereAST);
-        sql += ` WHERE ${compiled.sql}`;
+        whereParts.push(compiled.sql);
         params.push(...compiled.params);
     } else if (iqo.wheres.length > 0) {
-        const hasJoins = iqo.joins.length > 0;
+        const hasJoins = iqo.joins.length > 0 || !!iqo.eager?.through;
         const qualify = (field: string) =>
             hasJoins && !field.includes('.') ? `${tableName}.${field}` : field;
 
-        const whereParts: string[] = [];
         for (const w of iqo.wheres) {
             if (w.operator === 'IN') {
                 const arr = w.value as any[];
@@ -128,14 +192,14 @@ export function compileIQO(tableName: string, iqo: IQO): { sql: string; params:
                 whereParts.push(`${qualify(w.field)} IS NULL`);
             } else if (w.operator === 'IS NOT NULL') {
                 whereParts.push(`${qualify(w.field)} IS NOT NULL`);
+            } else if (w.operator === 'CONTAINS') {
+                whereParts.push(containsSql(qualify(w.field)));
+                params.push(transformValueForStorage(w.value));
             } else {
                 whereParts.push(`${qualify(w.field)} ${w.operator} ?`);
                 params.push(transformValueForStorage(w.value));
             }
         }
-        if (whereParts.length > 0) {
-            sql += ` WHERE ${whereParts.join(' AND ')}`;
-        }
     }
 
     // Append OR groups (from $or)
@@ -151,14 +215,16 @@ export function compileIQO(tableName: string, iqo: IQO): { sql: string; params:
                         orParts.push(`${w.field} IN (${arr.map(() => '?').join(', ')})`);
                         params.push(...arr.map(transformValueForStorage));
                     }
+                } else if (w.operator === 'CONTAINS') {
+                    orParts.push(containsSql(w.field));
+                    params.push(transformValueForStorage(w.value));
                 } else {
                     orParts.push(`${w.field} ${w.operator} ?`);
                     params.push(transformValueForStorage(w.value));
                 }
             }
             if (orParts.length > 0) {
-                const orClause = `(${orParts.join(' OR ')})`;
-                sql += sql.includes(' WHERE ') ? ` AND ${orClause}` : ` WHERE ${orClause}`;
+                whereParts.push(`(${orParts.join(' OR ')})`);
             }
         }
     }
@@ -166,11 +232,94 @@ export function compileIQO(tableName: string, iqo: IQO): { sql: string; params:
     // Append raw WHERE fragments
     if (iqo.rawWheres && iqo.rawWheres.length > 0) {
         for (const rw of iqo.rawWheres) {
-            sql += sql.includes(' WHERE ') ? ` AND (${rw.sql})` : ` WHERE (${rw.sql})`;
+            whereParts.push(`(${rw.sql})`);
             params.push(...rw.params);
         }
     }
 
+    return { sql: whereParts.join(' AND '), params };
+}
+
+/**
+ * Compile an Internal Query Object into executable SQL + params.
+ * Handles WITH, SELECT, JOIN, WHERE (object + AST + $or), UNION/INTERSECT/EXCEPT, ORDER BY, LIMIT, OFFSET.
+ */
+export function compileIQO(tableName: string, iqo: IQO): { sql: string; params: any[] } {
+    const params: any[] = [];
+    const joined = iqo.joins.length > 0 || !!iqo.eager?.through;
+
+    // `ORDER BY id` is ambiguous once a joined table has an `id` too
+    const qualify = (field: string) =>
+        joined && !iqo.compound?.length && iqo.ownColumns?.includes(field) ? `${tableName}.${field}` : field;
+    const orderBy = iqo.orderBy.map(o => `${qualify(o.field)} ${o.direction.toUpperCase()}`).join(', ');
+    // Per-parent LIMIT/OFFSET: rank rows within their parent, filtered in an outer query
+    const ranked = iqo.eager && (iqo.limit !== null || iqo.offset !== null);
+
+    // SELECT clause
+    const selectParts: string[] = [];
+    if (iqo.selects.length > 0) {
+        selectParts.push(...iqo.selects.map(s => `${tableName}.${s}`));
+    } else if (!iqo.exprsOnly) {
+        selectParts.push(`${tableName}.*`);
+    }
+    for (const j of iqo.joins) {
+        const name = j.alias ?? j.table;
+        if (j.columns.length > 0) {
+            const prefix = j.prefix ?? `${name}_`;
+            selectParts.push(...j.columns.map(c => `${name}.${c} AS ${prefix}${c}`));
+        } else {
+            selectParts.push(`${name}.*`);
+        }
+        if (j.nest && j.kind === 'left') selectParts.push(`${name}.${j.toCol} AS ${joinKeyAlias(j)}`);
+    }
+    for (const expr of iqo.selectExprs ?? []) {
+        selectParts.push(expr.sql);
+        params.push(...expr.params);
+    }
+    if (iqo.eager) {
+        const parent = eagerParentSql(tableName, iqo.eager);
+        selectParts.push(`${parent} AS _eager_parent`);
+        if (ranked) selectParts.push(`row_number() OVER (PARTITION BY ${parent} ORDER BY ${orderBy || `${tableName}.rowid`}) AS _eager_rank`);
+    }
+    for (const c of iqo.search?.columns ?? []) {
+        selectParts.push(`_search._${c.as} AS ${c.as}`);
+    }
+
+    let sql = `SELECT ${iqo.distinct ? 'DISTINCT ' : ''}${selectParts.join(', ')} FROM ${tableName}`;
+
+    // JOIN clauses
+    for (const j of iqo.joins) {
+        const name = j.alias ?? j.table;
+        const target = j.alias ? `${j.table} AS ${j.alias}` : j.table;
+        const join = j.kind === 'left' ? 'LEFT JOIN' : 'JOIN';
+        if (j.kind === 'cross') {
+            sql += ` CROSS JOIN ${target}`;
+        } else if (j.through) {
+            const t = j.through;
+            sql += ` ${join} ${t.table} ON ${tableName}.${j.fromCol} = ${t.table}.${t.fromCol}`;
+            sql += ` ${join} ${target} ON ${t.table}.${t.toCol} = ${name}.${j.toCol}`;
+        } else {
+            sql += ` ${join} ${target} ON ${tableName}.${j.fromCol} = ${name}.${j.toCol}`;
+        }
+    }
+    if (iqo.eager?.through) {
+        sql += ` JOIN "${iqo.eager.through.table}" AS _through ON _through."${iqo.eager.through.key}" = ${tableName}.id`;
+    }
+    if (iqo.search) {
+        // Subquery columns are prefixed so they can't clash with the table's own
+        const { table, query, columns } = iqo.search;
+        const computed = columns.map(c => `, ${c.sql} AS _${c.as}`).join('');
+        sql += ` JOIN (SELECT rowid AS _rowid${computed} FROM "${table}" WHERE "${table}" MATCH ?) AS _search`
+            + ` ON _search._rowid = ${tableName}.rowid`;
+        params.push(query);
+    }
+
+    const where = compileWhere(tableName, iqo);
+    if (where.sql) {
+        sql += ` WHERE ${where.sql}`;
+        params.push(...where.params);
+    }
+
     // GROUP BY
     if (iqo.groupBy.length > 0) {
         sql += ` GROUP BY ${iqo.groupBy.join(', ')}`;
@@ -194,14 +343,26 @@ export function compileIQO(tableName: string, iqo: IQO): { sql: string; params:
         }
     }
 
-    // ORDER BY
-    if (iqo.orderBy.length > 0) {
-        const parts = iqo.orderBy.map(o => `${o.field} ${o.direction.toUpperCase()}`);
-        sql += ` ORDER BY ${parts.join(', ')}`;
+    // Compound SELECT, wrapped so ORDER BY/LIMIT and the aggregate rewrites see one query
+    if (iqo.compound && iqo.compound.length > 0) {
+        for (const c of iqo.compound) {
+            sql += ` ${c.op} ${c.sql}`;
+            params.push(...c.params);
+        }
+        sql = `SELECT * FROM (${sql})`;
     }
 
-    if (iqo.limit !== null) sql += ` LIMIT ${iqo.limit}`;
-    if (iqo.offset !== null) sql += ` OFFSET ${iqo.offset}`;
+    if (ranked) {
+        const first = iqo.offset ?? 0;
+        sql = `SELECT * FROM (${sql}) WHERE _eager_rank > ${first}`
+            + (iqo.limit !== null ? ` AND _eager_rank <= ${first + iqo.limit}` : '')
+            + ' ORDER BY _eager_rank';
+    } else {
+        if (orderBy) sql += ` ORDER BY ${orderBy}`;
+        if (iqo.limit !== null) sql += ` LIMIT ${iqo.limit}`;
+        if (iqo.offset !== null) sql += ` OFFSET ${iqo.offset}`;
+    }
 
-    return { sql, params };
+    const withClause = compileCtes(iqo.ctes);
+    return { sql: withClause.sql + sql, params: [...withClause.params, ...params] };
 }
@@ -0,0 +1,66 @@
+/**
+ * json.ts — JSON path queries on object/array columns.
+ *
+ * `z.object()`/`z.array()` fields are stored as JSON text. A dotted key whose
+ * first segment is such a column — `'settings.theme'`, `'tags.0'` — compiles
+ * to `json_extract("users"."settings", '$.theme')`, so it can be used in
+ * `where()` and `orderBy()`. Paths listed in the `jsonIndexes` option get an
+ * indexed VIRTUAL generated column (`settings_theme`) that queries use instead.
+ */
+import type { SchemaMap } from './types';
+import { getStorableFields, isJsonField } from './schema';
+import { QueryCompileError } from './errors';
+
+const SEGMENT = /^(?:[A-Za-z_][A-Za-z0-9_]*|\d+)$/;
+
+/** `['settings', 'langs', '0']` → `$.settings.langs[0]`. Segments are identifiers or array indexes. */
+export function jsonPath(segments: string[]): string {
+    for (const s of segments) {
+        if (!SEGMENT.test(s)) throw new QueryCompileError(`Invalid JSON path segment '${s}'`);
+    }
+    return '$' + segments.map(s => /^\d+$/.test(s) ? `[${s}]` : `.${s}`).join('');
+}
+
+/** `json_extract(<column>, '$.path')` for a dotted key like `settings.theme`. */
+export function jsonExtractSql(columnRef: string, dotted: string): string {
+    const [, ...segments] = dotted.split('.');
+    return `json_extract(${columnRef}, '${jsonPath(segments)}')`;
+}
+
+/** Name of the generated column that indexes a JSON path: `settings.theme` → `settings_theme`. */
+export function jsonIndexColumn(dotted: string): string {
+    return dotted.replace(/\./g, '_');
+}
+
+/**
+ * Drop a table's indexed-path columns from a `SELECT *` row: they exist for the
+ * index only, aren't in the schema, and can't be written back.
+ */
+export function omitJsonIndexColumns<R extends Record<string, any>>(row: R, paths: string[] | undefined): R {
+    for (const path of paths ?? []) delete row[jsonIndexColumn(path)];
+    return row;
+}
+
+/** Names of a table's JSON (object/array/record/tuple/union) columns. */
+export function jsonColumns(schema: SchemaMap[string]): string[] {
+    return getStorableFields(schema).filter(f => isJsonField(f.type)).map(f => f.name);
+}
+
+/** Check the `jsonIndexes` option against the schemas. */
+export function validateJsonIndexes(config: Record<string, string[]>, schemas: SchemaMap): void {
+    for (const [table, paths] of Object.entries(config)) {
+        if (!schemas[table]) throw new Error(`jsonIndexes: unknown table '${table}'`);
+        const fields = new Set(getStorableFields(schemas[table]!).map(f => f.name));
+        const json = new Set(jsonColumns(schemas[table]!));
+        for (const path of paths) {
+            const [column, ...segments] = path.split('.');
+            if (segments.length === 0 || !json.has(column!)) {
+                throw new Error(`jsonIndexes: '${table}.${path}' must be a path into a JSON column`);
+            }
+            jsonPath(segments);
+            if (fields.has(jsonIndexColumn(path))) {
+                throw new Error(`jsonIndexes: '${table}' already has a column '${jsonIndexColumn(path)}'`);
+            }
+        }
+    }
+}
@@ -0,0 +1,109 @@
+/**
+ * keys.ts — Primary key strategies and key helpers.
+ *
+ * A table's key is either a single `id` column (autoincrement integer, or a
+ * TEXT id that is generated — UUIDv7, ULID, custom — or supplied by the
+ * caller) or a composite key over schema columns, which has no `id` at all.
+ * CRUD, entity methods and change tracking go through these helpers instead
+ * of assuming a numeric `id`.
+ */
+import type { PrimaryKey, EntityKey } from './types';
+import type { DatabaseContext } from './context';
+
+/** Normalized primary key of a table. */
+export type KeySpec = {
+    /** Key columns: `['id']` for single-column keys. */
+    columns: string[];
+    /** `id INTEGER PRIMARY KEY AUTOINCREMENT` — the id comes from `lastInsertRowid`. */
+    autoincrement: boolean;
+    /** Generator for a missing TEXT `id` on insert, or `null` when the caller must supply it. */
+    generate: (() => string) | null;
+};
+
+const AUTOINCREMENT: KeySpec = { columns: ['id'], autoincrement: true, generate: null };
+
+/** Normalize the `primaryKey` option of one table. */
+export function normalizePrimaryKey(tableName: string, pk: PrimaryKey | undefined): KeySpec {
+    if (pk === undefined || pk === 'autoincrement') return AUTOINCREMENT;
+    if (pk === 'uuid') return { columns: ['id'], autoincrement: false, generate: () => Bun.randomUUIDv7() };
+    if (pk === 'ulid') return { columns: ['id'], autoincrement: false, generate: ulid };
+    if (pk === 'text') return { columns: ['id'], autoincrement: false, generate: null };
+    if (Array.isArray(pk)) {
+        if (pk.length === 0) throw new Error(`primaryKey: '${tableName}' needs at least one key column`);
+        return { columns: [...pk], autoincrement: false, generate: null };
+    }
+    if (typeof (pk as any).generate === 'function') {
+        return { columns: ['id'], autoincrement: false, generate: (pk as { generate: () => string }).generate };
+    }
+    throw new Error(`primaryKey: unsupported key for '${tableName}'`);
+}
+
+/** True when the table is keyed by an `id` column (as opposed to a composite key). */
+export function hasIdColumn(spec: KeySpec): boolean {
+    return spec.columns.length === 1 && spec.columns[0] === 'id';
+}
+
+function keySpec(ctx: DatabaseContext, entityName: string): KeySpec {
+    return ctx.keys[entityName] ?? AUTOINCREMENT;
+}
+
+/**
+ * WHERE clause matching one row by key. Composite keys are given as an
+ * object of key column values: `{ post_id: 1, tag_id: 2 }`.
+ */
+export function keyWhere(ctx: DatabaseContext, entityName: string, key: EntityKey): { clause: string; values: any[] } {
+    const spec = keySpec(ctx, entityName);
+    if (hasIdColumn(spec)) {
+        const id = key !== null && typeof key === 'object' ? (key as any).id : key;
+        return { clause: 'WHERE "id" = ?', values: [id] };
+    }
+    if (key === null || typeof key !== 'object') {
+        throw new Error(`'${entityName}' has a composite key (${spec.columns.join(', ')}) — pass an object of key values`);
+    }
+    const values = spec.columns.map(c => {
+        const v = (key as Record<string, any>)[c];
+        if (v === undefined) throw new Error(`'${entityName}' key is missing '${c}'`);
+        return v;
+    });
+    return { clause: `WHERE ${spec.columns.map(c => `"${c}" = ?`).join(' AND ')}`, values };
+}
+
+/** The key of a row: its `id`, or an object of the composite key columns. */
+export function rowKey(ctx: DatabaseContext, entityName: string, row: Record<string, any>): EntityKey {
+    const spec = keySpec(ctx, entityName);
+    if (hasIdColumn(spec)) return row.id;
+    return Object.fromEntries(spec.columns.map(c => [c, row[c]]));
+}
+
+/** SQL expression the change triggers log as `row_id` for `NEW`/`OLD`. */
+export function changeKeySql(spec: KeySpec, ref: 'NEW' | 'OLD'): string {
+    if (hasIdColumn(spec)) return `${ref}.id`;
+    return `json_object(${spec.columns.map(c => `'${c}', ${ref}."${c}"`).join(', ')})`;
+}
+
+/** Inverse of `changeKeySql`: the key of a logged `_changes.row_id`. */
+export function parseChangeKey(spec: KeySpec, rowId: any): EntityKey {
+    return hasIdColumn(spec) ? rowId : JSON.parse(rowId);
+}
+
+// ---------------------------------------------------------------------------
+// ULID
+// ---------------------------------------------------------------------------
+
+const CROCKFORD = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * A ULID: 48-bit millisecond timestamp + 80 random bits, Crockford base32.
+ * Sorts lexicographically by creation time.
+ */
+export function ulid(now: number = Date.now()): string {
+    let time = '';
+    for (let i = 0; i < 10; i++) {
+        time = CROCKFORD[now % 32] + time;
+        now = Math.floor(now / 32);
+    }
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    let random = '';
+    for (let i = 0; i < 16; i++) random += CROCKFORD[bytes[i]! % 32];
+    return time + random;
+}
@@ -0,0 +1,196 @@
+/**
+ * migrations.ts — Versioned migrations tracked in a `_migrations` table.
+ *
+ * Complements the additive `runMigrations()` pass in database.ts: each
+ * declared step has a unique name, runs inside its own transaction, and is
+ * recorded so it never runs twice against the same file.
+ */
+import type { Database as SqliteDatabase } from 'bun:sqlite';
+import type { Migration, MigrationStatus } from './types';
+import type { DatabaseContext } from './context';
+import { createTableSql, type TableDefinition } from './schema';
+
+/** Create the `_migrations` bookkeeping table if it doesn't exist. */
+export function ensureMigrationsTable(ctx: DatabaseContext): void {
+    ctx.db.run(`CREATE TABLE IF NOT EXISTS "_migrations" (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        appliedAt TEXT NOT NULL
+    )`);
+}
+
+/** Throw on duplicate or empty migration names — order and identity must be unambiguous. */
+export function validateMigrations(migrations: Migration[]): void {
+    const seen = new Set<string>();
+    for (const m of migrations) {
+        if (!m.name) throw new Error('migrations: every migration needs a name');
+        if (seen.has(m.name)) throw new Error(`migrations: duplicate migration name '${m.name}'`);
+        seen.add(m.name);
+    }
+}
+
+/**
+ * True when none of the schema tables exist yet and no migration was ever recorded.
+ * Must be called before `initializeTables()` creates them.
+ */
+export function isFreshDatabase(ctx: DatabaseContext): boolean {
+    const names = ['_migrations', ...Object.keys(ctx.schemas)];
+    const row = ctx.db.query(
+        `SELECT COUNT(*) as n FROM sqlite_master WHERE type = 'table' AND name IN (${names.map(() => '?').join(', ')})`
+    ).get(...names) as any;
+    return (row?.n ?? 0) === 0;
+}
+
+/**
+ * Record every declared migration as applied without running it.
+ * Used on a brand-new file, whose tables are already created from the current schemas.
+ */
+export function baselineMigrations(ctx: DatabaseContext, migrations: Migration[]): void {
+    ensureMigrationsTable(ctx);
+    const now = new Date().toISOString();
+    ctx.db.transaction(() => {
+        for (const m of migrations) {
+            ctx.db.query('INSERT OR IGNORE INTO "_migrations" (name, appliedAt) VALUES (?, ?)').run(m.name, now);
+        }
+    })();
+}
+
+/**
+ * Declared migrations not yet recorded, without creating `_migrations`.
+ * Used by `db.plan()`, which must not write to the file.
+ */
+export function pendingMigrations(ctx: DatabaseContext, migrations: Migration[]): Migration[] {
+    const exists = ctx.db.query(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = '_migrations'`).get();
+    if (!exists) return [...migrations];
+    const applied = new Set(appliedRows(ctx).map(r => r.name));
+    return migrations.filter(m => !applied.has(m.name));
+}
+
+function appliedRows(ctx: DatabaseContext): { id: number; name: string; appliedAt: string }[] {
+    return ctx.db.query('SELECT id, name, appliedAt FROM "_migrations" ORDER BY id').all() as any[];
+}
+
+function runStep(db: SqliteDatabase, step: Migration['up']): void {
+    if (typeof step === 'string') db.run(step);
+    else step(db);
+}
+
+/** Run every pending migration in declaration order. Returns the names that ran. */
+export function migrate(ctx: DatabaseContext, migrations: Migration[]): string[] {
+    ensureMigrationsTable(ctx);
+    const applied = new Set(appliedRows(ctx).map(r => r.name));
+    const ran: string[] = [];
+
+    for (const m of migrations) {
+        if (applied.has(m.name)) continue;
+        ctx._m(`migrate: ${m.name}`, () => {
+            ctx.db.transaction(() => {
+                runStep(ctx.db, m.up);
+                ctx.db.query('INSERT INTO "_migrations" (name, appliedAt) VALUES (?, ?)').run(m.name, new Date().toISOString());
+            })();
+        });
+        ran.push(m.name);
+    }
+
+    return ran;
+}
+
+/** Undo the last `steps` applied migrations, newest first. Returns the names that were rolled back. */
+export function rollback(ctx: DatabaseContext, migrations: Migration[], steps: number = 1): string[] {
+    ensureMigrationsTable(ctx);
+    const byName = new Map(migrations.map(m => [m.name, m]));
+    const targets = appliedRows(ctx).reverse().slice(0, Math.max(0, steps));
+    const rolledBack: string[] = [];
+
+    for (const row of targets) {
+        const m = byName.get(row.name);
+        if (!m) throw new Error(`rollback: applied migration '${row.name}' is not declared in options.migrations`);
+        if (!m.down) throw new Error(`rollback: migration '${row.name}' has no down step`);
+        const down = m.down;
+        ctx._m(`rollback: ${m.name}`, () => {
+            ctx.db.transaction(() => {
+                runStep(ctx.db, down);
+                ctx.db.query('DELETE FROM "_migrations" WHERE id = ?').run(row.id);
+            })();
+        });
+        rolledBack.push(m.name);
+    }
+
+    return rolledBack;
+}
+
+/** Applied/pending state of every declared migration, plus applied ones no longer declared. */
+export function migrationStatus(ctx: DatabaseContext, migrations: Migration[]): MigrationStatus[] {
+    ensureMigrationsTable(ctx);
+    const applied = new Map(appliedRows(ctx).map(r => [r.name, r.appliedAt]));
+    const status: MigrationStatus[] = migrations.map(m => ({
+        name: m.name,
+        applied: applied.has(m.name),
+        appliedAt: applied.get(m.name) ?? null,
+    }));
+    const declared = new Set(migrations.map(m => m.name));
+    for (const [name, appliedAt] of applied) {
+        if (!declared.has(name)) status.push({ name, applied: true, appliedAt });
+    }
+    return status;
+}
+
+// ---------------------------------------------------------------------------
+// Table rebuilds
+// ---------------------------------------------------------------------------
+
+/**
+ * Statements that rebuild a table to match `def` using SQLite's 12-step
+ * procedure: create `_new_<table>`, copy the surviving columns, drop the old
+ * table, rename, then recreate its indexes and triggers. Indexes over columns
+ * that are going away are left out.
+ */
+export function rebuildStatements(ctx: DatabaseContext, tableName: string, def: TableDefinition): string[] {
+    const tmpName = `_new_${tableName}`;
+    const kept = new Set([...def.primaryKey.columns, ...def.columns.map(c => c.name)]);
+    const liveColumns = (ctx.db.query(`PRAGMA table_info("${tableName}")`).all() as any[]).map(c => c.name as string);
+    const copyCols = liveColumns.filter(c => kept.has(c)).map(c => `"${c}"`).join(', ');
+
+    const dependents = (ctx.db.query(
+        `SELECT type, name, sql FROM sqlite_master WHERE tbl_name = ? AND type IN ('index', 'trigger') AND sql IS NOT NULL`
+    ).all(tableName) as { type: string; name: string; sql: string }[]).filter(d => {
+        if (d.type !== 'index') return true;
+        const cols = ctx.db.query(`PRAGMA index_info("${d.name}")`).all() as any[];
+        return cols.every(c => c.name === null || kept.has(c.name));
+    });
+
+    return [
+        createTableSql(tmpName, def, false),
+        `INSERT INTO "${tmpName}" (${copyCols}) SELECT ${copyCols} FROM "${tableName}"`,
+        `DROP TABLE "${tableName}"`,
+        `ALTER TABLE "${tmpName}" RENAME TO "${tableName}"`,
+        ...dependents.map(d => d.sql),
+    ];
+}
+
+/**
+ * Rebuild a table to match `def` (see `rebuildStatements`) in one transaction.
+ *
+ * Foreign key enforcement is switched off for the duration (it can't change
+ * inside a transaction) so dropping the old table doesn't fire
+ * `ON DELETE SET NULL` on child rows; `foreign_key_check` runs before commit.
+ */
+export function rebuildTable(ctx: DatabaseContext, tableName: string, def: TableDefinition): void {
+    const statements = rebuildStatements(ctx, tableName, def);
+
+    const fkRow = ctx.db.query('PRAGMA foreign_keys').get() as any;
+    const fkWasOn = fkRow?.foreign_keys === 1;
+    if (fkWasOn) ctx.db.run('PRAGMA foreign_keys = OFF');
+    try {
+        ctx.db.transaction(() => {
+            for (const sql of statements) ctx.db.run(sql);
+
+            const violations = ctx.db.query(`PRAGMA foreign_key_check("${tableName}")`).all();
+            if (violations.length > 0) {
+                throw new Error(`rebuild of '${tableName}' would leave ${violations.length} foreign key violation(s)`);
+            }
+        })();
+    } finally {
+        if (fkWasOn) ctx.db.run('PRAGMA foreign_keys = ON');
+    }
+}
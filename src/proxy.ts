@@ -6,6 +6,9 @@
  */
 
 import type { z } from 'zod';
+import { QueryCompileError } from './errors';
+import { buildWhereClause } from './helpers';
+import { transformFromStorage } from './schema';
 
 // =============================================================================
 // ColumnNode
@@ -111,23 +114,86 @@ export function createContextProxy(
 // ---------- Proxy Query Result ----------
 
 type AnyColumn = ColumnNode | (ColumnNode & string);
+type JoinPairs = [AnyColumn | undefined, AnyColumn | undefined] | [AnyColumn | undefined, AnyColumn | undefined][];
+
+/** An aggregate select entry: `{ n: { $count: '*' } }`, `{ total: { $sum: o.amount } }`. */
+export type ProxyAggregate =
+    | { $count: AnyColumn | '*' | undefined }
+    | { $sum: AnyColumn | undefined }
+    | { $avg: AnyColumn | undefined }
+    | { $min: AnyColumn | undefined }
+    | { $max: AnyColumn | undefined };
 
 export interface ProxyQueryResult {
-    select: Record<string, AnyColumn | undefined>;
-    join?: [AnyColumn | undefined, AnyColumn | undefined] | [AnyColumn | undefined, AnyColumn | undefined][];
+    select: Record<string, AnyColumn | ProxyAggregate | undefined>;
+    join?: JoinPairs;
+    /** `LEFT JOIN`s, added after the inner joins. The new table's columns are null when nothing matches. */
+    leftJoin?: JoinPairs;
+    /** Same operators as `.where()`: `$gt`, `$in`, `$like`, `$between`, `$isNull`, `$contains`, `$or`, ... */
     where?: Record<string, any>;
     orderBy?: Record<string, 'asc' | 'desc'>;
     limit?: number;
     offset?: number;
     groupBy?: (AnyColumn | undefined)[];
+    /** Conditions on grouped rows, keyed by select alias (`{ n: { $gt: 1 } }`) or column. */
+    having?: Record<string, any>;
+    distinct?: boolean;
 }
 
 // ---------- Proxy Query Compiler ----------
 
+const AGGREGATES: Record<string, string> = { $count: 'COUNT', $sum: 'SUM', $avg: 'AVG', $min: 'MIN', $max: 'MAX' };
+
 function isColumnNode(val: any): val is ColumnNode {
     return val && typeof val === 'object' && val._type === 'COL';
 }
 
+/** `{ $sum: col }` → `['$sum', col]`, or null for anything else. */
+function asAggregate(val: any): [string, ColumnNode | '*'] | null {
+    if (!val || typeof val !== 'object' || isColumnNode(val)) return null;
+    const keys = Object.keys(val);
+    if (keys.length !== 1 || !(keys[0]! in AGGREGATES)) return null;
+    return [keys[0]!, val[keys[0]!]];
+}
+
+/**
+ * Compile a where/having object. `resolve` maps a key to its table alias and column
+ * (no alias for a select alias); each condition is built by `buildWhereClause`.
+ */
+function compileConditions(
+    conditions: Record<string, any>,
+    resolve: (key: string) => { alias?: string; column: string },
+    params: any[],
+): string[] {
+    const parts: string[] = [];
+    for (const [key, value] of Object.entries(conditions)) {
+        if (key === '$or') {
+            if (!Array.isArray(value)) throw new QueryCompileError('$or requires an array of conditions');
+            const branches = value.map(b => compileConditions(b, resolve, params)).filter(b => b.length > 0);
+            if (branches.length > 0) parts.push(`(${branches.map(b => `(${b.join(' AND ')})`).join(' OR ')})`);
+            continue;
+        }
+        if (key.startsWith('$')) throw new QueryCompileError(`Unsupported where operator: ${key}`);
+
+        const { alias, column } = resolve(key);
+        if (isColumnNode(value)) {
+            parts.push(`${alias ? qRef(alias, column) : q(column)} = ${qRef(value.alias, value.column)}`);
+            continue;
+        }
+        // An array is `$in`; several operators on one column are AND-ed
+        const conds = Array.isArray(value) ? [{ $in: value }]
+            : typeof value === 'object' && value !== null && !(value instanceof Date)
+                ? Object.entries(value).map(([op, operand]) => ({ [op]: operand }))
+                : [value];
+        for (const cond of conds) {
+            const { clause, values } = buildWhereClause({ [column]: cond }, alias);
+            parts.push(clause.replace(/^WHERE /, ''));
+            params.push(...values);
+        }
+    }
+    return parts;
+}
+
 export function compileProxyQuery(
     queryResult: ProxyQueryResult,
     aliasMap: Map<string, AliasEntry[]>,
@@ -144,7 +210,13 @@ export function compileProxyQuery(
     // SELECT
     const selectParts: string[] = [];
     for (const [outputName, colOrValue] of Object.entries(queryResult.select)) {
-        if (isColumnNode(colOrValue)) {
+        const aggregate = asAggregate(colOrValue);
+        if (aggregate) {
+            const [fn, col] = aggregate;
+            const arg = col === '*' ? '*' : isColumnNode(col) ? qRef(col.alias, col.column) : null;
+            if (!arg || (arg === '*' && fn !== '$count')) throw new QueryCompileError(`${fn} in select '${outputName}' needs a column`);
+            selectParts.push(`${AGGREGATES[fn]}(${arg}) AS ${q(outputName)}`);
+        } else if (isColumnNode(colOrValue)) {
             if (outputName === colOrValue.column) {
                 selectParts.push(qRef(colOrValue.alias, colOrValue.column));
             } else {
@@ -158,104 +230,72 @@ export function compileProxyQuery(
 
     // FROM / JOIN
     const allAliases = [...tablesUsed.values()];
-    if (allAliases.length === 0) throw new Error('No tables referenced in query.');
+    if (allAliases.length === 0) throw new QueryCompileError('No tables referenced in query.');
 
     const primaryAlias = allAliases[0]!;
-    let sql = `SELECT ${selectParts.join(', ')} FROM ${q(primaryAlias.tableName)} ${q(primaryAlias.alias)}`;
+    let sql = `SELECT ${queryResult.distinct ? 'DISTINCT ' : ''}${selectParts.join(', ')} FROM ${q(primaryAlias.tableName)} ${q(primaryAlias.alias)}`;
 
-    if (queryResult.join) {
-        const joins: [ColumnNode, ColumnNode][] = Array.isArray(queryResult.join[0])
-            ? queryResult.join as [ColumnNode, ColumnNode][]
-            : [queryResult.join as [ColumnNode, ColumnNode]];
+    // Each pair brings in the one table not joined yet, so joins can chain: a → b → c
+    const joined = new Set([primaryAlias.alias]);
+    const addJoins = (pairs: JoinPairs | undefined, keyword: string) => {
+        if (!pairs) return;
+        const list: [ColumnNode, ColumnNode][] = Array.isArray(pairs[0])
+            ? pairs as [ColumnNode, ColumnNode][]
+            : [pairs as [ColumnNode, ColumnNode]];
 
-        for (const [left, right] of joins) {
+        for (const [left, right] of list) {
             const leftTable = tablesUsed.get(left.alias);
             const rightTable = tablesUsed.get(right.alias);
-            if (!leftTable || !rightTable) throw new Error('Join references unknown table alias.');
-            const joinAlias = leftTable.alias === primaryAlias.alias ? rightTable : leftTable;
-            sql += ` JOIN ${q(joinAlias.tableName)} ${q(joinAlias.alias)} ON ${qRef(left.alias, left.column)} = ${qRef(right.alias, right.column)}`;
+            if (!leftTable || !rightTable) throw new QueryCompileError('Join references unknown table alias.');
+            const joinAlias = joined.has(leftTable.alias) ? rightTable : leftTable;
+            if (joined.has(joinAlias.alias)) throw new QueryCompileError(`Join on ${left.column} = ${right.column} adds no new table.`);
+            if (!joined.has(joinAlias === leftTable ? rightTable.alias : leftTable.alias)) {
+                throw new QueryCompileError(`Join on ${left.column} = ${right.column} doesn't connect to a joined table.`);
+            }
+            joined.add(joinAlias.alias);
+            sql += ` ${keyword} ${q(joinAlias.tableName)} ${q(joinAlias.alias)} ON ${qRef(left.alias, left.column)} = ${qRef(right.alias, right.column)}`;
         }
-    }
+    };
+    addJoins(queryResult.join, 'JOIN');
+    addJoins(queryResult.leftJoin, 'LEFT JOIN');
+
+    // `"t2"."name"` keys (computed from a column) or a plain column of the first table
+    const resolveColumn = (key: string): { alias?: string; column: string } => {
+        const quotedMatch = key.match(/^"([^"]+)"\."([^"]+)"$/);
+        if (quotedMatch && tablesUsed.has(quotedMatch[1]!)) return { alias: quotedMatch[1]!, column: quotedMatch[2]! };
+        return { alias: primaryAlias.alias, column: key };
+    };
+    // ...where a select alias (an aggregate, say) wins for HAVING and ORDER BY
+    const resolveOutput = (key: string): { alias?: string; column: string } => key in queryResult.select ? { column: key } : resolveColumn(key);
 
     // WHERE
-    if (queryResult.where && Object.keys(queryResult.where).length > 0) {
-        const whereParts: string[] = [];
-
-        for (const [key, value] of Object.entries(queryResult.where)) {
-            let fieldRef: string;
-            const quotedMatch = key.match(/^"([^"]+)"\."([^"]+)"$/);
-            if (quotedMatch && tablesUsed.has(quotedMatch[1]!)) {
-                fieldRef = key;
-            } else {
-                fieldRef = qRef(primaryAlias.alias, key);
-            }
-
-            if (isColumnNode(value)) {
-                whereParts.push(`${fieldRef} = ${qRef(value.alias, value.column)}`);
-            } else if (Array.isArray(value)) {
-                if (value.length === 0) {
-                    whereParts.push('1 = 0');
-                } else {
-                    const placeholders = value.map(() => '?').join(', ');
-                    whereParts.push(`${fieldRef} IN (${placeholders})`);
-                    params.push(...value);
-                }
-            } else if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
-                for (const [pOp, operand] of Object.entries(value)) {
-                    if (pOp === '$in') {
-                        const arr = operand as any[];
-                        if (arr.length === 0) {
-                            whereParts.push('1 = 0');
-                        } else {
-                            const placeholders = arr.map(() => '?').join(', ');
-                            whereParts.push(`${fieldRef} IN (${placeholders})`);
-                            params.push(...arr);
-                        }
-                        continue;
-                    }
-                    const opMap: Record<string, string> = {
-                        $gt: '>', $gte: '>=', $lt: '<', $lte: '<=', $ne: '!=',
-                    };
-                    const sqlOp = opMap[pOp];
-                    if (!sqlOp) throw new Error(`Unsupported where operator: ${pOp}`);
-                    whereParts.push(`${fieldRef} ${sqlOp} ?`);
-                    params.push(operand);
-                }
-            } else {
-                whereParts.push(`${fieldRef} = ?`);
-                params.push(value instanceof Date ? value.toISOString() : value);
-            }
-        }
+    if (queryResult.where) {
+        const whereParts = compileConditions(queryResult.where, resolveColumn, params);
+        if (whereParts.length > 0) sql += ` WHERE ${whereParts.join(' AND ')}`;
+    }
 
-        if (whereParts.length > 0) {
-            sql += ` WHERE ${whereParts.join(' AND ')}`;
-        }
+    // GROUP BY / HAVING
+    if (queryResult.groupBy && queryResult.groupBy.length > 0) {
+        const parts = queryResult.groupBy.filter(Boolean).map(col => qRef(col!.alias, col!.column));
+        sql += ` GROUP BY ${parts.join(', ')}`;
+    }
+    if (queryResult.having) {
+        const havingParts = compileConditions(queryResult.having, resolveOutput, params);
+        if (havingParts.length > 0) sql += ` HAVING ${havingParts.join(' AND ')}`;
     }
 
     // ORDER BY
     if (queryResult.orderBy) {
         const parts: string[] = [];
         for (const [key, dir] of Object.entries(queryResult.orderBy)) {
-            let fieldRef: string;
-            const quotedMatch = key.match(/^"([^"]+)"\."([^"]+)"$/);
-            if (quotedMatch && tablesUsed.has(quotedMatch[1]!)) {
-                fieldRef = key;
-            } else {
-                fieldRef = qRef(primaryAlias.alias, key);
-            }
-            parts.push(`${fieldRef} ${dir.toUpperCase()}`);
+            const { alias, column } = resolveOutput(key);
+            parts.push(`${alias ? qRef(alias, column) : q(column)} ${dir.toUpperCase()}`);
         }
         if (parts.length > 0) {
             sql += ` ORDER BY ${parts.join(', ')}`;
         }
     }
 
-    // GROUP BY
-    if (queryResult.groupBy && queryResult.groupBy.length > 0) {
-        const parts = queryResult.groupBy.filter(Boolean).map(col => qRef(col!.alias, col!.column));
-        sql += ` GROUP BY ${parts.join(', ')}`;
-    }
-
     // LIMIT / OFFSET
     if (queryResult.limit !== undefined) sql += ` LIMIT ${queryResult.limit}`;
     if (queryResult.offset !== undefined) sql += ` OFFSET ${queryResult.offset}`;
@@ -263,6 +303,29 @@ export function compileProxyQuery(
     return { sql, params };
 }
 
+/**
+ * Decode selected columns with their table's schema (dates, booleans, JSON, bigints).
+ * `$min`/`$max` keep the column's type; other aggregates and literals pass through.
+ */
+function createRowDecoder(
+    schemas: Record<string, z.ZodType<any>>,
+    select: ProxyQueryResult['select'],
+): (row: Record<string, any>) => Record<string, any> {
+    const sources: [string, ColumnNode][] = [];
+    for (const [outputName, value] of Object.entries(select)) {
+        const aggregate = asAggregate(value);
+        const col = aggregate ? (aggregate[0] === '$min' || aggregate[0] === '$max' ? aggregate[1] : null) : value;
+        if (isColumnNode(col) && schemas[col.table]) sources.push([outputName, col]);
+    }
+    return row => {
+        for (const [outputName, col] of sources) {
+            if (!(outputName in row)) continue;
+            row[outputName] = transformFromStorage({ [col.column]: row[outputName] }, schemas[col.table]!)[col.column];
+        }
+        return row;
+    };
+}
+
 /** The main `db.query(c => {...})` entry point. */
 export function executeProxyQuery<T>(
     schemas: Record<string, z.ZodType<any>>,
@@ -272,5 +335,6 @@ export function executeProxyQuery<T>(
     const { proxy, aliasMap } = createContextProxy(schemas);
     const queryResult = callback(proxy);
     const { sql, params } = compileProxyQuery(queryResult, aliasMap);
-    return executor(sql, params);
+    const decode = createRowDecoder(schemas, queryResult.select);
+    return executor(sql, params).map(row => decode(row as Record<string, any>) as T);
 }
@@ -11,8 +11,13 @@
  * the createQueryBuilder factory that wires executors to the database.
  */
 
-import { transformFromStorage } from './schema';
+import { transformFromStorage, hasBigIntFields } from './schema';
+import { jsonColumns, jsonExtractSql, jsonIndexColumn, omitJsonIndexColumns } from './json';
 import type { DatabaseContext } from './context';
+import { withSqliteErrors } from './errors';
+import { rowKey } from './keys';
+import type { JoinResolution, EagerLoader, RelationSubquery, TableInfo } from './builder';
+import { eagerParentSql, type EagerWindow } from './iqo';
 
 // Re-export all public API from split modules
 export { compileIQO, OPERATOR_MAP, transformValueForStorage } from './iqo';
@@ -22,12 +27,23 @@ export { QueryBuilder } from './builder';
 import { QueryBuilder } from './builder';
 
 export { ColumnNode, createContextProxy, compileProxyQuery, executeProxyQuery } from './proxy';
-export type { ProxyQueryResult } from './proxy';
+export type { ProxyQueryResult, ProxyAggregate } from './proxy';
 
 // =============================================================================
 // QueryBuilder Factory
 // =============================================================================
 
+/** Group eager-loaded rows by parent key, keeping query order. */
+function groupRows(pairs: [unknown, any][]): Map<number | string, any[]> {
+    const groups = new Map<number | string, any[]>();
+    for (const [rawKey, row] of pairs) {
+        const key = (typeof rawKey === 'bigint' ? Number(rawKey) : rawKey) as number | string;
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(row);
+    }
+    return groups;
+}
+
 /**
  * Create a QueryBuilder instance wired to the database.
  *
@@ -37,21 +53,56 @@ export type { ProxyQueryResult } from './proxy';
  */
 export function createQueryBuilder(ctx: DatabaseContext, entityName: string, initialCols: string[]): QueryBuilder<any> {
     const schema = ctx.schemas[entityName]!;
+    const bigInts = hasBigIntFields(schema);
 
     const executor = (sql: string, params: any[], raw: boolean): any[] => {
         return ctx._m(`SQL: ${sql.slice(0, 60)}`, () => {
-            const rows = ctx._stmt(sql).all(...params);
+            // Raw results (aggregates, joins, pluck) keep plain numbers
+            const rows = withSqliteErrors(entityName, () => ctx._stmt(sql, bigInts && !raw).all(...params));
             if (raw) return rows;
             return rows.map((row: any) => ctx.attachMethods(entityName, transformFromStorage(row, schema)));
         });
     };
 
+    // Uncached statement: the caller may run the same query again mid-iteration
+    const rowIterator = function* (sql: string, params: any[], raw: boolean): Generator<any> {
+        const stmt = ctx._m(`SQL: ${sql.slice(0, 60)}`, () => withSqliteErrors(entityName, () => ctx.db.prepare(sql)));
+        (stmt as any).safeIntegers(bigInts && !raw);
+        try {
+            const rows = stmt.iterate(...params);
+            while (true) {
+                const next = withSqliteErrors(entityName, () => rows.next());
+                if (next.done) return;
+                yield raw ? next.value : ctx.attachMethods(entityName, transformFromStorage(next.value as any, schema));
+            }
+        } finally {
+            stmt.finalize();
+        }
+    };
+
     const singleExecutor = (sql: string, params: any[], raw: boolean): any | null => {
         const results = executor(sql, params, raw);
         return results.length > 0 ? results[0] : null;
     };
 
-    const joinResolver = (fromTable: string, toTable: string): { fk: string; pk: string } | null => {
+    const joinResolver = (fromTable: string, target: string): JoinResolution | null => {
+        // A nav name (`manager`, `reports`) picks that exact relation
+        const named = ctx.relationships.find(r => r.from === fromTable && r.relationshipField === target);
+        // Polymorphic relations have no fixed table to join
+        if (named?.morph) return null;
+        if (named) {
+            // Alias renamed relations, so self-joins (users → manager) stay unambiguous
+            const alias = named.relationshipField !== named.to ? named.relationshipField : undefined;
+            if (named.type === 'many-to-many') {
+                const { table, sourceKey, targetKey } = named.through!;
+                return { table: named.to, alias, fk: 'id', pk: 'id', through: { table, fromCol: sourceKey, toCol: targetKey } };
+            }
+            return named.type === 'belongs-to'
+                ? { table: named.to, alias, fk: named.foreignKey, pk: 'id' }
+                : { table: named.to, alias, fk: 'id', pk: named.foreignKey };
+        }
+
+        const toTable = target;
         const belongsTo = ctx.relationships.find(
             r => r.type === 'belongs-to' && r.from === fromTable && r.to === toTable
         );
@@ -60,79 +111,172 @@ export function createQueryBuilder(ctx: DatabaseContext, entityName: string, ini
             r => r.type === 'belongs-to' && r.from === toTable && r.to === fromTable
         );
         if (reverse) return { fk: 'id', pk: reverse.foreignKey };
+        const manyToMany = ctx.relationships.find(
+            r => r.type === 'many-to-many' && r.from === fromTable && r.to === toTable
+        );
+        if (manyToMany) {
+            const { table, sourceKey, targetKey } = manyToMany.through!;
+            return { fk: 'id', pk: 'id', through: { table, fromCol: sourceKey, toCol: targetKey } };
+        }
         return null;
     };
 
+    // `where({ author: someAuthor })` → `author_id = <its key>`, whatever kind of key the parent table has
     const conditionResolver = (conditions: Record<string, any>): Record<string, any> => {
         const resolved: Record<string, any> = {};
         for (const [key, value] of Object.entries(conditions)) {
-            if (value && typeof value === 'object' && typeof value.id === 'number' && typeof value.delete === 'function') {
-                const fkCol = key + '_id';
-                const rel = ctx.relationships.find(
-                    r => r.type === 'belongs-to' && r.from === entityName && r.foreignKey === fkCol
-                );
+            if (value && typeof value === 'object' && typeof value.delete === 'function') {
+                const belongsTo = ctx.relationships.filter(r => r.type === 'belongs-to' && r.from === entityName);
+                const rel = belongsTo.find(r => r.relationshipField === key)
+                    ?? belongsTo.find(r => r.foreignKey === key + '_id')
+                    ?? belongsTo.find(r => r.to === key + 's')
+                    ?? belongsTo.find(r => r.to === key);
                 if (rel) {
-                    resolved[fkCol] = value.id;
-                } else {
-                    const relByNav = ctx.relationships.find(
-                        r => r.type === 'belongs-to' && r.from === entityName && r.to === key + 's'
-                    ) || ctx.relationships.find(
-                        r => r.type === 'belongs-to' && r.from === entityName && r.to === key
-                    );
-                    if (relByNav) {
-                        resolved[relByNav.foreignKey] = value.id;
-                    } else {
-                        resolved[key] = value;
-                    }
+                    resolved[rel.foreignKey] = rowKey(ctx, rel.to, value);
+                    continue;
                 }
-            } else {
-                resolved[key] = value;
             }
+            resolved[key] = value;
         }
         return resolved;
     };
 
-    const eagerLoader = (parentTable: string, relation: string, parentIds: number[]): { key: string; groups: Map<number, any[]> } | null => {
-        const hasMany = ctx.relationships.find(
-            r => r.type === 'one-to-many' && r.from === parentTable && r.relationshipField === relation
-        );
-        if (hasMany) {
-            const belongsTo = ctx.relationships.find(
-                r => r.type === 'belongs-to' && r.from === hasMany.to && r.to === parentTable
-            );
-            if (belongsTo) {
-                const fk = belongsTo.foreignKey;
-                const placeholders = parentIds.map(() => '?').join(', ');
-                const childRows = ctx._stmt(
-                    `SELECT * FROM ${hasMany.to} WHERE ${fk} IN (${placeholders})`
-                ).all(...parentIds) as any[];
-
-                const groups = new Map<number, any[]>();
-                const childSchema = ctx.schemas[hasMany.to]!;
-                for (const rawRow of childRows) {
-                    const entity = ctx.attachMethods(
-                        hasMany.to,
-                        transformFromStorage(rawRow, childSchema)
-                    );
-                    const parentId = rawRow[fk] as number;
-                    if (!groups.has(parentId)) groups.set(parentId, []);
-                    groups.get(parentId)!.push(entity);
+    const eagerLoader: EagerLoader = (parentTable, relation, parents, configure) => {
+        const rel = ctx.relationships.find(r => r.from === parentTable && r.relationshipField === relation);
+        if (!rel) return null;
+
+        /**
+         * Rows of `table` whose `window.parent` column is in `parentKeys`, paired with
+         * that key — soft deletes filtered, caller constraints and per-parent limits applied.
+         */
+        const related = (table: string, window: EagerWindow, parentKeys: unknown[], filter?: (q: QueryBuilder<any>) => void): [unknown, any][] => {
+            const q = createQueryBuilder(ctx, table, []);
+            const keys = [...new Set(parentKeys)];
+            q.whereRaw(`${eagerParentSql(`"${table}"`, window)} IN (${keys.map(() => '?').join(', ')})`, keys);
+            filter?.(q);
+            configure(q, window);
+            return (q.all() as any[]).map(row => {
+                const key = row._eager_parent;
+                delete row._eager_parent;
+                delete row._eager_rank;
+                return [key, row];
+            });
+        };
+        const present = (v: unknown): boolean => v !== null && v !== undefined;
+
+        switch (rel.type) {
+            case 'one-to-many':
+            case 'one-to-one':
+            case 'morph-many': {
+                // post.comments: comments WHERE post_id IN (...) [AND commentable_type = 'posts']
+                const parentIds = parents.map(p => p.id).filter(present);
+                if (parentIds.length === 0) return null;
+                const typeFilter = rel.morph ? (q: QueryBuilder<any>) => q.whereIn(rel.morph!.typeColumn, [parentTable]) : undefined;
+                const groups = groupRows(related(rel.to, { parent: rel.foreignKey }, parentIds, typeFilter));
+                return { key: relation, groups, single: rel.type === 'one-to-one' };
+            }
+            case 'belongs-to': {
+                // book.author: authors WHERE id IN (book.author_id, ...)
+                const fkValues = parents.map(p => p[rel.foreignKey]).filter(present);
+                return {
+                    key: relation,
+                    groups: groupRows(fkValues.length > 0 ? related(rel.to, { parent: 'id' }, fkValues) : []),
+                    single: true,
+                    parentKey: p => present(p[rel.foreignKey]) ? p[rel.foreignKey] : null,
+                };
+            }
+            case 'morph-to': {
+                // One query per parent table named in the type column
+                const { typeColumn, types } = rel.morph!;
+                const idsByType = new Map<string, unknown[]>();
+                for (const p of parents) {
+                    if (!types.includes(p[typeColumn]) || !present(p[rel.foreignKey])) continue;
+                    if (!idsByType.has(p[typeColumn])) idsByType.set(p[typeColumn], []);
+                    idsByType.get(p[typeColumn])!.push(p[rel.foreignKey]);
+                }
+                const pairs: [string, any][] = [];
+                for (const [type, ids] of idsByType) {
+                    for (const [id, row] of related(type, { parent: 'id' }, ids)) pairs.push([`${type}:${id}`, row]);
                 }
-                return { key: relation, groups };
+                return {
+                    key: relation,
+                    groups: groupRows(pairs),
+                    single: true,
+                    parentKey: p => present(p[rel.foreignKey]) ? `${p[typeColumn]}:${p[rel.foreignKey]}` : null,
+                };
+            }
+            case 'many-to-many': {
+                // post.tags: tags JOIN post_tags WHERE post_tags.post_id IN (...), one row per (post, tag)
+                const parentIds = parents.map(p => p.id).filter(present);
+                if (parentIds.length === 0) return null;
+                const { table, sourceKey, targetKey } = rel.through!;
+                const pairs = related(rel.to, { parent: sourceKey, through: { table, key: targetKey } }, parentIds);
+                return { key: relation, groups: groupRows(pairs) };
             }
         }
+    };
 
-        const belongsTo = ctx.relationships.find(
-            r => r.type === 'belongs-to' && r.from === parentTable && r.relationshipField === relation
-        );
-        if (belongsTo) {
-            return null;
+    const relationResolver = (fromTable: string, relation: string): RelationSubquery | null => {
+        const rel = ctx.relationships.find(r => r.from === fromTable && r.relationshipField === relation);
+        if (!rel || rel.type === 'morph-to') return null;
+        const query = createQueryBuilder(ctx, rel.to, []);
+        const fk = rel.foreignKey;
+
+        switch (rel.type) {
+            case 'belongs-to':
+                return { table: rel.to, query, correlate: (outer, inner) => ({ sql: `${inner}."id" = ${outer}."${fk}"`, params: [] }) };
+            case 'one-to-many':
+            case 'one-to-one':
+                return { table: rel.to, query, correlate: (outer, inner) => ({ sql: `${inner}."${fk}" = ${outer}."id"`, params: [] }) };
+            case 'morph-many':
+                return {
+                    table: rel.to, query,
+                    correlate: (outer, inner) => ({
+                        sql: `${inner}."${fk}" = ${outer}."id" AND ${inner}."${rel.morph!.typeColumn}" = ?`,
+                        params: [fromTable],
+                    }),
+                };
+            case 'many-to-many': {
+                const { table, sourceKey, targetKey } = rel.through!;
+                return {
+                    table: rel.to, query,
+                    correlate: (outer, inner) => ({
+                        sql: `${inner}."id" IN (SELECT "${targetKey}" FROM "${table}" WHERE "${table}"."${sourceKey}" = ${outer}."id")`,
+                        params: [],
+                    }),
+                };
+            }
         }
+    };
 
-        return null;
+    // 'settings.theme' → the indexed generated column, else json_extract() on the JSON column
+    const json = new Set(jsonColumns(schema));
+    const indexedPaths = new Set(ctx.jsonIndexes[entityName] ?? []);
+    const fieldResolver = (field: string): string | null => {
+        const column = field.split('.')[0]!;
+        if (!field.includes('.') || !json.has(column)) return null;
+        return indexedPaths.has(field) ? jsonIndexColumn(field) : jsonExtractSql(`"${entityName}"."${column}"`, field);
+    };
+
+    // Any real table can be joined; only schema tables have values to decode
+    const tableInfo = (table: string): TableInfo | null => {
+        const columns = (ctx.db.query(`PRAGMA table_info("${table}")`).all() as { name: string }[]).map(c => c.name);
+        if (columns.length === 0) return null;
+        const tableSchema = ctx.schemas[table];
+        return {
+            columns,
+            key: ctx.keys[table]?.columns ?? ['id'],
+            fromStorage: row => {
+                omitJsonIndexColumns(row, ctx.jsonIndexes[table]);
+                return tableSchema ? transformFromStorage(row, tableSchema) : row;
+            },
+        };
     };
 
-    const builder = new QueryBuilder(entityName, executor, singleExecutor, joinResolver, conditionResolver, eagerLoader);
+    const builder = new QueryBuilder(entityName, executor, singleExecutor, {
+        joinResolver, conditionResolver, eagerLoader, relationResolver,
+        searchColumns: ctx.search[entityName] ?? null, fieldResolver, rowIterator, tableInfo,
+    });
     if (initialCols.length > 0) builder.select(...initialCols);
 
     // Auto-filter soft-deleted rows unless withTrashed() is called
@@ -2,8 +2,10 @@
  * schema.ts — Schema parsing, relationship detection, and DDL helpers
  */
 import { z } from 'zod';
-import type { SchemaMap, ZodType, Relationship } from './types';
+import type { SchemaMap, ZodType, Relationship, RelationsConfig, ThroughRelation, PolymorphicRelation, ReferentialAction } from './types';
 import { asZodObject } from './types';
+import { hasIdColumn, type KeySpec } from './keys';
+import { jsonExtractSql, jsonIndexColumn } from './json';
 
 /**
  * Parse declarative `relations` config into Relationship[] objects.
@@ -12,9 +14,24 @@ import { asZodObject } from './types';
  * Example: `{ books: { author_id: 'authors' } }` produces:
  *   - books → authors  (belongs-to, FK = author_id, nav = author)
  *   - authors → books  (one-to-many, nav = books)
+ *
+ * The object form names both sides and can make the relation one-to-one:
+ * `{ users: { manager_id: { to: 'users', as: 'manager', inverse: 'reports' } } }` produces:
+ *   - users → users  (belongs-to, FK = manager_id, nav = manager)
+ *   - users → users  (one-to-many, FK = manager_id, nav = reports)
+ *
+ * Many-to-many entries are keyed by nav name instead:
+ * `{ posts: { tags: { through: 'post_tags' } } }` produces:
+ *   - posts → tags  (many-to-many via post_tags.post_id / post_tags.tag_id, nav = tags)
+ *   - tags → posts  (the inverse, nav = posts)
+ *
+ * Polymorphic entries are keyed by nav name too:
+ * `{ comments: { commentable: { polymorphic: ['posts', 'videos'] } } }` produces:
+ *   - comments → posts | videos  (morph-to via commentable_type / commentable_id, nav = commentable)
+ *   - posts → comments, videos → comments  (morph-many, nav = comments)
  */
 export function parseRelationsConfig(
-    relations: Record<string, Record<string, string>>,
+    relations: RelationsConfig,
     schemas: SchemaMap,
 ): Relationship[] {
     const relationships: Relationship[] = [];
@@ -24,13 +41,23 @@ export function parseRelationsConfig(
         if (!schemas[fromTable]) {
             throw new Error(`relations: unknown table '${fromTable}'`);
         }
-        for (const [fkColumn, toTable] of Object.entries(rels)) {
+        for (const [fkColumn, target] of Object.entries(rels)) {
+            if (typeof target !== 'string' && 'through' in target) {
+                addManyToMany(relationships, added, schemas, fromTable, fkColumn, target);
+                continue;
+            }
+            if (typeof target !== 'string' && 'polymorphic' in target) {
+                addPolymorphic(relationships, added, schemas, fromTable, fkColumn, target);
+                continue;
+            }
+            const fk = typeof target === 'string' ? { to: target } : target;
+            const toTable = fk.to;
             if (!schemas[toTable]) {
                 throw new Error(`relations: unknown target table '${toTable}' in ${fromTable}.${fkColumn}`);
             }
 
             // Derive navigation name: author_id → author
-            const navField = fkColumn.replace(/_id$/, '');
+            const navField = fk.as ?? fkColumn.replace(/_id$/, '');
 
             // belongs-to: books.author_id → authors
             const btKey = `${fromTable}.${fkColumn}:belongs-to`;
@@ -41,19 +68,23 @@ export function parseRelationsConfig(
                     to: toTable,
                     relationshipField: navField,
                     foreignKey: fkColumn,
+                    ...(fk.onDelete && { onDelete: fk.onDelete }),
+                    ...(fk.onUpdate && { onUpdate: fk.onUpdate }),
                 });
                 added.add(btKey);
             }
 
             // auto-infer one-to-many inverse: authors.books → books[]
-            const otmKey = `${toTable}.${fromTable}:one-to-many`;
+            if (fk.inverse === false) continue;
+            const inverseField = fk.inverse ?? fromTable; // e.g. 'books'
+            const otmKey = `${toTable}.${inverseField}:one-to-many`;
             if (!added.has(otmKey)) {
                 relationships.push({
-                    type: 'one-to-many',
+                    type: fk.kind === 'one' ? 'one-to-one' : 'one-to-many',
                     from: toTable,
                     to: fromTable,
-                    relationshipField: fromTable, // e.g. 'books'
-                    foreignKey: '',
+                    relationshipField: inverseField,
+                    foreignKey: fkColumn,
                 });
                 added.add(otmKey);
             }
@@ -63,6 +94,126 @@ export function parseRelationsConfig(
     return relationships;
 }
 
+/** `posts` → `post`, `categories` → `category`. Used for default junction columns. */
+function singular(table: string): string {
+    if (table.endsWith('ies')) return table.slice(0, -3) + 'y';
+    if (table.endsWith('s') && !table.endsWith('ss')) return table.slice(0, -1);
+    return table;
+}
+
+/** Add a many-to-many relation and, unless it is self-referencing, its inverse. */
+function addManyToMany(
+    relationships: Relationship[],
+    added: Set<string>,
+    schemas: SchemaMap,
+    fromTable: string,
+    navField: string,
+    rel: ThroughRelation,
+): void {
+    const toTable = rel.to ?? navField;
+    if (!schemas[toTable]) {
+        throw new Error(`relations: unknown target table '${toTable}' in ${fromTable}.${navField}`);
+    }
+    if (!rel.through) {
+        throw new Error(`relations: ${fromTable}.${navField} needs a 'through' junction table`);
+    }
+    const sourceKey = rel.sourceKey ?? `${singular(fromTable)}_id`;
+    const targetKey = rel.targetKey ?? `${singular(toTable)}_id`;
+    if (sourceKey === targetKey) {
+        throw new Error(`relations: ${fromTable}.${navField} needs distinct sourceKey/targetKey columns on '${rel.through}'`);
+    }
+
+    const key = `${fromTable}.${navField}:many-to-many`;
+    if (added.has(key)) return;
+    added.add(key);
+    relationships.push({
+        type: 'many-to-many',
+        from: fromTable,
+        to: toTable,
+        relationshipField: navField,
+        foreignKey: '',
+        through: { table: rel.through, sourceKey, targetKey },
+    });
+
+    // Self-referencing relations (users.friends) have no separate inverse side
+    const inverseKey = `${toTable}.${fromTable}:many-to-many`;
+    if (toTable === fromTable || added.has(inverseKey)) return;
+    added.add(inverseKey);
+    relationships.push({
+        type: 'many-to-many',
+        from: toTable,
+        to: fromTable,
+        relationshipField: fromTable,
+        foreignKey: '',
+        through: { table: rel.through, sourceKey: targetKey, targetKey: sourceKey },
+    });
+}
+
+/** Add a polymorphic relation and its inverse on every parent table. */
+function addPolymorphic(
+    relationships: Relationship[],
+    added: Set<string>,
+    schemas: SchemaMap,
+    fromTable: string,
+    navField: string,
+    rel: PolymorphicRelation,
+): void {
+    const typeColumn = rel.typeColumn ?? `${navField}_type`;
+    const idColumn = rel.idColumn ?? `${navField}_id`;
+    const fields = new Set(getStorableFields(schemas[fromTable]!).map(f => f.name));
+    for (const column of [typeColumn, idColumn]) {
+        if (!fields.has(column)) throw new Error(`relations: ${fromTable}.${navField} needs a '${column}' column in the '${fromTable}' schema`);
+    }
+    const types = [...rel.polymorphic];
+    if (types.length === 0) throw new Error(`relations: ${fromTable}.${navField} needs at least one polymorphic table`);
+    for (const toTable of types) {
+        if (!schemas[toTable]) throw new Error(`relations: unknown target table '${toTable}' in ${fromTable}.${navField}`);
+    }
+
+    const key = `${fromTable}.${navField}:morph-to`;
+    if (added.has(key)) return;
+    added.add(key);
+    relationships.push({
+        type: 'morph-to',
+        from: fromTable,
+        to: '',
+        relationshipField: navField,
+        foreignKey: idColumn,
+        morph: { typeColumn, types },
+    });
+
+    if (rel.inverse === false) return;
+    const inverseField = rel.inverse ?? fromTable; // e.g. 'comments'
+    for (const toTable of types) {
+        const inverseKey = `${toTable}.${inverseField}:morph-many`;
+        if (added.has(inverseKey)) continue;
+        added.add(inverseKey);
+        relationships.push({
+            type: 'morph-many',
+            from: toTable,
+            to: fromTable,
+            relationshipField: inverseField,
+            foreignKey: idColumn,
+            morph: { typeColumn, types: [toTable] },
+        });
+    }
+}
+
+/**
+ * CREATE TABLE for a junction table the schemas don't declare: the two key
+ * columns, typed after the tables they reference, cascading on delete and
+ * together forming the primary key.
+ */
+export function junctionTableSql(rel: Relationship, keys: Record<string, KeySpec>): string {
+    const { table, sourceKey, targetKey } = rel.through!;
+    const keyType = (t: string) => keys[t]!.autoincrement ? 'INTEGER' : 'TEXT';
+    return `CREATE TABLE IF NOT EXISTS "${table}" (`
+        + `"${sourceKey}" ${keyType(rel.from)} NOT NULL, "${targetKey}" ${keyType(rel.to)} NOT NULL, `
+        + `PRIMARY KEY ("${sourceKey}", "${targetKey}"), `
+        + `FOREIGN KEY ("${sourceKey}") REFERENCES "${rel.from}"(id) ON DELETE CASCADE, `
+        + `FOREIGN KEY ("${targetKey}") REFERENCES "${rel.to}"(id) ON DELETE CASCADE)`;
+}
+
 /** Get storable (non-id) fields from a schema */
 export function getStorableFields(schema: z.ZodType<any>): { name: string; type: ZodType }[] {
     return Object.entries(asZodObject(schema).shape)
@@ -70,22 +221,294 @@ export function getStorableFields(schema: z.ZodType<any>): { name: string; type:
         .map(([name, type]) => ({ name, type: type as ZodType }));
 }
 
-/** Map a Zod type to its SQLite column type */
+/**
+ * Map a Zod type to its SQLite column type.
+ * `z.number().int()`, `z.bigint()` and `z.boolean()` are INTEGER; any other `z.number()` is REAL.
+ */
 export function zodTypeToSqlType(zodType: ZodType): string {
-    if (zodType instanceof z.ZodOptional) {
-        zodType = zodType._def.innerType;
-    }
-    if (zodType instanceof z.ZodDefault) {
+    while (zodType instanceof z.ZodOptional || zodType instanceof z.ZodNullable || zodType instanceof z.ZodDefault) {
         zodType = zodType._def.innerType;
     }
     if (zodType instanceof z.ZodString || zodType instanceof z.ZodDate) return 'TEXT';
-    if (zodType instanceof z.ZodNumber || zodType instanceof z.ZodBoolean) return 'INTEGER';
+    if (zodType instanceof z.ZodNumber) return zodType.isInt ? 'INTEGER' : 'REAL';
+    if (zodType instanceof z.ZodBigInt || zodType instanceof z.ZodBoolean) return 'INTEGER';
     if (zodType instanceof z.ZodEnum) return 'TEXT';
     if ((zodType as any)._def.typeName === 'ZodInstanceOf' && (zodType as any)._def.type === Buffer) return 'BLOB';
     // z.object(), z.array(), z.record() → stored as JSON TEXT
     return 'TEXT';
 }
 
+/**
+ * SQLite type affinity of a declared column type, following the rules in
+ * https://www.sqlite.org/datatype3.html#determination_of_column_affinity —
+ * so `INT`/`BIGINT` compare equal to `INTEGER`, and `DOUBLE`/`FLOAT` to `REAL`.
+ */
+export function sqlAffinity(declaredType: string): 'INTEGER' | 'TEXT' | 'BLOB' | 'REAL' | 'NUMERIC' {
+    const t = declaredType.toUpperCase();
+    if (t.includes('INT')) return 'INTEGER';
+    if (t.includes('CHAR') || t.includes('CLOB') || t.includes('TEXT')) return 'TEXT';
+    if (t.includes('BLOB') || t === '') return 'BLOB';
+    if (t.includes('REAL') || t.includes('FLOA') || t.includes('DOUB')) return 'REAL';
+    return 'NUMERIC';
+}
+
+/** True when any field is a `z.bigint()` — its rows must be read with safe integers. */
+export function hasBigIntFields(schema: z.ZodType<any>): boolean {
+    return getStorableFields(schema).some(f => unwrapField(f.type) instanceof z.ZodBigInt);
+}
+
+function unwrapField(zodType: ZodType | undefined): ZodType | undefined {
+    while (zodType instanceof z.ZodOptional || zodType instanceof z.ZodNullable || zodType instanceof z.ZodDefault) {
+        zodType = zodType._def.innerType;
+    }
+    return zodType;
+}
+
+/** A table's primary key, column definitions (excluding `id`) and table-level constraints. */
+export type TableDefinition = {
+    primaryKey: KeySpec;
+    columns: { name: string; type: string; notNull?: boolean; default?: string | null; check?: string | null; generated?: string }[];
+    constraints: string[];
+};
+
+/**
+ * Nullability and SQL DEFAULT of a Zod field.
+ *
+ * `.optional()` and `.nullable()` stay nullable. A constant `.default()` (a
+ * string, number, boolean or bigint) becomes a `DEFAULT` literal. Generated
+ * defaults (`() => crypto.randomUUID()`), objects, arrays and dates stay with
+ * Zod and leave the column nullable (raw inserts may omit it). Every other
+ * field is `NOT NULL`.
+ */
+export function zodTypeToConstraints(zodType: ZodType): { notNull: boolean; default: string | null } {
+    let nullable = false;
+    let hasDefault = false;
+    let sqlDefault: string | null = null;
+    while (zodType instanceof z.ZodOptional || zodType instanceof z.ZodNullable || zodType instanceof z.ZodDefault) {
+        if (zodType instanceof z.ZodDefault) {
+            hasDefault = true;
+            sqlDefault ??= constantDefaultSql(zodType);
+        } else {
+            nullable = true;
+        }
+        zodType = zodType._def.innerType;
+    }
+    return { notNull: !nullable && (!hasDefault || sqlDefault !== null), default: sqlDefault };
+}
+
+/** `constantDefaultSql` results per field, so a generator runs only while the first DDL is built. */
+const defaultSqlCache = new WeakMap<z.ZodDefault<any>, string | null>();
+
+/**
+ * SQL literal of a `.default()` that is a constant primitive — two calls give
+ * the same string, number, boolean or bigint — else `null`.
+ */
+function constantDefaultSql(field: z.ZodDefault<any>): string | null {
+    if (defaultSqlCache.has(field)) return defaultSqlCache.get(field)!;
+    const value = field._def.defaultValue();
+    const primitive = typeof value === 'string' || typeof value === 'boolean' || typeof value === 'bigint'
+        || (typeof value === 'number' && Number.isFinite(value));
+    const sql = primitive && field._def.defaultValue() === value ? sqlLiteral(value) : null;
+    defaultSqlCache.set(field, sql);
+    return sql;
+}
+
+/**
+ * A default that lets `ALTER TABLE ADD COLUMN ... NOT NULL` succeed on a table
+ * that already has rows: the zero value of the field (first enum member,
+ * literal, `false`, `0`, `''`, `[]`), as long as the field's own schema
+ * accepts it. Returns `null` when there is no such value.
+ */
+export function safeColumnDefault(zodType: ZodType): string | null {
+    const inner = unwrapField(zodType);
+    let candidate: unknown;
+    if (inner instanceof z.ZodEnum) candidate = inner._def.values[0];
+    else if (inner instanceof z.ZodLiteral) candidate = inner._def.value;
+    else if (inner instanceof z.ZodBoolean) candidate = false;
+    else if (inner instanceof z.ZodNumber) candidate = 0;
+    else if (inner instanceof z.ZodBigInt) candidate = 0n;
+    else if (inner instanceof z.ZodString) candidate = '';
+    else if (inner instanceof z.ZodArray) candidate = [];
+    if (candidate === undefined || !inner!.safeParse(candidate).success) return null;
+    return sqlLiteral(candidate);
+}
+
+/**
+ * `ON DELETE` action of a belongs-to foreign key: the declared one, else
+ * `SET NULL` — or `CASCADE` when the column is part of a composite key,
+ * since a row can't lose part of its own key.
+ */
+export function deleteAction(rel: Relationship, keys: Record<string, KeySpec>): ReferentialAction {
+    if (rel.onDelete) return rel.onDelete;
+    return keys[rel.from]?.columns.includes(rel.foreignKey) && !hasIdColumn(keys[rel.from]!) ? 'cascade' : 'set null';
+}
+
+/** Derive the DDL definition of a table from its Zod schema and relationships. */
+export function buildTableDefinition(
+    entityName: string,
+    schema: z.ZodType<any>,
+    relationships: Relationship[],
+    options: { timestamps: boolean; softDeletes: boolean; keys: Record<string, KeySpec>; jsonIndexes?: string[] },
+): TableDefinition {
+    const primaryKey = options.keys[entityName]!;
+    const keyColumns = new Set(hasIdColumn(primaryKey) ? [] : primaryKey.columns);
+
+    // Foreign keys take the type of the parent's id, whatever the schema declares
+    const belongsTo = relationships.filter(rel => rel.type === 'belongs-to' && rel.from === entityName);
+    const foreignKeys = new Map(belongsTo.map(rel => [rel.foreignKey, options.keys[rel.to]!.autoincrement ? 'INTEGER' : 'TEXT']));
+    const nullable = new Set(belongsTo
+        .filter(rel => deleteAction(rel, options.keys) === 'set null' || rel.onUpdate === 'set null')
+        .map(rel => rel.foreignKey));
+    for (const rel of belongsTo) {
+        if (keyColumns.has(rel.foreignKey) && nullable.has(rel.foreignKey)) {
+            throw new Error(`relations: '${entityName}.${rel.foreignKey}' is part of the primary key and can't be 'set null'`);
+        }
+    }
+
+    const columns: TableDefinition['columns'] = getStorableFields(schema).map(f => {
+        const { notNull, default: sqlDefault } = zodTypeToConstraints(f.type);
+        return {
+            name: f.name,
+            type: foreignKeys.get(f.name) ?? zodTypeToSqlType(f.type),
+            // SET NULL needs a nullable foreign key column; key columns never are
+            notNull: keyColumns.has(f.name) || (notNull && !nullable.has(f.name)),
+            default: sqlDefault,
+            check: zodTypeToCheck(f.name, f.type),
+        };
+    });
+
+    // Add timestamp columns
+    if (options.timestamps) {
+        columns.push({ name: 'createdAt', type: 'TEXT' });
+        columns.push({ name: 'updatedAt', type: 'TEXT' });
+    }
+    // Add soft delete column
+    if (options.softDeletes) {
+        columns.push({ name: 'deletedAt', type: 'TEXT' });
+    }
+    // Indexed JSON paths: `settings.theme` → settings_theme AS (json_extract(...))
+    for (const path of options.jsonIndexes ?? []) {
+        columns.push({ name: jsonIndexColumn(path), type: '', generated: jsonExtractSql(`"${path.split('.')[0]}"`, path) });
+    }
+
+    const constraints = belongsTo.map(rel =>
+        `FOREIGN KEY ("${rel.foreignKey}") REFERENCES "${rel.to}"(id) ON DELETE ${deleteAction(rel, options.keys).toUpperCase()}`
+        + (rel.onUpdate ? ` ON UPDATE ${rel.onUpdate.toUpperCase()}` : ''));
+    if (keyColumns.size > 0) {
+        constraints.unshift(`PRIMARY KEY (${primaryKey.columns.map(c => `"${c}"`).join(', ')})`);
+    }
+
+    return { primaryKey, columns, constraints };
+}
+
+/** Render one column definition: `"name" TYPE [NOT NULL] [DEFAULT x] [CHECK (...)]`, or a VIRTUAL generated column. */
+export function columnSql(column: TableDefinition['columns'][number]): string {
+    // No declared type: the column keeps json_extract()'s result types
+    if (column.generated) return `"${column.name}" GENERATED ALWAYS AS (${column.generated}) VIRTUAL`;
+    return `"${column.name}" ${column.type}`
+        + (column.notNull ? ' NOT NULL' : '')
+        + (column.default != null ? ` DEFAULT ${column.default}` : '')
+        + (column.check ? ` CHECK (${column.check})` : '');
+}
+
+/** Render a CREATE TABLE statement from a table definition. */
+export function createTableSql(tableName: string, def: TableDefinition, ifNotExists: boolean = true): string {
+    const idColumn = !hasIdColumn(def.primaryKey) ? []
+        : def.primaryKey.autoincrement ? ['id INTEGER PRIMARY KEY AUTOINCREMENT']
+        : ['id TEXT PRIMARY KEY NOT NULL'];
+    const parts = [
+        ...idColumn,
+        ...def.columns.map(columnSql),
+        ...def.constraints,
+    ];
+    return `CREATE TABLE ${ifNotExists ? 'IF NOT EXISTS ' : ''}"${tableName}" (${parts.join(', ')})`;
+}
+
+/** Render a JS value as an SQL literal (for CHECK and DEFAULT clauses), in its storage format. */
+function sqlLiteral(value: unknown): string {
+    if (typeof value === 'number' || typeof value === 'bigint') return String(value);
+    if (typeof value === 'boolean') return value ? '1' : '0';
+    if (value instanceof Date) value = value.toISOString();
+    else if (value !== null && typeof value === 'object') value = JSON.stringify(value);
+    return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+/**
+ * Translate the refinements of a Zod field into a SQLite CHECK expression.
+ *
+ * Covers `z.string().min/max/length()`, `z.number().int/min/max/positive/nonnegative()`,
+ * `z.enum([...])`, `z.literal()` and `z.boolean()` (0/1). Refinements SQL can't
+ * express (regex, email, custom `.refine()`) are left to Zod. NULL passes every
+ * CHECK, so optional columns need no special casing. Returns `null` when there
+ * is nothing to enforce.
+ */
+export function zodTypeToCheck(column: string, zodType: ZodType): string | null {
+    while (zodType instanceof z.ZodOptional || zodType instanceof z.ZodNullable || zodType instanceof z.ZodDefault) {
+        zodType = zodType._def.innerType;
+    }
+    const col = `"${column}"`;
+    const parts: string[] = [];
+
+    if (zodType instanceof z.ZodString) {
+        for (const check of zodType._def.checks) {
+            if (check.kind === 'min') parts.push(`length(${col}) >= ${check.value}`);
+            else if (check.kind === 'max') parts.push(`length(${col}) <= ${check.value}`);
+            else if (check.kind === 'length') parts.push(`length(${col}) = ${check.value}`);
+        }
+    } else if (zodType instanceof z.ZodNumber) {
+        for (const check of zodType._def.checks) {
+            if (check.kind === 'int') parts.push(`typeof(${col}) IN ('integer', 'null')`);
+            else if (check.kind === 'min') parts.push(`${col} ${check.inclusive ? '>=' : '>'} ${check.value}`);
+            else if (check.kind === 'max') parts.push(`${col} ${check.inclusive ? '<=' : '<'} ${check.value}`);
+        }
+    } else if (zodType instanceof z.ZodEnum) {
+        parts.push(`${col} IN (${(zodType._def.values as string[]).map(sqlLiteral).join(', ')})`);
+    } else if (zodType instanceof z.ZodLiteral) {
+        parts.push(`${col} = ${sqlLiteral(zodType._def.value)}`);
+    } else if (zodType instanceof z.ZodBoolean) {
+        parts.push(`${col} IN (0, 1)`);
+    }
+
+    return parts.length > 0 ? parts.join(' AND ') : null;
+}
+
+/**
+ * Extract column-level CHECK expressions from a CREATE TABLE statement
+ * (as stored in sqlite_master). Returns column name → expression.
+ */
+export function parseColumnChecks(createSql: string): Map<string, string> {
+    const checks = new Map<string, string>();
+    const body = createSql.slice(createSql.indexOf('(') + 1, createSql.lastIndexOf(')'));
+
+    // Split on top-level commas, respecting parentheses and quotes
+    const defs: string[] = [];
+    let depth = 0, quote: string | null = null, start = 0;
+    for (let i = 0; i < body.length; i++) {
+        const ch = body[i]!;
+        if (quote) { if (ch === quote) quote = null; continue; }
+        if (ch === '"' || ch === "'" || ch === '`') quote = ch;
+        else if (ch === '(') depth++;
+        else if (ch === ')') depth--;
+        else if (ch === ',' && depth === 0) { defs.push(body.slice(start, i)); start = i + 1; }
+    }
+    defs.push(body.slice(start));
+
+    for (const def of defs) {
+        const nameMatch = def.trim().match(/^(?:"([^"]+)"|`([^`]+)`|([A-Za-z_][\w]*))/);
+        const name = nameMatch?.[1] ?? nameMatch?.[2] ?? nameMatch?.[3];
+        if (!name || /^(CONSTRAINT|PRIMARY|FOREIGN|UNIQUE|CHECK)$/i.test(name)) continue;
+        const at = def.search(/\bCHECK\s*\(/i);
+        if (at < 0) continue;
+        const open = def.indexOf('(', at);
+        let d = 0;
+        for (let i = open; i < def.length; i++) {
+            if (def[i] === '(') d++;
+            else if (def[i] === ')' && --d === 0) { checks.set(name, def.slice(open + 1, i).trim()); break; }
+        }
+    }
+    return checks;
+}
+
 /** Transform JS values to SQLite storage format */
 export function transformForStorage(data: Record<string, any>): Record<string, any> {
     const transformed: Record<string, any> = {};
@@ -104,17 +527,20 @@ export function transformForStorage(data: Record<string, any>): Record<string, a
     return transformed;
 }
 
-/** Transform SQLite row back to JS types based on schema */
+/**
+ * Transform SQLite row back to JS types based on schema.
+ * Rows read with safe integers (see `hasBigIntFields`) have every integer as
+ * a bigint; only `z.bigint()` fields keep it, the rest go back to numbers.
+ */
 export function transformFromStorage(row: Record<string, any>, schema: z.ZodType<any>): Record<string, any> {
     const transformed: Record<string, any> = {};
-    for (const [key, value] of Object.entries(row)) {
-        let fieldSchema = asZodObject(schema).shape[key];
-        if (fieldSchema instanceof z.ZodOptional) {
-            fieldSchema = fieldSchema._def.innerType;
-        }
-        if (fieldSchema instanceof z.ZodDefault) {
-            fieldSchema = fieldSchema._def.innerType;
+    for (let [key, value] of Object.entries(row)) {
+        const fieldSchema = unwrapField(asZodObject(schema).shape[key]);
+        if (fieldSchema instanceof z.ZodBigInt) {
+            transformed[key] = typeof value === 'number' ? BigInt(value) : value;
+            continue;
         }
+        if (typeof value === 'bigint') value = Number(value);
         if (fieldSchema instanceof z.ZodDate && typeof value === 'string') {
             transformed[key] = new Date(value);
         } else if (fieldSchema instanceof z.ZodBoolean && typeof value === 'number') {
@@ -129,6 +555,11 @@ export function transformFromStorage(row: Record<string, any>, schema: z.ZodType
     return transformed;
 }
 
+/** True when a field is stored as JSON text (object, array, record, tuple, union). */
+export function isJsonField(zodType: ZodType): boolean {
+    return isJsonSchema(unwrapField(zodType));
+}
+
 /** Check if a Zod schema represents a JSON-serializable type */
 function isJsonSchema(schema: any): boolean {
     if (!schema) return false;
@@ -0,0 +1,62 @@
+/**
+ * search.ts — FTS5 full-text search on declared columns.
+ *
+ * `search: { messages: ['subject', 'body'] }` creates an external-content
+ * FTS5 table `messages_fts` over those columns. It stores only the index;
+ * rows are read from `messages` by rowid. Insert/update/delete triggers keep
+ * it in sync, so every write path — accessors, batch mutations, raw SQL — is
+ * indexed. `QueryBuilder.search()` joins it with `MATCH`.
+ */
+import type { SchemaMap } from './types';
+import { getStorableFields } from './schema';
+
+/** Name of the FTS5 table that indexes `table`. */
+export function searchTableName(table: string): string {
+    return `${table}_fts`;
+}
+
+/** Check the `search` option against the schemas. */
+export function validateSearchConfig(search: Record<string, string[]>, schemas: SchemaMap): void {
+    for (const [table, columns] of Object.entries(search)) {
+        if (!schemas[table]) throw new Error(`search: unknown table '${table}'`);
+        if (columns.length === 0) throw new Error(`search: '${table}' needs at least one column`);
+        const fields = new Set(getStorableFields(schemas[table]!).map(f => f.name));
+        const missing = columns.find(c => !fields.has(c));
+        if (missing) throw new Error(`search: '${table}' has no column '${missing}'`);
+    }
+}
+
+/**
+ * DDL of the FTS5 table and its sync triggers. External-content tables are
+ * updated with the special `'delete'` command, which needs the old values.
+ */
+export function searchDdl(table: string, columns: string[]): { sql: string; object: { type: 'table' | 'trigger'; name: string } }[] {
+    const fts = searchTableName(table);
+    const cols = columns.map(c => `"${c}"`).join(', ');
+    const values = (ref: 'new' | 'old') => columns.map(c => `${ref}."${c}"`).join(', ');
+    const insert = `INSERT INTO "${fts}"(rowid, ${cols}) VALUES (new.rowid, ${values('new')});`;
+    const remove = `INSERT INTO "${fts}"("${fts}", rowid, ${cols}) VALUES ('delete', old.rowid, ${values('old')});`;
+    return [
+        {
+            sql: `CREATE VIRTUAL TABLE IF NOT EXISTS "${fts}" USING fts5(${cols}, content='${table}')`,
+            object: { type: 'table', name: fts },
+        },
+        {
+            sql: `CREATE TRIGGER IF NOT EXISTS "${fts}_insert" AFTER INSERT ON "${table}" BEGIN ${insert} END`,
+            object: { type: 'trigger', name: `${fts}_insert` },
+        },
+        {
+            sql: `CREATE TRIGGER IF NOT EXISTS "${fts}_delete" AFTER DELETE ON "${table}" BEGIN ${remove} END`,
+            object: { type: 'trigger', name: `${fts}_delete` },
+        },
+        {
+            sql: `CREATE TRIGGER IF NOT EXISTS "${fts}_update" AFTER UPDATE ON "${table}" BEGIN ${remove} ${insert} END`,
+            object: { type: 'trigger', name: `${fts}_update` },
+        },
+    ];
+}
+
+/** Quote a string as an SQL literal, for `highlight()`/`snippet()` markers. */
+export function sqlString(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+}
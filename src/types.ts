@@ -5,13 +5,75 @@
  * at the type level — full autocomplete on schema fields AND relationship methods.
  */
 import { z } from 'zod';
+import type { Database as SqliteDatabase } from 'bun:sqlite';
 import type { QueryBuilder } from './query';
+import type { ExprCallback, ExprRow } from './builder';
 
 export type ZodType = z.ZodTypeAny;
 export type SchemaMap = Record<string, z.ZodType<any>>;
 
-/** Relations config: `{ childTable: { fkColumn: 'parentTable' } }` */
-export type RelationsConfig = Record<string, Record<string, string>>;
+/**
+ * Many-to-many declaration, keyed by nav name: `posts: { tags: { through: 'post_tags' } }`.
+ * The junction table is created unless it is one of the schemas.
+ */
+export type ThroughRelation = {
+    /** Junction table name. */
+    through: string;
+    /** Target table. Default: the relation name. */
+    to?: string;
+    /** Junction column pointing at the declaring table. Default: `<singular table>_id`, e.g. `post_id`. */
+    sourceKey?: string;
+    /** Junction column pointing at the target table. Default: `<singular target>_id`, e.g. `tag_id`. */
+    targetKey?: string;
+};
+
+/** What a foreign key does when its parent row is deleted or its key changes. */
+export type ReferentialAction = 'cascade' | 'restrict' | 'set null';
+
+/**
+ * Foreign key declaration with explicit nav names:
+ * `users: { manager_id: { to: 'users', as: 'manager', inverse: 'reports' } }`.
+ */
+export type ForeignKeyRelation = {
+    /** Parent table. */
+    to: string;
+    /** Nav method on the child. Default: the column without `_id`. */
+    as?: string;
+    /** Nav method on the parent, or `false` for none. Default: the child table name. */
+    inverse?: string | false;
+    /** `'one'` makes the foreign key unique and the inverse return one row (or null). Default: `'many'`. */
+    kind?: 'one' | 'many';
+    /**
+     * `ON DELETE` action of the foreign key. Default: `'set null'` (`'cascade'`
+     * for key columns). Soft deletes follow `'cascade'` and `'restrict'` in JS.
+     */
+    onDelete?: ReferentialAction;
+    /** `ON UPDATE` action of the foreign key. Default: none (SQLite's NO ACTION). */
+    onUpdate?: ReferentialAction;
+};
+
+/**
+ * Polymorphic declaration, keyed by nav name: `comments: { commentable: { polymorphic: ['posts', 'videos'] } }`.
+ * The child schema declares the type/id pair (`commentable_type`, `commentable_id`).
+ */
+export type PolymorphicRelation = {
+    /** Tables the relation can point at. The type column stores the table name. */
+    polymorphic: readonly string[];
+    /** Column holding the parent table name. Default: `<nav>_type`. */
+    typeColumn?: string;
+    /** Column holding the parent id. Default: `<nav>_id`. */
+    idColumn?: string;
+    /** Nav method on each parent, or `false` for none. Default: the child table name. */
+    inverse?: string | false;
+};
+
+/**
+ * Relations config: `{ childTable: { fkColumn: 'parentTable' } }`, with
+ * `{ fkColumn: { to, as, inverse, kind } }` for custom nav names and one-to-one,
+ * plus many-to-many entries `{ table: { navName: { through: 'junction' } } }`
+ * and polymorphic entries `{ table: { navName: { polymorphic: [...] } } }`.
+ */
+export type RelationsConfig = Record<string, Record<string, string | ForeignKeyRelation | ThroughRelation | PolymorphicRelation>>;
 
 /** Internal cast: all schemas are z.object() at runtime */
 export const asZodObject = (s: z.ZodType<any>) => s as unknown as z.ZodObject<any>;
@@ -19,17 +81,90 @@ export const asZodObject = (s: z.ZodType<any>) => s as unknown as z.ZodObject<an
 /** Index definition: single column or composite columns */
 export type IndexDef = string | string[];
 
-/** Lifecycle hooks for a single table. */
+/**
+ * Primary key strategy of a table:
+ * - `'autoincrement'` (default) — `id INTEGER PRIMARY KEY AUTOINCREMENT`
+ * - `'uuid'` / `'ulid'` — TEXT `id`, a UUIDv7 / ULID generated on insert unless given
+ * - `'text'` — TEXT `id` that every insert must supply
+ * - `{ generate }` — TEXT `id` from a custom generator
+ * - `['post_id', 'tag_id']` — composite key over schema columns, no `id` column
+ */
+export type PrimaryKey = 'autoincrement' | 'uuid' | 'ulid' | 'text' | { generate: () => string } | readonly string[];
+
+/** `primaryKey` option: strategy per table name. */
+export type PrimaryKeyConfig = Record<string, PrimaryKey>;
+
+/** A row's key: its `id`, or an object of column values for composite keys. */
+export type EntityKey = number | string | Record<string, any>;
+
+/**
+ * Lifecycle hooks for a single table. `id` is the row's key: a number for
+ * autoincrement tables, a string for TEXT keys, an object for composite keys.
+ */
 export type TableHooks = {
     beforeInsert?: (data: Record<string, any>) => Record<string, any> | void;
     afterInsert?: (entity: Record<string, any>) => void;
-    beforeUpdate?: (data: Record<string, any>, id: number) => Record<string, any> | void;
+    beforeUpdate?: (data: Record<string, any>, id: any) => Record<string, any> | void;
     afterUpdate?: (entity: Record<string, any>) => void;
-    beforeDelete?: (id: number) => false | void;
-    afterDelete?: (id: number) => void;
+    beforeDelete?: (id: any) => false | void;
+    afterDelete?: (id: any) => void;
+};
+
+/**
+ * A named, versioned migration step. `up`/`down` receive the raw bun:sqlite
+ * handle, or can be a SQL string run as-is.
+ */
+export type Migration = {
+    name: string;
+    up: string | ((db: SqliteDatabase) => void);
+    down?: string | ((db: SqliteDatabase) => void);
+};
+
+/** Per-table result of `db.diff()`. */
+export type TableDiff = {
+    added: string[];
+    removed: string[];
+    typeChanged: { column: string; expected: string; actual: string }[];
+    /** Columns whose live CHECK constraint differs from the one derived from Zod. */
+    checkChanged: { column: string; expected: string | null; actual: string | null }[];
+    /** Foreign keys whose live `ON DELETE`/`ON UPDATE` actions differ from the declared ones (`actual` is null when the live column has no FOREIGN KEY). */
+    foreignKeyChanged: { column: string; expected: string; actual: string | null }[];
+};
+
+/** Options for `db.applyDiff()` — each destructive change must be opted into. */
+export type ApplyDiffOptions = {
+    /** Drop live columns that are no longer in the Zod schema. */
+    dropRemoved?: boolean;
+    /** Recreate columns whose SQLite type no longer matches the Zod schema. */
+    retype?: boolean;
+    /** Recreate columns whose CHECK constraint drifted from the Zod refinements. */
+    checks?: boolean;
+    /** Recreate foreign keys whose actions drifted from the relation config. */
+    foreignKeys?: boolean;
+};
+
+/** One statement of a `db.plan()` schema plan. */
+export type PlanStatement = {
+    /** The startup step (or `applyDiff` rebuild) that would run the statement. */
+    step: 'tables' | 'migration' | 'changeTracking' | 'columns' | 'search' | 'indexes' | 'unique' | 'rebuild';
+    sql: string;
+    /** True when the statement can drop, rewrite or delete existing data. */
+    destructive: boolean;
+    /** Versioned migration name, when `step` is `'migration'`. */
+    migration?: string;
 };
 
-export type DatabaseOptions<R extends RelationsConfig = RelationsConfig> = {
+/** How writes are validated against the Zod schema — see `DatabaseOptions.validate`. */
+export type ValidationMode = 'strict' | 'partial' | false;
+
+/** Row returned by `db.migrationStatus()`. */
+export type MigrationStatus = {
+    name: string;
+    applied: boolean;
+    appliedAt: string | null;
+};
+
+export type DatabaseOptions<R extends RelationsConfig = RelationsConfig, P extends PrimaryKeyConfig = PrimaryKeyConfig> = {
     indexes?: Record<string, IndexDef[]>;
     /**
      * Unique constraints per table. Each entry is an array of column groups.
@@ -101,19 +236,92 @@ export type DatabaseOptions<R extends RelationsConfig = RelationsConfig> = {
     computed?: Record<string, Record<string, (entity: Record<string, any>) => any>>;
     /**
      * Cascade delete config per table. When a parent is deleted, children are auto-deleted.
+     * Shorthand for `onDelete: 'cascade'` on the children's foreign keys.
      * ```ts
      * cascade: { authors: ['books'] }  // deleting author → deletes their books
      * ```
      */
     cascade?: Record<string, string[]>;
+    /**
+     * Full-text search: FTS5-indexed columns per table, queried with `.search()`.
+     * Each table gets an external-content FTS5 table `<table>_fts`, kept in
+     * sync by triggers and rebuilt when the column list changes.
+     * ```ts
+     * search: { messages: ['subject', 'body'] }
+     * ```
+     */
+    search?: Record<string, string[]>;
+    /**
+     * JSON paths to index, per table. Each path into an object/array column
+     * gets an indexed VIRTUAL generated column (`settings.theme` →
+     * `settings_theme`), which `where({ 'settings.theme': ... })` then uses.
+     * ```ts
+     * jsonIndexes: { users: ['settings.theme'] }
+     * ```
+     */
+    jsonIndexes?: Record<string, string[]>;
+    /**
+     * Ordered, named migration steps tracked in a `_migrations` table.
+     * Pending steps run on startup (each in its own transaction), before the
+     * additive column pass. On a brand-new file every step is recorded as
+     * applied without running, since tables are created from the current schemas.
+     * ```ts
+     * migrations: [
+     *   { name: '001_rename_fullname', up: 'ALTER TABLE users RENAME COLUMN fullname TO name',
+     *     down: 'ALTER TABLE users RENAME COLUMN name TO fullname' },
+     * ]
+     * ```
+     */
+    migrations?: Migration[];
+    /**
+     * Open the file without changing it: startup DDL (tables, versioned
+     * migrations, change tracking, added columns, indexes, unique constraints)
+     * is collected instead of executed. Read it with `db.plan()`.
+     * An existing file is opened read-only; a missing one is not created. Default: `false`.
+     */
+    dryRun?: boolean;
+    /**
+     * Zod validation applied to writes before storage. Failures throw `ValidationError`.
+     *
+     * - `'strict'` — inserts parse the full schema (defaults, transforms,
+     *   refinements, required fields); updates parse `.partial()`
+     * - `'partial'` — every write parses `.partial()`: present fields are
+     *   checked and transformed, missing ones are left to SQLite
+     * - `false` — no Zod parsing; data goes straight to storage
+     *
+     * Default: `'strict'`.
+     */
+    validate?: ValidationMode;
+    /**
+     * Primary key strategy per table (see `PrimaryKey`). Tables not listed
+     * keep `id INTEGER PRIMARY KEY AUTOINCREMENT`.
+     * ```ts
+     * primaryKey: { devices: 'uuid', events: 'ulid', post_tags: ['post_id', 'tag_id'] }
+     * ```
+     * Foreign keys to a TEXT-keyed table are TEXT columns. Relations can't
+     * target a composite-key table; foreign keys that are part of a composite
+     * key cascade on delete.
+     */
+    primaryKey?: P;
 };
 
 export type Relationship = {
-    type: 'belongs-to' | 'one-to-many';
+    type: 'belongs-to' | 'one-to-many' | 'one-to-one' | 'many-to-many' | 'morph-to' | 'morph-many';
     from: string;
     to: string;
     relationshipField: string;
+    /** FK column on the child table (`from` for belongs-to, `to` for one-to-many/one-to-one). */
     foreignKey: string;
+    /** Junction of a many-to-many relation: `sourceKey` points at `from`, `targetKey` at `to`. */
+    through?: { table: string; sourceKey: string; targetKey: string };
+    /**
+     * Type column of a polymorphic relation, and the parent tables it may name.
+     * `morph-to` has `to: ''` and `foreignKey` = the id column; `morph-many` has `types: [from]`.
+     */
+    morph?: { typeColumn: string; types: string[] };
+    /** Declared referential actions of a belongs-to foreign key. */
+    onDelete?: ReferentialAction;
+    onUpdate?: ReferentialAction;
 };
 
 
@@ -132,16 +340,41 @@ export type EntityData<S extends z.ZodType<any>> = Omit<InputSchema<S>, 'id'>;
 /** Strip `_id` suffix: `'author_id'` → `'author'` */
 type StripIdSuffix<S extends string> = S extends `${infer Base}_id` ? Base : S;
 
+/** The `id` type of a table: `number` when autoincrement, `string` for TEXT keys, `never` for composite keys. */
+type IdOf<P, Table> = Table extends keyof P
+    ? P[Table] extends readonly string[] ? never : P[Table] extends 'autoincrement' ? number : string
+    : number;
+
+/** `{ id }` for tables keyed by `id`; nothing for composite-key tables. */
+type IdField<Id> = [Id] extends [never] ? {} : { id: Id };
+
+/** Key argument of `update(key, data)`, `delete(key)` and `restore(key)`. */
+type KeyArg<S extends z.ZodType<any>, P, Table> = Table extends keyof P
+    ? P[Table] extends readonly (infer C extends string)[] ? Pick<z.infer<S>, C & keyof z.infer<S>> : IdOf<P, Table>
+    : number;
+
+/** `id` accepted by `insert()`: required for `'text'` keys, optional when generated. */
+type InsertId<P, Table> = Table extends keyof P
+    ? P[Table] extends 'text' ? { id: string }
+    : P[Table] extends 'autoincrement' | readonly string[] ? {}
+    : { id?: string }
+    : {};
+
 /**
  * Base entity type with schema fields, id, update(), delete().
  * No nav methods — those are added by NavMethods.
  */
-type BaseEntity<S extends z.ZodType<any>> = z.infer<S> & {
-    id: number;
-    update: (data: Partial<Omit<z.input<S>, 'id'>>) => BaseEntity<S> | null;
+type BaseEntity<S extends z.ZodType<any>, Id = number> = z.infer<S> & IdField<Id> & {
+    update: (data: Partial<Omit<z.input<S>, 'id'>>) => BaseEntity<S, Id> | null;
     delete: () => void;
 };
 
+/** Parent table of a foreign key entry: `'authors'` or `{ to: 'authors' }`. */
+type _FKTarget<V> = V extends string ? V : V extends { through: string } | { polymorphic: readonly string[] } ? never : V extends { to: infer T extends string } ? T : never;
+
+/** Child-side nav name of a foreign key entry: `as`, or the column without `_id`. */
+type _FKNavName<V, FK extends string> = V extends { as: infer A extends string } ? A : StripIdSuffix<FK>;
+
 /**
  * Belongs-to nav methods for a table.
  * `books: { author_id: 'authors' }` → book gets `{ author: () => BaseEntity<AuthorSchema> | null }`
@@ -150,33 +383,103 @@ type BelongsToNav<
     S extends SchemaMap,
     R extends RelationsConfig,
     Table extends string,
+    P = {},
 > = Table extends keyof R
-    ? { readonly [FK in Extract<keyof R[Table], string> as StripIdSuffix<FK>]:
-        R[Table][FK] extends keyof S
-        ? () => BaseEntity<S[R[Table][FK]]> | null
+    ? { readonly [FK in Extract<keyof R[Table], string> as [_FKTarget<R[Table][FK]>] extends [never] ? never : _FKNavName<R[Table][FK], FK>]:
+        _FKTarget<R[Table][FK]> extends keyof S
+        ? () => BaseEntity<S[_FKTarget<R[Table][FK]>], IdOf<P, _FKTarget<R[Table][FK]>>> | null
         : never }
     : {};
 
+/** Inverse side of one foreign key entry of `Child` that points at `Parent`. */
+type _InverseEntry<V, Child extends string, Parent extends string> =
+    V extends { polymorphic: readonly (infer T)[] } ? Parent extends T ? _Inverse<V, Child, false> : never
+    : [_FKTarget<V>] extends [never] ? never
+    : _FKTarget<V> extends Parent ? _Inverse<V, Child, V extends { kind: 'one' } ? true : false>
+    : never;
+
+/** Nav name, child table and cardinality of an inverse relation (`inverse: false` drops it). */
+type _Inverse<V, Child extends string, One extends boolean> = V extends { inverse: false } ? never
+    : { name: V extends { inverse: infer N extends string } ? N : Child; child: Child; one: One };
+
 /**
- * Has-many nav methods for a table.
- * If `books: { author_id: 'authors' }`, then `authors` gets `{ books: () => BaseEntity<BookSchema>[] }`
- *
- * We use key remapping in a mapped type: for each child table in R,
- * check if ParentTable appears in its FK target values.
+ * Polymorphic nav methods: `comments: { commentable: { polymorphic: ['posts', 'videos'] } }`
+ * → comment gets `{ commentable: () => Post | Video | null }`.
+ */
+type MorphToNav<
+    S extends SchemaMap,
+    R extends RelationsConfig,
+    Table extends string,
+    P = {},
+> = Table extends keyof R
+    ? { readonly [K in Extract<keyof R[Table], string> as R[Table][K] extends { polymorphic: readonly string[] } ? K : never]:
+        R[Table][K] extends { polymorphic: readonly (infer T extends string)[] }
+        ? () => (T extends keyof S ? BaseEntity<S[T], IdOf<P, T>> : never) | null
+        : never }
+    : {};
+
+/** Inverse sides of every foreign key (in any table) that points at `Parent`. */
+type _InverseEntries<R, Parent extends string> = {
+    [Child in Extract<keyof R, string>]: {
+        [FK in keyof R[Child]]: _InverseEntry<R[Child][FK], Child, Parent>
+    }[keyof R[Child]]
+}[Extract<keyof R, string>];
+
+/**
+ * Has-many (and has-one) nav methods for a table.
+ * If `books: { author_id: 'authors' }`, then `authors` gets `{ books: () => BaseEntity<BookSchema>[] }`;
+ * `{ user_id: { to: 'users', inverse: 'profile', kind: 'one' } }` gives `user.profile()` returning one row or null.
  */
 type HasManyNav<
     S extends SchemaMap,
     R extends RelationsConfig,
     ParentTable extends string,
+    P = {},
 > = {
-        readonly [ChildTable in Extract<keyof R & keyof S, string> as
-        _FKTargetsContain<R[ChildTable], ParentTable> extends true ? ChildTable : never
-        ]: () => BaseEntity<S[ChildTable]>[];
+        readonly [E in _InverseEntries<R, ParentTable> as E['name']]: E['one'] extends true
+            ? () => BaseEntity<S[E['child'] & keyof S], IdOf<P, E['child']>> | null
+            : () => BaseEntity<S[E['child'] & keyof S], IdOf<P, E['child']>>[];
     };
 
-/** Check if any value in record Rec equals Target */
-type _FKTargetsContain<Rec, Target extends string> =
-    Target extends Rec[keyof Rec] ? true : false;
+/** Target table of a many-to-many entry `K: { through, to? }`. */
+type _ThroughTarget<V, K> = V extends { through: string } ? (V extends { to: infer T extends string } ? T : K) : never;
+
+/** Target tables of all many-to-many entries in a relations record. */
+type _ThroughTargets<Rec> = { [K in keyof Rec]: _ThroughTarget<Rec[K], K> }[keyof Rec];
+
+/**
+ * Many-to-many nav methods: declared ones (`posts: { tags: { through } }` → `post.tags()`)
+ * and their inverses, named after the declaring table (`tag.posts()`).
+ */
+type ManyToManyNav<
+    S extends SchemaMap,
+    R extends RelationsConfig,
+    Table extends string,
+    P = {},
+> = (Table extends keyof R
+    ? { readonly [K in Extract<keyof R[Table], string> as R[Table][K] extends { through: string } ? K : never]:
+        () => BaseEntity<S[_ThroughTarget<R[Table][K], K> & keyof S], IdOf<P, _ThroughTarget<R[Table][K], K>>>[] }
+    : {})
+    & { readonly [Src in Extract<keyof R & keyof S, string> as
+        Src extends Table ? never : Table extends _ThroughTargets<R[Src]> ? Src : never
+        ]: () => BaseEntity<S[Src], IdOf<P, Src>>[] };
+
+/** Names of the many-to-many relations of a table (both directions). */
+type ManyToManyNames<S extends SchemaMap, R extends RelationsConfig, Table extends string> =
+    Extract<keyof ManyToManyNav<S, R, Table>, string>;
+
+/** Ids or entities accepted by `attach()` / `detach()` / `sync()`. */
+type RelatedRefs = EntityKey | { id: any } | (EntityKey | { id: any })[];
+
+/** `attach` / `detach` / `sync` for tables with many-to-many relations. */
+type ManyToManyMethods<Names extends string> = [Names] extends [never] ? {} : {
+    /** Link rows through the junction table; `pivot` fills extra junction columns. Returns the number of new links. */
+    attach: (relation: Names, targets: RelatedRefs, pivot?: Record<string, any>) => number;
+    /** Unlink the given rows, or every row when `targets` is omitted. Returns the number removed. */
+    detach: (relation: Names, targets?: RelatedRefs) => number;
+    /** Make the linked set exactly `targets`. */
+    sync: (relation: Names, targets: RelatedRefs) => { attached: EntityKey[]; detached: EntityKey[] };
+};
 
 // =============================================================================
 // NavEntity — Full entity type with nav methods (one level deep)
@@ -194,9 +497,13 @@ export type NavEntity<
     S extends SchemaMap,
     R extends RelationsConfig,
     Table extends string,
-> = BaseEntity<S[Table & keyof S]>
-    & BelongsToNav<S, R, Table>
-    & HasManyNav<S, R, Table>;
+    P = {},
+> = BaseEntity<S[Table & keyof S], IdOf<P, Table>>
+    & BelongsToNav<S, R, Table, P>
+    & HasManyNav<S, R, Table, P>
+    & MorphToNav<S, R, Table, P>
+    & ManyToManyNav<S, R, Table, P>
+    & ManyToManyMethods<ManyToManyNames<S, R, Table>>;
 
 // =============================================================================
 // Entity Accessors
@@ -219,30 +526,32 @@ export type NavEntityAccessor<
     S extends SchemaMap,
     R extends RelationsConfig,
     Table extends string,
+    P = {},
 > = {
-    insert: (data: Omit<z.input<S[Table & keyof S]>, 'id'>) => NavEntity<S, R, Table>;
-    insertMany: (rows: Omit<z.input<S[Table & keyof S]>, 'id'>[]) => NavEntity<S, R, Table>[];
-    update: ((id: number, data: Partial<Omit<z.input<S[Table & keyof S]>, 'id'>>) => NavEntity<S, R, Table> | null)
-    & ((data: Partial<Omit<z.input<S[Table & keyof S]>, 'id'>>) => UpdateBuilder<NavEntity<S, R, Table>>);
-    upsert: (conditions?: Partial<z.infer<S[Table & keyof S]>>, data?: Partial<z.infer<S[Table & keyof S]>>) => NavEntity<S, R, Table>;
-    upsertMany: (rows: Partial<z.infer<S[Table & keyof S]>>[], conditions?: Partial<z.infer<S[Table & keyof S]>>) => NavEntity<S, R, Table>[];
-    findOrCreate: (conditions: Partial<z.infer<S[Table & keyof S]>>, defaults?: Partial<z.infer<S[Table & keyof S]>>) => { entity: NavEntity<S, R, Table>; created: boolean };
-    delete: ((id: number) => void) & (() => DeleteBuilder<NavEntity<S, R, Table>>);
-    restore: (id: number) => void;
+    insert: (data: Omit<z.input<S[Table & keyof S]>, 'id'> & InsertId<P, Table>) => NavEntity<S, R, Table, P>;
+    insertMany: (rows: (Omit<z.input<S[Table & keyof S]>, 'id'> & InsertId<P, Table>)[]) => NavEntity<S, R, Table, P>[];
+    update: ((id: KeyArg<S[Table & keyof S], P, Table>, data: Partial<Omit<z.input<S[Table & keyof S]>, 'id'>>) => NavEntity<S, R, Table, P> | null)
+    & ((data: Partial<Omit<z.input<S[Table & keyof S]>, 'id'>>) => UpdateBuilder<NavEntity<S, R, Table, P>>);
+    upsert: (conditions?: Partial<z.infer<S[Table & keyof S]>>, data?: Partial<z.infer<S[Table & keyof S]>>) => NavEntity<S, R, Table, P>;
+    upsertMany: (rows: Partial<z.infer<S[Table & keyof S]>>[], conditions?: Partial<z.infer<S[Table & keyof S]>>) => NavEntity<S, R, Table, P>[];
+    findOrCreate: (conditions: Partial<z.infer<S[Table & keyof S]>>, defaults?: Partial<z.infer<S[Table & keyof S]>>) => { entity: NavEntity<S, R, Table, P>; created: boolean };
+    delete: ((id: KeyArg<S[Table & keyof S], P, Table>) => void) & (() => DeleteBuilder<NavEntity<S, R, Table, P>>);
+    restore: (id: KeyArg<S[Table & keyof S], P, Table>) => void;
     select: {
-        (): QueryBuilder<NavEntity<S, R, Table>>;
-        <K extends (keyof z.infer<S[Table & keyof S]> | 'id') & string>(...cols: K[]): QueryBuilder<NavEntity<S, R, Table>, Pick<NavEntity<S, R, Table>, K>>;
+        (): QueryBuilder<NavEntity<S, R, Table, P>>;
+        <K extends (keyof z.infer<S[Table & keyof S]> | 'id') & string>(...cols: K[]): QueryBuilder<NavEntity<S, R, Table, P>, Pick<NavEntity<S, R, Table, P>, K>>;
+        <X extends Record<string, ExprCallback<NavEntity<S, R, Table, P>>>>(exprs: X): QueryBuilder<NavEntity<S, R, Table, P>, ExprRow<X>>;
     };
     count: () => number;
-    on: ((event: 'insert' | 'update', callback: (row: NavEntity<S, R, Table>) => void | Promise<void>) => () => void) &
-    ((event: 'delete', callback: (row: { id: number }) => void | Promise<void>) => () => void);
-    _tableName: string;
+    on: ((event: 'insert' | 'update', callback: (row: NavEntity<S, R, Table, P>) => void | Promise<void>) => () => void) &
+    ((event: 'delete', callback: (row: [IdOf<P, Table>] extends [never] ? KeyArg<S[Table & keyof S], P, Table> : { id: IdOf<P, Table> }) => void | Promise<void>) => () => void);
+    _tableName: Table;
     readonly _schema?: S[Table & keyof S];
 };
 
 /** Map each table in the schema to its nav-aware accessor */
-export type TypedNavAccessors<S extends SchemaMap, R extends RelationsConfig> = {
-    [K in Extract<keyof S, string>]: NavEntityAccessor<S, R, K>;
+export type TypedNavAccessors<S extends SchemaMap, R extends RelationsConfig, P = {}> = {
+    [K in Extract<keyof S, string>]: NavEntityAccessor<S, R, K, P>;
 };
 
 // =============================================================================
@@ -250,7 +559,7 @@ export type TypedNavAccessors<S extends SchemaMap, R extends RelationsConfig> =
 // =============================================================================
 
 export type AugmentedEntity<S extends z.ZodType<any>> = InferSchema<S> & {
-    id: number;
+    id: any;
     update: (data: Partial<EntityData<S>>) => AugmentedEntity<S> | null;
     delete: () => void;
 };
@@ -260,20 +569,21 @@ export type ChangeEvent = 'insert' | 'update' | 'delete';
 export type EntityAccessor<S extends z.ZodType<any>> = {
     insert: (data: EntityData<S>) => AugmentedEntity<S>;
     insertMany: (rows: EntityData<S>[]) => AugmentedEntity<S>[];
-    update: ((id: number, data: Partial<EntityData<S>>) => AugmentedEntity<S> | null) & ((data: Partial<EntityData<S>>) => UpdateBuilder<AugmentedEntity<S>>);
+    update: ((id: EntityKey, data: Partial<EntityData<S>>) => AugmentedEntity<S> | null) & ((data: Partial<EntityData<S>>) => UpdateBuilder<AugmentedEntity<S>>);
     upsert: (conditions?: Partial<InferSchema<S>>, data?: Partial<InferSchema<S>>) => AugmentedEntity<S>;
     upsertMany: (rows: Partial<InferSchema<S>>[], conditions?: Partial<InferSchema<S>>) => AugmentedEntity<S>[];
     findOrCreate: (conditions: Partial<InferSchema<S>>, defaults?: Partial<InferSchema<S>>) => { entity: AugmentedEntity<S>; created: boolean };
-    delete: ((id: number) => void) & (() => DeleteBuilder<AugmentedEntity<S>>);
+    delete: ((id: EntityKey) => void) & (() => DeleteBuilder<AugmentedEntity<S>>);
     /** Undo a soft delete by setting deletedAt = null. Requires softDeletes. */
-    restore: (id: number) => void;
+    restore: (id: EntityKey) => void;
     select: {
         (): QueryBuilder<AugmentedEntity<S>>;
         <K extends (keyof InferSchema<S> | 'id') & string>(...cols: K[]): QueryBuilder<AugmentedEntity<S>, Pick<AugmentedEntity<S>, K>>;
+        <X extends Record<string, ExprCallback<AugmentedEntity<S>>>>(exprs: X): QueryBuilder<AugmentedEntity<S>, ExprRow<X>>;
     };
     count: () => number;
     on: ((event: 'insert' | 'update', callback: (row: AugmentedEntity<S>) => void | Promise<void>) => () => void) &
-    ((event: 'delete', callback: (row: { id: number }) => void | Promise<void>) => () => void);
+    ((event: 'delete', callback: (row: any) => void | Promise<void>) => () => void);
     _tableName: string;
     readonly _schema?: S;
 };
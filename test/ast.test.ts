@@ -6,6 +6,7 @@
  */
 
 import { test, expect } from 'bun:test';
+import { QueryCompileError } from '../src/errors';
 import {
     compileAST, wrapNode,
     createColumnProxy, createFunctionProxy, op,
@@ -186,3 +187,51 @@ test('end-to-end: proxy → AST → SQL', () => {
     expect(sql).toBe('((LOWER("name") = ?) AND ("age" >= ?))');
     expect(params).toEqual(['alice', 18]);
 });
+
+// ── Unary, n-ary and special forms ──────────────────────────
+
+const col = (name: string): ASTNode => ({ type: 'column', name });
+
+test('op.and / op.or take any number of conditions', () => {
+    const node = op.or(op.eq(col('a'), 1), op.eq(col('b'), 2), op.eq(col('c'), 3));
+    expect(compileAST(node)).toEqual({ sql: '(("a" = ?) OR ("b" = ?) OR ("c" = ?))', params: [1, 2, 3] });
+    expect(() => op.and()).toThrow(/at least one condition/);
+});
+
+test('op.not is a unary node', () => {
+    expect(compileAST(op.not(op.eq(col('a'), 1)))).toEqual({ sql: '(NOT ("a" = ?))', params: [1] });
+});
+
+test('op.in / op.notIn over values and subqueries', () => {
+    expect(compileAST(op.in(col('id'), [1, 2]))).toEqual({ sql: '("id" IN (?, ?))', params: [1, 2] });
+    const sub = { toSQL: () => ({ sql: 'SELECT id FROM t WHERE x = ?', params: [9] }) };
+    expect(compileAST(op.notIn(col('id'), sub))).toEqual({ sql: '("id" NOT IN (SELECT id FROM t WHERE x = ?))', params: [9] });
+});
+
+test('between, glob and exists', () => {
+    expect(compileAST(op.between(col('age'), 18, 65))).toEqual({ sql: '("age" BETWEEN ? AND ?)', params: [18, 65] });
+    expect(compileAST(op.notBetween(col('age'), 1, 2)).sql).toBe('("age" NOT BETWEEN ? AND ?)');
+    expect(compileAST(op.glob(col('path'), '*.ts')).sql).toBe('("path" GLOB ?)');
+    const sub = { toSQL: () => ({ sql: 'SELECT 1 FROM books', params: [] }) };
+    expect(compileAST(op.exists(sub)).sql).toBe('EXISTS (SELECT 1 FROM books)');
+    expect(compileAST(op.notExists(sub)).sql).toBe('NOT EXISTS (SELECT 1 FROM books)');
+});
+
+test('arithmetic, case, coalesce and cast', () => {
+    expect(compileAST(op.mul(op.add(col('price'), 1), col('qty')))).toEqual({ sql: '(("price" + ?) * "qty")', params: [1] });
+    expect(compileAST(op.neg(col('x'))).sql).toBe('(-"x")');
+    expect(compileAST(op.case([[op.gte(col('score'), 90), 'A']], 'B'))).toEqual({
+        sql: 'CASE WHEN ("score" >= ?) THEN ? ELSE ? END', params: [90, 'A', 'B'],
+    });
+    expect(compileAST(op.coalesce(col('nick'), col('name'), '?')).sql).toBe('COALESCE("nick", "name", ?)');
+    expect(compileAST(op.cast(col('n'), 'integer')).sql).toBe('CAST("n" AS INTEGER)');
+    expect(() => compileAST(op.cast(col('n'), 'date' as any))).toThrow(/Unknown CAST type/);
+});
+
+test('function names are checked against the allow-list', () => {
+    const f = createFunctionProxy();
+    expect(compileAST(f.json_extract(col('data'), '$.a')).sql).toBe('JSON_EXTRACT("data", ?)');
+    expect(() => compileAST((f as any).load_extension('evil.so'))).toThrow(/Unknown SQL function 'load_extension'/);
+    expect(() => compileAST({ type: 'function', name: 'x); DROP TABLE t; --', args: [] })).toThrow(QueryCompileError);
+    expect(() => compileAST({ type: 'operator', op: '; DROP', left: col('a'), right: col('b') })).toThrow(/Unknown SQL operator/);
+});
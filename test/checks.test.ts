@@ -0,0 +1,103 @@
+/**
+ * checks.test.ts — CHECK constraints derived from Zod refinements
+ *
+ * zodTypeToCheck() mapping, enforcement on raw writes, ADD COLUMN,
+ * and constraint drift in diff()/applyDiff().
+ */
+import { describe, test, expect } from 'bun:test';
+import { Database, z } from '../src/index';
+import { zodTypeToCheck, parseColumnChecks } from '../src/schema';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const tmpFile = () => join(tmpdir(), `satidb-checks-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+
+describe('zodTypeToCheck', () => {
+    test('string length refinements', () => {
+        expect(zodTypeToCheck('name', z.string().min(1).max(50))).toBe('length("name") >= 1 AND length("name") <= 50');
+        expect(zodTypeToCheck('code', z.string().length(3))).toBe('length("code") = 3');
+    });
+
+    test('number refinements', () => {
+        expect(zodTypeToCheck('age', z.number().int().min(0).max(150))).toBe(`typeof("age") IN ('integer', 'null') AND "age" >= 0 AND "age" <= 150`);
+        expect(zodTypeToCheck('qty', z.number().nonnegative())).toBe('"qty" >= 0');
+        expect(zodTypeToCheck('price', z.number().positive())).toBe('"price" > 0');
+    });
+
+    test('enums, literals and booleans', () => {
+        expect(zodTypeToCheck('role', z.enum(['admin', "o'brien"]))).toBe(`"role" IN ('admin', 'o''brien')`);
+        expect(zodTypeToCheck('kind', z.literal('post'))).toBe(`"kind" = 'post'`);
+        expect(zodTypeToCheck('done', z.boolean().default(false))).toBe('"done" IN (0, 1)');
+    });
+
+    test('wrappers are unwrapped; unexpressible refinements are skipped', () => {
+        expect(zodTypeToCheck('n', z.number().max(9).optional().nullable())).toBe('"n" <= 9');
+        expect(zodTypeToCheck('email', z.string().email())).toBeNull();
+        expect(zodTypeToCheck('plain', z.string())).toBeNull();
+    });
+
+    test('parseColumnChecks reads checks back from CREATE TABLE', () => {
+        const checks = parseColumnChecks(`CREATE TABLE "t" (id INTEGER PRIMARY KEY, "a" TEXT CHECK (length("a") <= 5), "b" INTEGER, "c" TEXT CHECK ("c" IN ('x,y', 'z')), FOREIGN KEY ("b") REFERENCES "u"(id))`);
+        expect([...checks]).toEqual([['a', 'length("a") <= 5'], ['c', `"c" IN ('x,y', 'z')`]]);
+    });
+});
+
+describe('CHECK enforcement', () => {
+    const Schema = z.object({
+        name: z.string().max(10),
+        age: z.number().int().min(0).optional(),
+        role: z.enum(['admin', 'member']).default('member'),
+    });
+
+    test('raw writes that break Zod invariants are rejected by SQLite', () => {
+        const db = new Database(':memory:', { users: Schema });
+        db.users.insert({ name: 'Alice', age: 30 });
+        expect(() => db.exec(`INSERT INTO users (name, role) VALUES ('Bob', 'owner')`)).toThrow(/CHECK/);
+        expect(() => db.exec(`INSERT INTO users (name, age) VALUES ('Bob', -1)`)).toThrow(/CHECK/);
+        expect(() => db.exec(`UPDATE users SET name = 'a very long name'`)).toThrow(/CHECK/);
+        expect(() => db.exec(`INSERT INTO users (name, age) VALUES ('Bob', 1.5)`)).toThrow(/CHECK/);
+        db.exec(`INSERT INTO users (name, role) VALUES ('Carol', 'admin')`); // NULL age passes
+        expect(db.users.count()).toBe(2);
+        db.close();
+    });
+
+    test('added columns carry their CHECK', () => {
+        const path = tmpFile();
+        new Database(path, { users: z.object({ name: z.string() }) }).close();
+        const db = new Database(path, { users: z.object({ name: z.string(), score: z.number().min(0).optional() }) });
+        expect(() => db.exec(`UPDATE users SET score = -5`)).not.toThrow(); // no rows yet
+        db.users.insert({ name: 'Alice' });
+        expect(() => db.exec(`UPDATE users SET score = -5`)).toThrow(/CHECK/);
+        expect(db.diff()).toEqual({});
+        db.close();
+    });
+});
+
+describe('constraint drift', () => {
+    test('diff() reports checks that differ from the schema', () => {
+        const path = tmpFile();
+        new Database(path, { users: z.object({ name: z.string().max(10), age: z.number() }) }).close();
+
+        const db = new Database(path, { users: z.object({ name: z.string().max(20), age: z.number().min(0) }) });
+        expect(db.diff().users!.checkChanged).toEqual([
+            { column: 'name', expected: 'length("name") <= 20', actual: 'length("name") <= 10' },
+            { column: 'age', expected: '"age" >= 0', actual: null },
+        ]);
+        db.close();
+    });
+
+    test('applyDiff({ checks: true }) rebuilds with the schema checks', () => {
+        const path = tmpFile();
+        const old = new Database(path, { users: z.object({ name: z.string().max(10) }) });
+        old.users.insert({ name: 'Alice' });
+        old.close();
+
+        const db = new Database(path, { users: z.object({ name: z.string().max(20) }) });
+        expect(db.applyDiff()).toEqual({});
+        expect(db.applyDiff({ checks: true })).toEqual({ users: { dropped: [], retyped: [], rechecked: ['name'], relinked: [] } });
+        expect(db.diff()).toEqual({});
+        db.exec(`INSERT INTO users (name) VALUES ('fifteen chars!!')`);
+        expect(db.users.count()).toBe(2);
+        db.close();
+    });
+});
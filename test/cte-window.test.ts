@@ -0,0 +1,136 @@
+/**
+ * cte-window.test.ts — CTEs, window functions and computed selects
+ *
+ * `withCte()`/`withRecursive()` prepend a WITH clause that every terminal
+ * method keeps; `selectExpr()` and `op.over()`/`op.subquery()` extend the AST.
+ */
+import { describe, test, expect } from 'bun:test';
+import { Database, z, QueryCompileError } from '../src/index';
+
+const EmployeeSchema = z.object({ name: z.string(), manager_id: z.number().optional() });
+const ScoreSchema = z.object({ player: z.string(), game: z.string(), points: z.number() });
+
+function createDb() {
+    const db = new Database(':memory:', { employees: EmployeeSchema, scores: ScoreSchema }, {
+        relations: { employees: { manager_id: { to: 'employees', as: 'manager', inverse: 'reports' } } },
+    });
+    const ceo = db.employees.insert({ name: 'CEO' });
+    const vp = db.employees.insert({ name: 'VP', manager_id: ceo.id });
+    db.employees.insert({ name: 'Dev', manager_id: vp.id });
+    db.employees.insert({ name: 'Other' });
+    db.scores.insertMany([
+        { player: 'ann', game: 'chess', points: 10 },
+        { player: 'bob', game: 'chess', points: 30 },
+        { player: 'cat', game: 'chess', points: 20 },
+        { player: 'ann', game: 'go', points: 5 },
+        { player: 'bob', game: 'go', points: 7 },
+    ]);
+    return { db, ceo };
+}
+
+describe('selectExpr()', () => {
+    test('adds computed columns to entity rows', () => {
+        const { db } = createDb();
+        const rows = db.scores.select()
+            .selectExpr('shout', (c, f) => f.upper(c.player))
+            .where({ game: 'go' })
+            .orderBy('id')
+            .all();
+        expect(rows.map(r => r.shout)).toEqual(['ANN', 'BOB']);
+        expect(typeof rows[0]!.update).toBe('function');
+        db.close();
+    });
+
+    test('rejects invalid aliases', () => {
+        const { db } = createDb();
+        expect(() => db.scores.select().selectExpr('x" FROM', c => c.points)).toThrow(QueryCompileError);
+        db.close();
+    });
+});
+
+describe('window functions', () => {
+    test('rank() OVER (PARTITION BY ... ORDER BY ...)', () => {
+        const { db } = createDb();
+        const rows = db.scores.select('player', 'game')
+            .selectExpr('place', (c, f, op) => op.over(f.rank(), { partitionBy: [c.game], orderBy: [[c.points, 'desc']] }))
+            .orderBy('game').orderBy('place')
+            .all();
+        expect(rows.map(r => `${r.game}:${r.player}:${r.place}`)).toEqual([
+            'chess:bob:1', 'chess:cat:2', 'chess:ann:3', 'go:bob:1', 'go:ann:2',
+        ]);
+        db.close();
+    });
+
+    test('lag() and running totals', () => {
+        const { db } = createDb();
+        const rows = db.scores.select('points')
+            .where({ game: 'chess' })
+            .selectExpr('previous', (c, f, op) => op.over(f.lag(c.points, 1, 0), { orderBy: [c.id] }))
+            .selectExpr('total', (c, f, op) => op.over(f.sum(c.points), { orderBy: [c.id] }))
+            .orderBy('id')
+            .all();
+        expect(rows.map(r => [r.points, r.previous, r.total])).toEqual([[10, 0, 10], [30, 10, 40], [20, 30, 60]]);
+        db.close();
+    });
+
+    test('scalar subqueries', () => {
+        const { db } = createDb();
+        const bestGo = db.scores.select('points').where({ game: 'go' }).orderBy('points', 'desc').limit(1);
+        const above = db.scores.select().where((c, _f, op) => op.gt(c.points, op.subquery(bestGo))).orderBy('id');
+        expect(above.pluck('player')).toEqual(['ann', 'bob', 'cat']);
+        db.close();
+    });
+});
+
+describe('CTEs', () => {
+    test('withCte() bodies from query builders, used in whereRaw', () => {
+        const { db } = createDb();
+        const q = db.scores.select()
+            .withCte('winners', db.scores.select('player').where({ points: { $gte: 20 } }))
+            .whereRaw('player IN (SELECT player FROM winners)')
+            .orderBy('id');
+        expect(q.pluck('points')).toEqual([30, 20, 7]);
+        expect(q.count()).toBe(3);
+        expect(q.toSQL().sql).toStartWith('WITH winners AS (SELECT');
+        db.close();
+    });
+
+    test('withRecursive() walks a tree and joins the depth', () => {
+        const { db, ceo } = createDb();
+        const rows = db.employees.select('name')
+            .withRecursive('chain', ['id', 'depth'],
+                { sql: 'SELECT id, 0 FROM employees WHERE id = ?', params: [ceo.id] },
+                { sql: 'SELECT e.id, chain.depth + 1 FROM employees e JOIN chain ON e.manager_id = chain.id' })
+            .join('chain', 'id', ['depth'])
+            .orderBy('chain_depth' as any)
+            .all();
+        expect(rows).toEqual([
+            { name: 'CEO', chain_depth: 0 },
+            { name: 'VP', chain_depth: 1 },
+            { name: 'Dev', chain_depth: 2 },
+        ] as any);
+        db.close();
+    });
+
+    test('aggregates, exists and mutations keep the WITH clause', () => {
+        const { db } = createDb();
+        const q = () => db.scores.select()
+            .withCte('chess', { sql: 'SELECT id FROM scores WHERE game = ?', params: ['chess'] })
+            .whereRaw('id IN (SELECT id FROM chess)');
+        expect(q().sum('points')).toBe(60);
+        expect(q().exists()).toBe(true);
+        expect(q().updateAll({ points: 1 })).toBe(3);
+        expect(q().increment('points', 2)).toBe(3);
+        expect(db.scores.select().where({ game: 'chess' }).pluck('points')).toEqual([3, 3, 3]);
+        expect(q().deleteAll()).toBe(3);
+        expect(db.scores.count()).toBe(2);
+        db.close();
+    });
+
+    test('names are validated', () => {
+        const { db } = createDb();
+        expect(() => db.scores.select().withCte('bad name', { sql: 'SELECT 1' })).toThrow(/Invalid CTE name/);
+        expect(() => db.scores.select().withCte('a', { sql: 'SELECT 1' }).withCte('a', { sql: 'SELECT 2' })).toThrow(/Duplicate CTE/);
+        db.close();
+    });
+});
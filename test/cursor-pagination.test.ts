@@ -0,0 +1,148 @@
+/**
+ * cursor-pagination.test.ts — Keyset pagination
+ *
+ * `cursorPaginate()` walks forward and backward through the orderBy columns
+ * (plus the primary key), and stays stable when rows are inserted between pages.
+ */
+import { describe, test, expect } from 'bun:test';
+import { Database, z, QueryCompileError } from '../src/index';
+
+const PostSchema = z.object({
+    title: z.string(),
+    score: z.number(),
+    meta: z.object({ rank: z.number() }),
+});
+
+function createDb() {
+    const db = new Database(':memory:', { posts: PostSchema });
+    // Scores repeat so the id tiebreaker matters
+    db.posts.insertMany(Array.from({ length: 7 }, (_, i) => ({
+        title: `p${i + 1}`, score: i % 3, meta: { rank: 7 - i },
+    })));
+    return db;
+}
+
+const titles = (rows: { title: string }[]) => rows.map(r => r.title);
+
+describe('cursorPaginate()', () => {
+    test('walks forward to the end', () => {
+        const db = createDb();
+        const q = () => db.posts.select().orderBy('score', 'desc');
+        const first = q().cursorPaginate({ limit: 3 });
+        expect(titles(first.data)).toEqual(['p3', 'p6', 'p2']);
+        expect([first.hasPrev, first.hasNext, first.prevCursor]).toEqual([false, true, null]);
+
+        const second = q().cursorPaginate({ after: first.nextCursor!, limit: 3 });
+        expect(titles(second.data)).toEqual(['p5', 'p1', 'p4']);
+        const last = q().cursorPaginate({ after: second.nextCursor!, limit: 3 });
+        expect(titles(last.data)).toEqual(['p7']);
+        expect([last.hasPrev, last.hasNext, last.nextCursor]).toEqual([true, false, null]);
+        db.close();
+    });
+
+    test('walks back with before', () => {
+        const db = createDb();
+        const q = () => db.posts.select().orderBy('score', 'desc');
+        const first = q().cursorPaginate({ limit: 3 });
+        const second = q().cursorPaginate({ after: first.nextCursor!, limit: 3 });
+        const back = q().cursorPaginate({ before: second.prevCursor!, limit: 3 });
+        expect(titles(back.data)).toEqual(titles(first.data));
+        expect([back.hasPrev, back.hasNext]).toEqual([false, true]);
+        db.close();
+    });
+
+    test('hasPrev and hasNext reflect rows that still exist past the cursor', () => {
+        const db = createDb();
+        const q = () => db.posts.select().orderBy('id');
+        const first = q().cursorPaginate({ limit: 2 });
+        db.posts.delete(1);
+        db.posts.delete(2);
+        const second = q().cursorPaginate({ after: first.nextCursor!, limit: 2 });
+        expect(titles(second.data)).toEqual(['p3', 'p4']);
+        expect([second.hasPrev, second.prevCursor]).toEqual([false, null]);
+
+        db.posts.delete(5);
+        db.posts.delete(6);
+        db.posts.delete(7);
+        const back = q().cursorPaginate({ before: second.nextCursor!, limit: 2 });
+        expect(titles(back.data)).toEqual(['p3']);
+        expect([back.hasPrev, back.hasNext]).toEqual([false, true]);
+        db.close();
+    });
+
+    test('breaks ties with every column of a composite primary key', () => {
+        const db = new Database(':memory:', {
+            memberships: z.object({ user_id: z.number().int(), team_id: z.number().int(), rank: z.number().int() }),
+        }, { primaryKey: { memberships: ['user_id', 'team_id'] } });
+        db.memberships.insertMany([
+            { user_id: 2, team_id: 1, rank: 1 },
+            { user_id: 1, team_id: 2, rank: 1 },
+            { user_id: 1, team_id: 1, rank: 1 },
+            { user_id: 1, team_id: 3, rank: 0 },
+        ]);
+        const q = () => db.memberships.select().orderBy('rank');
+        const seen: string[] = [];
+        let page = q().cursorPaginate({ limit: 1 });
+        for (;;) {
+            seen.push(...page.data.map(m => `${m.user_id}/${m.team_id}`));
+            if (!page.hasNext) break;
+            page = q().cursorPaginate({ after: page.nextCursor!, limit: 1 });
+        }
+        expect(seen).toEqual(['1/3', '1/1', '1/2', '2/1']);
+        const back = q().cursorPaginate({ before: page.prevCursor!, limit: 2 });
+        expect(back.data.map(m => `${m.user_id}/${m.team_id}`)).toEqual(['1/1', '1/2']);
+        expect([back.hasPrev, back.hasNext]).toEqual([true, true]);
+        db.close();
+    });
+
+    test('defaults to id order and composes with where() and select()', () => {
+        const db = createDb();
+        const page = db.posts.select('title').where({ score: { $gt: 0 } }).cursorPaginate({ limit: 2 });
+        expect(titles(page.data)).toEqual(['p2', 'p3']);
+        expect(Object.keys(page.data[0]!)).not.toContain('_cursor_0');
+        const next = db.posts.select('title').where({ score: { $gt: 0 } }).cursorPaginate({ after: page.nextCursor!, limit: 2 });
+        expect(titles(next.data)).toEqual(['p5', 'p6']);
+        db.close();
+    });
+
+    test('orders by JSON paths', () => {
+        const db = createDb();
+        const page = db.posts.select().orderBy('meta.rank').cursorPaginate({ limit: 2 });
+        const next = db.posts.select().orderBy('meta.rank').cursorPaginate({ after: page.nextCursor!, limit: 2 });
+        expect(titles([...page.data, ...next.data])).toEqual(['p7', 'p6', 'p5', 'p4']);
+        db.close();
+    });
+
+    test('inserts between pages do not shift the next page', () => {
+        const db = createDb();
+        const first = db.posts.select().orderBy('id').cursorPaginate({ limit: 3 });
+        db.posts.delete(1);
+        db.posts.insert({ title: 'new', score: 0, meta: { rank: 0 } });
+        const second = db.posts.select().orderBy('id').cursorPaginate({ after: first.nextCursor!, limit: 3 });
+        expect(titles(second.data)).toEqual(['p4', 'p5', 'p6']);
+        db.close();
+    });
+
+    test('pages past the first with withCount() columns', () => {
+        const db = new Database(':memory:', { authors: z.object({ name: z.string() }), books: z.object({ author_id: z.number() }) }, {
+            relations: { books: { author_id: 'authors' } },
+        });
+        const authors = db.authors.insertMany(['a1', 'a2', 'a3', 'a4'].map(name => ({ name })));
+        db.books.insertMany(authors.map(a => ({ author_id: a.id })).concat({ author_id: authors[0]!.id }));
+        const q = () => db.authors.select().withCount('books');
+        const first = q().cursorPaginate({ limit: 2 });
+        const second = q().cursorPaginate({ after: first.nextCursor!, limit: 2 });
+        expect(first.data.map(a => [a.name, a.books_count])).toEqual([['a1', 2], ['a2', 1]]);
+        expect(second.data.map(a => [a.name, a.books_count])).toEqual([['a3', 1], ['a4', 1]]);
+        db.close();
+    });
+
+    test('rejects bad cursors', () => {
+        const db = createDb();
+        const page = db.posts.select().cursorPaginate({ limit: 2 });
+        expect(() => db.posts.select().cursorPaginate({ after: 'not a cursor' })).toThrow(QueryCompileError);
+        expect(() => db.posts.select().orderBy('score').cursorPaginate({ after: page.nextCursor! })).toThrow(/doesn't match/);
+        expect(() => db.posts.select().cursorPaginate({ after: page.nextCursor!, before: page.nextCursor! })).toThrow(/either after or before/);
+        db.close();
+    });
+});
@@ -0,0 +1,136 @@
+/**
+ * eager-loading.test.ts — Nested and constrained eager loading
+ *
+ * Dotted `.with()` paths, belongs-to loads, `{ relation: q => ... }`
+ * constraints with per-parent limits, soft deletes, and query counts.
+ */
+import { describe, test, expect } from 'bun:test';
+import { Database, z } from '../src/index';
+
+const UserSchema = z.object({ name: z.string() });
+const PostSchema = z.object({ title: z.string(), published: z.boolean().default(true), user_id: z.number().optional() });
+const CommentSchema = z.object({ body: z.string(), post_id: z.number().optional(), author_id: z.number().optional() });
+
+function createDb(options: { softDeletes?: boolean } = {}) {
+    const db = new Database(':memory:', { users: UserSchema, posts: PostSchema, comments: CommentSchema }, {
+        relations: {
+            posts: { user_id: 'users' },
+            comments: { post_id: 'posts', author_id: { to: 'users', as: 'author', inverse: 'authored' } },
+        },
+        ...options,
+    });
+    const [alice, bob] = db.users.insertMany([{ name: 'Alice' }, { name: 'Bob' }]);
+    const [p1, p2, p3] = db.posts.insertMany([
+        { title: 'A1', user_id: alice!.id },
+        { title: 'A2', user_id: alice!.id, published: false },
+        { title: 'B1', user_id: bob!.id },
+    ]);
+    db.comments.insertMany([
+        { body: 'nice', post_id: p1!.id, author_id: bob!.id },
+        { body: 'thanks', post_id: p1!.id, author_id: alice!.id },
+        { body: 'meh', post_id: p3!.id, author_id: alice!.id },
+    ]);
+    return { db, alice: alice!, bob: bob!, p2: p2! };
+}
+
+/** Count statements prepared while running `fn` (each distinct SQL compiles once). */
+function countQueries(db: any, fn: () => void): string[] {
+    const seen: string[] = [];
+    const original = db.db.query.bind(db.db);
+    db.db.query = (sql: string) => { seen.push(sql); return original(sql); };
+    try { fn(); } finally { db.db.query = original; }
+    return seen;
+}
+
+describe('dotted paths', () => {
+    test('load every level, one query per level', () => {
+        const { db } = createDb();
+        let users: any[] = [];
+        const sql = countQueries(db, () => {
+            users = db.users.select().with('posts.comments.author').orderBy('id').all();
+        });
+        expect(users[0].posts.map((p: any) => p.title)).toEqual(['A1', 'A2']);
+        expect(users[0].posts[0].comments.map((c: any) => [c.body, c.author.name])).toEqual([
+            ['nice', 'Bob'],
+            ['thanks', 'Alice'],
+        ]);
+        expect(users[1].posts[0].comments[0].author.name).toBe('Alice');
+        expect(sql.filter(s => s.includes(' IN ('))).toHaveLength(3);
+        db.close();
+    });
+
+    test('sibling paths share the first level', () => {
+        const { db } = createDb();
+        const users = db.users.select().with('posts.comments', 'posts', 'authored').orderBy('id').all() as any[];
+        expect(users[0].posts).toHaveLength(2);
+        expect(users[0].posts[0].comments).toHaveLength(2);
+        expect(users[0].authored.map((c: any) => c.body)).toEqual(['thanks', 'meh']);
+        db.close();
+    });
+});
+
+describe('belongs-to', () => {
+    test('attaches the parent row, or null', () => {
+        const { db } = createDb();
+        db.posts.insert({ title: 'orphan' });
+        const posts = db.posts.select().with('user').orderBy('id').all() as any[];
+        expect(posts.map(p => p.user?.name ?? null)).toEqual(['Alice', 'Alice', 'Bob', null]);
+        db.close();
+    });
+});
+
+describe('constraints', () => {
+    test('where/orderBy apply to the related query', () => {
+        const { db } = createDb();
+        const users = db.users.select()
+            .with({ posts: q => q.where({ published: true }).orderBy('title', 'desc') })
+            .orderBy('id')
+            .all() as any[];
+        expect(users.map(u => u.posts.map((p: any) => p.title))).toEqual([['A1'], ['B1']]);
+        db.close();
+    });
+
+    test('limit and offset apply per parent', () => {
+        const { db } = createDb();
+        const users = db.users.select().with({ posts: q => q.orderBy('id', 'desc').limit(1) }).orderBy('id').all() as any[];
+        expect(users.map(u => u.posts.map((p: any) => p.title))).toEqual([['A2'], ['B1']]);
+        const skipped = db.users.select().with({ posts: q => q.orderBy('id').offset(1) }).orderBy('id').all() as any[];
+        expect(skipped.map(u => u.posts.map((p: any) => p.title))).toEqual([['A2'], []]);
+        db.close();
+    });
+
+    test('per-parent limits are applied in SQL', () => {
+        const { db } = createDb();
+        let users: any[] = [];
+        const sql = countQueries(db, () => {
+            users = db.users.select().with({ posts: q => q.orderBy('title', 'desc').limit(1).offset(1) }).orderBy('id').all();
+        });
+        expect(users.map(u => u.posts.map((p: any) => p.title))).toEqual([['A1'], []]);
+        expect(Object.keys(users[0].posts[0])).not.toContain('_eager_parent');
+        const load = sql.find(s => s.includes('row_number()'))!;
+        expect(load).toContain('PARTITION BY');
+        expect(load).toContain('_eager_rank > 1 AND _eager_rank <= 2');
+        db.close();
+    });
+
+    test('constraints on nested paths and selected columns', () => {
+        const { db } = createDb();
+        const users = db.users.select()
+            .with('posts', { 'posts.comments': q => q.select('body').where({ body: { $ne: 'nice' } }) })
+            .orderBy('id')
+            .all() as any[];
+        expect(users[0].posts[0].comments.map((c: any) => c.body)).toEqual(['thanks']);
+        expect(users[1].posts[0].comments.map((c: any) => c.body)).toEqual(['meh']);
+        db.close();
+    });
+});
+
+describe('soft deletes', () => {
+    test('deleted related rows are not loaded', () => {
+        const { db, p2 } = createDb({ softDeletes: true });
+        db.posts.delete(p2.id);
+        const users = db.users.select().with('posts').orderBy('id').all() as any[];
+        expect(users[0].posts.map((p: any) => p.title)).toEqual(['A1']);
+        db.close();
+    });
+});
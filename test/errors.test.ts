@@ -0,0 +1,118 @@
+/**
+ * errors.test.ts — Typed error hierarchy
+ *
+ * SQLite constraint failures translated to UniqueConstraintError /
+ * ForeignKeyError / CheckConstraintError / NotNullError, NotFoundError
+ * from firstOrFail(), and QueryCompileError for bad queries.
+ */
+import { describe, test, expect } from 'bun:test';
+import {
+    Database, z,
+    SatiDBError, ValidationError, NotFoundError, QueryCompileError,
+    ConstraintError, UniqueConstraintError, ForeignKeyError, CheckConstraintError, NotNullError,
+} from '../src/index';
+
+function createDb() {
+    return new Database(':memory:', {
+        users: z.object({ name: z.string(), email: z.string(), age: z.number().min(0).optional() }),
+        posts: z.object({ title: z.string(), user_id: z.number().optional() }),
+    }, {
+        relations: { posts: { user_id: 'users' } },
+        unique: { users: [['email']] },
+    });
+}
+
+function catchError(fn: () => unknown): any {
+    try { fn(); } catch (err) { return err; }
+    throw new Error('expected fn to throw');
+}
+
+describe('constraint errors', () => {
+    test('duplicate unique value throws UniqueConstraintError with table and columns', () => {
+        const db = createDb();
+        db.users.insert({ name: 'Alice', email: 'a@b.com' });
+        const err = catchError(() => db.users.insert({ name: 'Alice 2', email: 'a@b.com' }));
+        expect(err).toBeInstanceOf(UniqueConstraintError);
+        expect(err).toBeInstanceOf(ConstraintError);
+        expect(err).toBeInstanceOf(SatiDBError);
+        expect(err.name).toBe('UniqueConstraintError');
+        expect(err.table).toBe('users');
+        expect(err.columns).toEqual(['email']);
+        expect(err.code).toBe('SQLITE_CONSTRAINT_UNIQUE');
+        expect(err.cause).toBeInstanceOf(Error);
+        db.close();
+    });
+
+    test('unique failures on update and insertMany are translated too', () => {
+        const db = createDb();
+        db.users.insert({ name: 'Alice', email: 'a@b.com' });
+        const bob = db.users.insert({ name: 'Bob', email: 'b@b.com' });
+        expect(catchError(() => db.users.update(bob.id, { email: 'a@b.com' }))).toBeInstanceOf(UniqueConstraintError);
+        expect(catchError(() => db.users.insertMany([
+            { name: 'Carol', email: 'c@b.com' },
+            { name: 'Carol', email: 'c@b.com' },
+        ]))).toBeInstanceOf(UniqueConstraintError);
+        expect(db.users.count()).toBe(2);
+        db.close();
+    });
+
+    test('missing parent throws ForeignKeyError', () => {
+        const db = createDb();
+        const err = catchError(() => db.posts.insert({ title: 'Orphan', user_id: 999 }));
+        expect(err).toBeInstanceOf(ForeignKeyError);
+        expect(err.table).toBe('posts');
+        db.close();
+    });
+
+    test('raw writes breaking a CHECK throw CheckConstraintError', () => {
+        const db = createDb();
+        const err = catchError(() => db.exec(`INSERT INTO users (name, email, age) VALUES ('Bob', 'x', -1)`));
+        expect(err).toBeInstanceOf(CheckConstraintError);
+        expect(err.table).toBeNull();
+        db.close();
+    });
+
+    test('NOT NULL failures carry table and column', () => {
+        const db = createDb();
+        db.exec('CREATE TABLE strict_t (id INTEGER PRIMARY KEY, label TEXT NOT NULL)');
+        const err = catchError(() => db.exec('INSERT INTO strict_t (id) VALUES (1)'));
+        expect(err).toBeInstanceOf(NotNullError);
+        expect(err.table).toBe('strict_t');
+        expect(err.column).toBe('label');
+        db.close();
+    });
+
+    test('non-constraint SQLite errors pass through unchanged', () => {
+        const db = createDb();
+        const err = catchError(() => db.raw('SELECT * FROM no_such_table'));
+        expect(err).not.toBeInstanceOf(SatiDBError);
+        db.close();
+    });
+});
+
+describe('lookup and query errors', () => {
+    test('firstOrFail() throws NotFoundError', () => {
+        const db = createDb();
+        const err = catchError(() => db.users.select().where({ name: 'Nobody' }).firstOrFail());
+        expect(err).toBeInstanceOf(NotFoundError);
+        expect(err.table).toBe('users');
+        db.close();
+    });
+
+    test('bad operators and empty bulk conditions throw QueryCompileError', () => {
+        const db = createDb();
+        expect(catchError(() => db.users.select().where({ age: { $nope: 1 } as any }).all())).toBeInstanceOf(QueryCompileError);
+        expect(catchError(() => db.users.select().where({ age: { $between: [1] } as any }).all())).toBeInstanceOf(QueryCompileError);
+        expect(catchError(() => db.users.select().countGrouped())).toBeInstanceOf(QueryCompileError);
+        expect(catchError(() => db.users.delete().where({}).exec())).toBeInstanceOf(QueryCompileError);
+        db.close();
+    });
+
+    test('ValidationError is part of the hierarchy', () => {
+        const db = createDb();
+        const err = catchError(() => db.users.insert({ name: 1 as any, email: 'a@b.com' }));
+        expect(err).toBeInstanceOf(ValidationError);
+        expect(err).toBeInstanceOf(SatiDBError);
+        db.close();
+    });
+});
@@ -0,0 +1,81 @@
+/**
+ * expressions.test.ts — The `op` expression library against a database
+ *
+ * n-ary logic, IN/BETWEEN/GLOB, EXISTS subqueries, CASE, arithmetic,
+ * COALESCE and CAST in `where()` and `selectExpr()` callbacks.
+ */
+import { describe, test, expect } from 'bun:test';
+import { Database, z, QueryCompileError } from '../src/index';
+
+const AuthorSchema = z.object({ name: z.string(), nickname: z.string().optional() });
+const BookSchema = z.object({ title: z.string(), author_id: z.number(), price: z.number(), qty: z.number(), code: z.string() });
+
+function createDb() {
+    const db = new Database(':memory:', { authors: AuthorSchema, books: BookSchema }, {
+        relations: { books: { author_id: 'authors' } },
+    });
+    const [alice, bob] = db.authors.insertMany([{ name: 'Alice', nickname: 'Al' }, { name: 'Bob' }, { name: 'Carol' }]);
+    db.books.insertMany([
+        { title: 'Dune', author_id: alice!.id, price: 10, qty: 3, code: 'SF-001' },
+        { title: 'Emma', author_id: alice!.id, price: 25, qty: 1, code: 'CL-002' },
+        { title: 'Ulysses', author_id: bob!.id, price: 40, qty: 2, code: 'CL-003' },
+    ]);
+    return db;
+}
+
+describe('where() callbacks', () => {
+    test('n-ary or, between, notIn and glob', () => {
+        const db = createDb();
+        const titles = (q: any) => db.books.select().where(q).orderBy('id').pluck('title');
+        expect(titles((c: any, _f: any, op: any) => op.or(op.eq(c.title, 'Dune'), op.eq(c.title, 'Emma'), op.gt(c.price, 30))))
+            .toEqual(['Dune', 'Emma', 'Ulysses']);
+        expect(titles((c: any, _f: any, op: any) => op.and(op.between(c.price, 10, 30), op.notIn(c.title, ['Dune'])))).toEqual(['Emma']);
+        expect(titles((c: any, _f: any, op: any) => op.glob(c.code, 'CL-*'))).toEqual(['Emma', 'Ulysses']);
+        expect(titles((c: any, _f: any, op: any) => op.not(op.glob(c.code, 'CL-*')))).toEqual(['Dune']);
+        db.close();
+    });
+
+    test('arithmetic and IN over a subquery', () => {
+        const db = createDb();
+        expect(db.books.select().where((c, _f, op) => op.gte(op.mul(c.price, c.qty), 50)).pluck('title')).toEqual(['Ulysses']);
+        const bobs = db.authors.select('id').where({ name: 'Bob' });
+        expect(db.books.select().where((c, _f, op) => op.in(c.author_id, bobs)).pluck('title')).toEqual(['Ulysses']);
+        db.close();
+    });
+
+    test('correlated EXISTS / NOT EXISTS', () => {
+        const db = createDb();
+        const theirBooks = db.books.select().whereRaw('books.author_id = authors.id');
+        expect(db.authors.select().where((_c, _f, op) => op.exists(theirBooks)).pluck('name')).toEqual(['Alice', 'Bob']);
+        expect(db.authors.select().where((_c, _f, op) => op.notExists(theirBooks)).pluck('name')).toEqual(['Carol']);
+        db.close();
+    });
+
+    test('unknown functions are rejected before reaching SQLite', () => {
+        const db = createDb();
+        expect(() => db.books.select().where((c, f: any, op) => op.eq(f.load_extension('x'), 1)).all()).toThrow(QueryCompileError);
+        db.close();
+    });
+});
+
+describe('selectExpr() callbacks', () => {
+    test('case, coalesce, cast and concatenation', () => {
+        const db = createDb();
+        const authors = db.authors.select('name')
+            .selectExpr('display', (c, _f, op) => op.coalesce(c.nickname, c.name))
+            .orderBy('id')
+            .all();
+        expect(authors.map(a => a.display)).toEqual(['Al', 'Bob', 'Carol']);
+
+        const books = db.books.select('title')
+            .selectExpr('band', (c, _f, op) => op.case([[op.lt(c.price, 20), 'cheap'], [op.lt(c.price, 30), 'mid']], 'pricey'))
+            .selectExpr('serial', (c, f, op) => op.cast(f.substr(c.code, 4), 'integer'))
+            .selectExpr('label', (c, _f, op) => op.concat(op.concat(c.title, ' #'), c.id))
+            .orderBy('id')
+            .all();
+        expect(books.map(b => [b.band, b.serial, b.label])).toEqual([
+            ['cheap', 1, 'Dune #1'], ['mid', 2, 'Emma #2'], ['pricey', 3, 'Ulysses #3'],
+        ]);
+        db.close();
+    });
+});
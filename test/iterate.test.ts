@@ -0,0 +1,103 @@
+/**
+ * iterate.test.ts — Streaming iteration
+ *
+ * `iterate()`, `chunk()` and `each()` read rows from the statement as they
+ * are consumed, with storage transforms, computed getters and eager loads.
+ */
+import { describe, test, expect } from 'bun:test';
+import { Database, z, QueryCompileError } from '../src/index';
+
+const AuthorSchema = z.object({ name: z.string() });
+const BookSchema = z.object({
+    title: z.string(),
+    author_id: z.number(),
+    published: z.date(),
+    tags: z.array(z.string()).default([]),
+});
+
+function createDb(count = 12) {
+    const db = new Database(':memory:', { authors: AuthorSchema, books: BookSchema }, {
+        relations: { books: { author_id: 'authors' } },
+        computed: { books: { label: (b: any) => `${b.title} (${b.tags.length})` } },
+    });
+    const [alice, bob] = db.authors.insertMany([{ name: 'Alice' }, { name: 'Bob' }]);
+    db.books.insertMany(Array.from({ length: count }, (_, i) => ({
+        title: `b${i + 1}`,
+        author_id: (i % 2 ? bob! : alice!).id,
+        published: new Date(Date.UTC(2020, 0, i + 1)),
+        tags: i % 3 ? [] : ['classic'],
+    })));
+    return db;
+}
+
+describe('iterate()', () => {
+    test('yields hydrated entities in query order', () => {
+        const db = createDb();
+        const rows = [...db.books.select().where({ author_id: 1 }).orderBy('id', 'desc').iterate()];
+        expect(rows.map(b => b.title)).toEqual(['b11', 'b9', 'b7', 'b5', 'b3', 'b1']);
+        expect(rows[0]!.published).toBeInstanceOf(Date);
+        expect((rows[5] as any).label).toBe('b1 (1)');
+        expect(typeof rows[0]!.update).toBe('function');
+        db.close();
+    });
+
+    test('breaking early stops reading, and the query can run again', () => {
+        const db = createDb();
+        const q = db.books.select().orderBy('id');
+        const seen: string[] = [];
+        for (const book of q.iterate()) {
+            seen.push(book.title);
+            // Same SQL while the stream is open
+            expect(q.clone().limit(1).all()).toHaveLength(1);
+            if (seen.length === 3) break;
+        }
+        expect(seen).toEqual(['b1', 'b2', 'b3']);
+        expect([...q.iterate()]).toHaveLength(12);
+        db.close();
+    });
+
+    test('eager loads are attached per batch', () => {
+        const db = createDb(1100);
+        let withAuthor = 0;
+        for (const book of db.books.select().with('author').iterate()) {
+            if ((book as any).author?.name) withAuthor++;
+        }
+        expect(withAuthor).toBe(1100);
+        db.close();
+    });
+
+    test('raw() and select() rows pass through', () => {
+        const db = createDb();
+        const [first] = [...db.books.select('title').raw().limit(1).iterate()];
+        expect(first).toEqual({ title: 'b1' } as any);
+        db.close();
+    });
+});
+
+describe('chunk() and each()', () => {
+    test('chunk() hands over batches and stops on false', () => {
+        const db = createDb();
+        const sizes: number[] = [];
+        db.books.select().orderBy('id').chunk(5, (rows, page) => {
+            sizes.push(rows.length);
+            expect(rows[0]!.title).toBe(`b${page * 5 + 1}`);
+        });
+        expect(sizes).toEqual([5, 5, 2]);
+
+        let pages = 0;
+        db.books.select().chunk(5, () => { pages++; return false; });
+        expect(pages).toBe(1);
+        expect(() => db.books.select().chunk(0, () => {})).toThrow(QueryCompileError);
+        db.close();
+    });
+
+    test('each() supports backfills that write while reading', () => {
+        const db = createDb();
+        db.books.select().where({ tags: { $contains: 'classic' } }).each((book, i) => {
+            book.update({ title: `${book.title}*` });
+            if (i === 2) return false;
+        });
+        expect(db.books.select().where({ title: { $like: '%*' } }).pluck('title')).toEqual(['b1*', 'b4*', 'b7*']);
+        db.close();
+    });
+});
@@ -0,0 +1,121 @@
+/**
+ * joins.test.ts — Join kinds and result shapes
+ *
+ * Joined columns come back as `table__column` (or nested with `nest: true`),
+ * decoded with the joined table's schema, and typed from its Zod schema.
+ */
+import { describe, test, expect } from 'bun:test';
+import { Database, z, QueryCompileError } from '../src/index';
+
+const AuthorSchema = z.object({ name: z.string(), active: z.boolean(), born: z.date(), bio: z.string().optional() });
+const BookSchema = z.object({ name: z.string(), author_id: z.number().optional() });
+const FormatSchema = z.object({ label: z.string() });
+
+function createDb() {
+    const db = new Database(':memory:', { authors: AuthorSchema, books: BookSchema, formats: FormatSchema }, {
+        relations: { books: { author_id: 'authors' } },
+    });
+    const [ann, bea] = db.authors.insertMany([
+        { name: 'Ann', active: true, born: new Date('1970-01-01'), bio: 'Novelist' },
+        { name: 'Bea', active: false, born: new Date('1980-01-01') },
+        { name: 'Cy', active: true, born: new Date('1990-01-01') },
+    ]);
+    db.books.insertMany([
+        { name: 'Dune', author_id: ann!.id },
+        { name: 'Emma', author_id: bea!.id },
+        { name: 'Orphan' },
+    ]);
+    db.formats.insertMany([{ label: 'paper' }, { label: 'ebook' }]);
+    return db;
+}
+
+describe('join() result shapes', () => {
+    test('all joined columns are prefixed, so same-named columns do not collide', () => {
+        const db = createDb();
+        const rows = db.books.select('name').join(db.authors).orderBy('authors__name').all();
+        expect(rows.map(r => [r.name, r.authors__name])).toEqual([['Dune', 'Ann'], ['Emma', 'Bea']]);
+        const active: boolean = rows[0]!.authors__active;
+        const born: Date = rows[0]!.authors__born;
+        expect(active).toBe(true);
+        expect(born).toBeInstanceOf(Date);
+        // @ts-expect-error — joined columns only exist prefixed
+        rows[0]!.active;
+        db.close();
+    });
+
+    test('nest: true folds the joined row into an object', () => {
+        const db = createDb();
+        const rows = db.books.select('name').join(db.authors, { nest: true, columns: ['name', 'born'] }).orderBy('id').all();
+        expect(rows[0]).toEqual({ name: 'Dune', authors: { name: 'Ann', born: new Date('1970-01-01') } });
+        const author: { name: string; born: Date } = rows[0]!.authors;
+        expect(author.name).toBe('Ann');
+        db.close();
+    });
+
+    test('relation names alias the join and name the nested key', () => {
+        const db = createDb();
+        const row = db.books.select('name').join('author', { nest: true }).where({ name: 'Emma' }).get();
+        expect(row?.author).toMatchObject({ name: 'Bea', active: false });
+        expect(db.books.select('name').join('author', { nest: true }).toSQL().sql).toContain('JOIN authors AS author');
+        db.close();
+    });
+
+    test('column lists keep the short prefix and are decoded too', () => {
+        const db = createDb();
+        const rows = db.books.select('name').join(db.authors, ['active']).orderBy('id').all();
+        expect(rows.map(r => r.authors_active)).toEqual([true, false]);
+        db.close();
+    });
+});
+
+describe('join kinds', () => {
+    test('leftJoin() keeps unmatched rows with null joined values', () => {
+        const db = createDb();
+        const nested = db.books.select('name').leftJoin(db.authors, { nest: true, columns: ['name'] }).orderBy('id').all();
+        expect(nested.map(r => r.authors?.name ?? null)).toEqual(['Ann', 'Bea', null]);
+        expect(nested[2]!.authors).toBeNull();
+        // @ts-expect-error — a left-joined row may be null
+        nested[0]!.authors.name;
+
+        const flat = db.authors.select('name').leftJoin(db.books, { columns: ['name'] }).orderBy('id').all();
+        expect(flat.map(r => [r.name, r.books__name])).toEqual([['Ann', 'Dune'], ['Bea', 'Emma'], ['Cy', null]]);
+        expect(db.authors.select().leftJoin(db.books).count()).toBe(3);
+        expect(db.authors.select().join(db.books).count()).toBe(2);
+        db.close();
+    });
+
+    test('a matched row with only null columns still nests as an object', () => {
+        const db = createDb();
+        const rows = db.books.select('name').leftJoin(db.authors, { nest: true, columns: ['bio'] }).orderBy('id').all();
+        expect(rows).toEqual([
+            { name: 'Dune', authors: { bio: 'Novelist' } },
+            { name: 'Emma', authors: { bio: null as any } },
+            { name: 'Orphan', authors: null },
+        ]);
+        db.close();
+    });
+
+    test('crossJoin() pairs every row without a relationship', () => {
+        const db = createDb();
+        const rows = db.authors.select('name').crossJoin(db.formats, { columns: ['label'] })
+            .where({ active: true }).orderBy('name').orderBy('formats__label').all();
+        expect(rows.map(r => `${r.name}/${r.formats__label}`)).toEqual(['Ann/ebook', 'Ann/paper', 'Cy/ebook', 'Cy/paper']);
+        expect(db.authors.select().join(db.formats, { kind: 'cross' }).count()).toBe(6);
+        db.close();
+    });
+
+    test('streaming and pagination shape rows the same way', () => {
+        const db = createDb();
+        const q = () => db.books.select('name').leftJoin('author', { nest: true, columns: ['name'] }).orderBy('id');
+        expect([...q().iterate()].map(r => r.author?.name ?? null)).toEqual(['Ann', 'Bea', null]);
+        expect(q().paginate(2, 2).data).toEqual([{ name: 'Orphan', author: null }]);
+        db.close();
+    });
+
+    test('tables with unknown columns cannot be nested', () => {
+        const db = createDb();
+        expect(() => db.books.select().withCte('picks', { sql: 'SELECT 1 AS id' }).join('picks', 'id', { nest: true }))
+            .toThrow(QueryCompileError);
+        db.close();
+    });
+});
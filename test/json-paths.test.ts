@@ -0,0 +1,134 @@
+/**
+ * json-paths.test.ts — Querying inside JSON columns
+ *
+ * Dotted-path conditions and ordering on z.object()/z.array() fields,
+ * `$contains` via json_each, and `jsonIndexes` generated columns.
+ */
+import { describe, test, expect } from 'bun:test';
+import { Database, z } from '../src/index';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const tmpFile = () => join(tmpdir(), `satidb-json-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+
+const UserSchema = z.object({
+    name: z.string(),
+    settings: z.object({ theme: z.string(), fontSize: z.number(), beta: z.boolean().optional() }),
+    tags: z.array(z.string()).default([]),
+});
+
+function createDb(options: { jsonIndexes?: Record<string, string[]> } = {}) {
+    const db = new Database(':memory:', { users: UserSchema }, options);
+    db.users.insertMany([
+        { name: 'Alice', settings: { theme: 'dark', fontSize: 14, beta: true }, tags: ['admin', 'ops'] },
+        { name: 'Bob', settings: { theme: 'light', fontSize: 12 }, tags: ['ops'] },
+        { name: 'Carol', settings: { theme: 'dark', fontSize: 18 }, tags: [] },
+    ]);
+    return db;
+}
+
+describe('dotted paths', () => {
+    test('where() on a JSON path, with operators', () => {
+        const db = createDb();
+        expect(db.users.select().where({ 'settings.theme': 'dark' }).all().map(u => u.name)).toEqual(['Alice', 'Carol']);
+        expect(db.users.select().where({ 'settings.fontSize': { $gt: 12 } }).count()).toBe(2);
+        expect(db.users.select().where({ 'settings.beta': true }).all().map(u => u.name)).toEqual(['Alice']);
+        expect(db.users.select().where({ 'settings.beta': { $isNull: true } }).count()).toBe(2);
+        expect(db.users.select().where({ 'tags.0': 'ops' }).all().map(u => u.name)).toEqual(['Bob']);
+        db.close();
+    });
+
+    test('$or branches and orderBy', () => {
+        const db = createDb();
+        const rows = db.users.select()
+            .where({ $or: [{ 'settings.theme': 'light' }, { 'settings.fontSize': { $gte: 18 } }] })
+            .orderBy('settings.fontSize', 'desc')
+            .all();
+        expect(rows.map(u => u.name)).toEqual(['Carol', 'Bob']);
+        db.close();
+    });
+
+    test('accessor finders and delete().where() accept paths too', () => {
+        const db = createDb();
+        expect(db.users.select().where({ 'settings.theme': 'light' }).get()!.name).toBe('Bob');
+        db.users.delete().where({ 'settings.theme': 'dark' } as any).exec();
+        expect(db.users.select().all().map(u => u.name)).toEqual(['Bob']);
+        db.close();
+    });
+
+    test('table-qualified keys are not treated as paths', () => {
+        const db = createDb();
+        expect(db.users.select().where({ 'users.name': 'Bob' } as any).count()).toBe(1);
+        db.close();
+    });
+
+    test('invalid path segments are rejected', () => {
+        const db = createDb();
+        expect(() => db.users.select().where({ "settings.x') OR 1=1 --": 1 } as any)).toThrow(/Invalid JSON path segment/);
+        db.close();
+    });
+});
+
+describe('$contains', () => {
+    test('matches array elements', () => {
+        const db = createDb();
+        expect(db.users.select().where({ tags: { $contains: 'ops' } }).all().map(u => u.name)).toEqual(['Alice', 'Bob']);
+        expect(db.users.select().where({ tags: { $contains: 'admin' }, name: { $ne: 'Bob' } }).count()).toBe(1);
+        expect(db.users.select().where({ $or: [{ tags: { $contains: 'admin' } }, { name: 'Carol' }] }).count()).toBe(2);
+        db.users.delete().where({ tags: { $contains: 'ops' } } as any).exec();
+        expect(db.users.select().all().map(u => u.name)).toEqual(['Carol']);
+        db.close();
+    });
+});
+
+describe('jsonIndexes', () => {
+    test('paths get an indexed generated column that queries use', () => {
+        const db = createDb({ jsonIndexes: { users: ['settings.theme'] } });
+        const sql = db.users.select().where({ 'settings.theme': 'dark' }).toSQL().sql;
+        expect(sql).toContain('settings_theme = ?');
+        const plan = db.raw<{ detail: string }>(`EXPLAIN QUERY PLAN SELECT * FROM users WHERE settings_theme = 'dark'`);
+        expect(plan.map(p => p.detail).join(' ')).toContain('idx_users_settings_theme');
+        expect(db.users.select().where({ 'settings.theme': 'dark' }).count()).toBe(2);
+        db.close();
+    });
+
+    test('added to an existing table, and skipped by load()', () => {
+        const path = tmpFile();
+        const plain = new Database(path, { users: UserSchema });
+        plain.users.insert({ name: 'Alice', settings: { theme: 'dark', fontSize: 14 } });
+        plain.close();
+
+        const db = new Database(path, { users: UserSchema }, { jsonIndexes: { users: ['settings.theme'] } });
+        expect(db.users.select().where({ 'settings.theme': 'dark' }).count()).toBe(1);
+        const dump = db.dump();
+        db.load(dump);
+        expect(db.users.select().where({ 'settings.theme': 'dark' }).count()).toBe(1);
+        expect(db.diff()).toEqual({});
+        db.close();
+    });
+
+    test('the generated column stays out of entities and joined rows', () => {
+        const db = new Database(':memory:', { users: UserSchema, notes: z.object({ body: z.string(), user_id: z.number() }) }, {
+            relations: { notes: { user_id: 'users' } },
+            jsonIndexes: { users: ['settings.theme'] },
+        });
+        const alice = db.users.insert({ name: 'Alice', settings: { theme: 'dark', fontSize: 14 } });
+        db.notes.insert({ body: 'hi', user_id: alice.id });
+
+        const row = db.users.select().get()!;
+        expect(Object.keys(row)).not.toContain('settings_theme');
+        expect(Object.keys(alice)).not.toContain('settings_theme');
+        const { id, ...copy } = JSON.parse(JSON.stringify(row)); // a plain copy, as from an API payload
+        expect(db.users.insert(copy).settings.theme).toBe('dark');
+
+        const joined = db.users.select('name').join(db.notes, { columns: ['body'] }).all();
+        expect(joined).toEqual([{ name: 'Alice', notes__body: 'hi' }]);
+        expect(Object.keys(db.notes.select().join(db.users).get()!)).not.toContain('users__settings_theme');
+        db.close();
+    });
+
+    test('paths must point into a JSON column', () => {
+        expect(() => new Database(':memory:', { users: UserSchema }, { jsonIndexes: { users: ['name.first'] } }))
+            .toThrow(/must be a path into a JSON column/);
+    });
+});
@@ -0,0 +1,173 @@
+/**
+ * many-to-many.test.ts — Many-to-many relations through junction tables
+ *
+ * `{ through }` relations, junction table creation, attach/detach/sync,
+ * the inverse nav, `.with()` eager loading and auto-resolved joins.
+ */
+import { describe, test, expect } from 'bun:test';
+import { Database, z, ForeignKeyError } from '../src/index';
+
+const PostSchema = z.object({ title: z.string() });
+const TagSchema = z.object({ name: z.string() });
+
+function createDb() {
+    return new Database(':memory:', { posts: PostSchema, tags: TagSchema }, {
+        relations: { posts: { tags: { through: 'post_tags' } } },
+    });
+}
+
+describe('junction table', () => {
+    test('is created with a composite key and cascading foreign keys', () => {
+        const db = createDb();
+        expect(db.columns('post_tags').map(c => [c.name, c.type, c.pk])).toEqual([
+            ['post_id', 'INTEGER', 1],
+            ['tag_id', 'INTEGER', 2],
+        ]);
+        const post = db.posts.insert({ title: 'Hello' });
+        const tag = db.tags.insert({ name: 'news' });
+        post.attach('tags', tag);
+        db.tags.delete(tag.id);
+        expect(db.raw('SELECT * FROM post_tags')).toEqual([]);
+        db.close();
+    });
+
+    test('a junction declared as a schema is used as-is, with pivot columns', () => {
+        const db = new Database(':memory:', {
+            posts: PostSchema,
+            tags: TagSchema,
+            taggings: z.object({ post_id: z.number(), tag_id: z.number(), weight: z.number().default(1) }),
+        }, {
+            relations: {
+                taggings: { post_id: 'posts', tag_id: 'tags' },
+                posts: { tags: { through: 'taggings' } },
+            },
+        });
+        const post = db.posts.insert({ title: 'Hello' });
+        const [a, b] = db.tags.insertMany([{ name: 'a' }, { name: 'b' }]);
+        post.attach('tags', [a!, b!], { weight: 5 });
+        expect(db.taggings.select().all().map(t => [t.tag_id, t.weight])).toEqual([[1, 5], [2, 5]]);
+        expect(post.tags().map(t => t.name)).toEqual(['a', 'b']);
+        db.close();
+    });
+
+    test('keys default to <singular>_id and can be overridden', () => {
+        const db = new Database(':memory:', {
+            users: z.object({ name: z.string() }),
+            categories: z.object({ label: z.string() }),
+        }, {
+            relations: {
+                users: {
+                    categories: { through: 'user_categories' },
+                    follows: { through: 'follows', to: 'users', sourceKey: 'follower_id', targetKey: 'followee_id' },
+                },
+            },
+        });
+        expect(db.columns('user_categories').map(c => c.name)).toEqual(['user_id', 'category_id']);
+        expect(db.columns('follows').map(c => c.name)).toEqual(['follower_id', 'followee_id']);
+
+        const [alice, bob] = db.users.insertMany([{ name: 'Alice' }, { name: 'Bob' }]);
+        alice!.attach('follows', bob!);
+        expect(alice!.follows().map(u => u.name)).toEqual(['Bob']);
+        expect(bob!.follows()).toEqual([]);
+        db.close();
+    });
+
+    test('self-referencing relations need distinct keys', () => {
+        expect(() => new Database(':memory:', { users: z.object({ name: z.string() }) }, {
+            relations: { users: { friends: { through: 'friendships', to: 'users' } } },
+        })).toThrow(/distinct sourceKey\/targetKey/);
+    });
+});
+
+describe('attach / detach / sync', () => {
+    test('attach links rows once and both sides can navigate', () => {
+        const db = createDb();
+        const post = db.posts.insert({ title: 'Hello' });
+        const [a, b] = db.tags.insertMany([{ name: 'a' }, { name: 'b' }]);
+
+        expect(post.attach('tags', [a!.id, b!])).toBe(2);
+        expect(post.attach('tags', a!)).toBe(0); // already linked
+        expect(post.tags().map(t => t.name)).toEqual(['a', 'b']);
+        expect(a!.posts().map(p => p.title)).toEqual(['Hello']);
+        db.close();
+    });
+
+    test('attaching a missing row throws ForeignKeyError', () => {
+        const db = createDb();
+        const post = db.posts.insert({ title: 'Hello' });
+        expect(() => post.attach('tags', 99)).toThrow(ForeignKeyError);
+        db.close();
+    });
+
+    test('detach removes the given links, or all of them', () => {
+        const db = createDb();
+        const post = db.posts.insert({ title: 'Hello' });
+        const tags = db.tags.insertMany([{ name: 'a' }, { name: 'b' }, { name: 'c' }]);
+        post.attach('tags', tags);
+
+        expect(post.detach('tags', tags[0]!)).toBe(1);
+        expect(post.tags().map(t => t.name)).toEqual(['b', 'c']);
+        expect(post.detach('tags')).toBe(2);
+        expect(post.tags()).toEqual([]);
+        expect(db.tags.count()).toBe(3);
+        db.close();
+    });
+
+    test('sync makes the linked set exact', () => {
+        const db = createDb();
+        const post = db.posts.insert({ title: 'Hello' });
+        const [a, b, c] = db.tags.insertMany([{ name: 'a' }, { name: 'b' }, { name: 'c' }]);
+        post.attach('tags', [a!, b!]);
+
+        expect(post.sync('tags', [b!, c!])).toEqual({ attached: [c!.id], detached: [a!.id] });
+        expect(post.tags().map(t => t.name)).toEqual(['b', 'c']);
+        expect(post.sync('tags', [])).toEqual({ attached: [], detached: [b!.id, c!.id] });
+        db.close();
+    });
+
+    test('unknown relations are rejected', () => {
+        const db = createDb();
+        const post = db.posts.insert({ title: 'Hello' });
+        expect(() => (post as any).attach('authors', 1)).toThrow(/no many-to-many relation 'authors'/);
+        db.close();
+    });
+});
+
+describe('queries', () => {
+    function seeded() {
+        const db = createDb();
+        const [p1, p2] = db.posts.insertMany([{ title: 'One' }, { title: 'Two' }]);
+        const [a, b] = db.tags.insertMany([{ name: 'a' }, { name: 'b' }]);
+        p1!.attach('tags', [a!, b!]);
+        p2!.attach('tags', b!);
+        return db;
+    }
+
+    test('.with() eager loads both directions in one query each', () => {
+        const db = seeded();
+        const posts = db.posts.select().with('tags').orderBy('id').all();
+        expect(posts.map(p => [p.title, (p as any).tags.map((t: any) => t.name)])).toEqual([
+            ['One', ['a', 'b']],
+            ['Two', ['b']],
+        ]);
+        const tags = db.tags.select().with('posts').orderBy('id').all();
+        expect((tags[1] as any).posts.map((p: any) => p.title)).toEqual(['One', 'Two']);
+        db.close();
+    });
+
+    test('.with() limits apply per parent, not per related row', () => {
+        const db = seeded();
+        const posts = db.posts.select().with({ tags: q => q.orderBy('name', 'desc').limit(1) }).orderBy('id').all();
+        expect(posts.map(p => (p as any).tags.map((t: any) => t.name))).toEqual([['b'], ['b']]);
+        const rest = db.posts.select().with({ tags: q => q.orderBy('id').offset(1) }).orderBy('id').all();
+        expect(rest.map(p => (p as any).tags.map((t: any) => t.name))).toEqual([['b'], []]);
+        db.close();
+    });
+
+    test('join() resolves through the junction table', () => {
+        const db = seeded();
+        const rows = db.posts.select('title').join(db.tags, ['name']).all() as any[];
+        expect(rows.map(r => [r.title, r.tags_name]).sort()).toEqual([['One', 'a'], ['One', 'b'], ['Two', 'b']]);
+        db.close();
+    });
+});
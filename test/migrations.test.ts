@@ -0,0 +1,194 @@
+/**
+ * migrations.test.ts — Versioned migrations
+ *
+ * migrate(), rollback(n), migrationStatus(), fresh-file baselining,
+ * transactional up/down steps, and applyDiff() table rebuilds.
+ */
+import { describe, test, expect } from 'bun:test';
+import { Database as SqliteDatabase } from 'bun:sqlite';
+import { Database, z } from '../src/index';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const tmpFile = () => join(tmpdir(), `satidb-migrations-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+
+/** Simulate an older deploy: `users` with a `fullname` column. */
+function createLegacyFile(): string {
+    const path = tmpFile();
+    const raw = new SqliteDatabase(path);
+    raw.run('CREATE TABLE "users" (id INTEGER PRIMARY KEY AUTOINCREMENT, "fullname" TEXT, "legacy" TEXT)');
+    raw.run(`INSERT INTO "users" ("fullname", "legacy") VALUES ('Alice', 'x')`);
+    raw.close();
+    return path;
+}
+
+const UserSchema = z.object({ name: z.string() });
+
+const renameFullname = {
+    name: '001_rename_fullname',
+    up: 'ALTER TABLE "users" RENAME COLUMN "fullname" TO "name"',
+    down: 'ALTER TABLE "users" RENAME COLUMN "name" TO "fullname"',
+};
+
+const dropLegacy = {
+    name: '002_drop_legacy',
+    up: (db: SqliteDatabase) => db.run('ALTER TABLE "users" DROP COLUMN "legacy"'),
+    down: (db: SqliteDatabase) => db.run('ALTER TABLE "users" ADD COLUMN "legacy" TEXT'),
+};
+
+describe('versioned migrations', () => {
+    test('pending migrations run on startup before the additive pass', () => {
+        const db = new Database(createLegacyFile(), { users: UserSchema }, {
+            migrations: [renameFullname, dropLegacy],
+        });
+        const cols = db.columns('users').map(c => c.name);
+        expect(cols).toEqual(['id', 'name']);
+        expect(db.users.select().get()!.name).toBe('Alice');
+        expect(db.migrationStatus().every(m => m.applied)).toBe(true);
+        db.close();
+    });
+
+    test('fresh file records every migration as applied without running it', () => {
+        const db = new Database(tmpFile(), { users: UserSchema }, {
+            migrations: [renameFullname, dropLegacy],
+        });
+        const status = db.migrationStatus();
+        expect(status.map(s => s.name)).toEqual(['001_rename_fullname', '002_drop_legacy']);
+        expect(status.every(s => s.applied && typeof s.appliedAt === 'string')).toBe(true);
+        expect(db.columns('users').map(c => c.name)).toEqual(['id', 'name']);
+        db.close();
+    });
+
+    test('migrations already applied are not re-run on reopen', () => {
+        const path = createLegacyFile();
+        let runs = 0;
+        const counting = { name: '001_count', up: () => { runs++; } };
+
+        new Database(path, { users: UserSchema }, { migrations: [renameFullname, counting] }).close();
+        new Database(path, { users: UserSchema }, { migrations: [renameFullname, counting] }).close();
+        expect(runs).toBe(1);
+    });
+
+    test('rollback(n) runs down steps newest first', () => {
+        const path = createLegacyFile();
+        const db = new Database(path, { users: UserSchema }, {
+            migrations: [renameFullname, dropLegacy],
+        });
+
+        expect(db.rollback()).toEqual(['002_drop_legacy']);
+        expect(db.columns('users').map(c => c.name)).toContain('legacy');
+
+        expect(db.rollback(5)).toEqual(['001_rename_fullname']);
+        expect(db.columns('users').map(c => c.name)).toContain('fullname');
+        expect(db.migrationStatus().some(m => m.applied)).toBe(false);
+
+        expect(db.migrate()).toEqual(['001_rename_fullname', '002_drop_legacy']);
+        db.close();
+    });
+
+    test('a failing step rolls back its transaction and is not recorded', () => {
+        const path = createLegacyFile();
+        const broken = {
+            name: '001_broken',
+            up: (db: SqliteDatabase) => {
+                db.run(`INSERT INTO "users" ("fullname") VALUES ('Bob')`);
+                db.run('SELECT * FROM "no_such_table"');
+            },
+        };
+        expect(() => new Database(path, { users: z.object({ fullname: z.string() }) }, { migrations: [broken] })).toThrow();
+
+        const raw = new SqliteDatabase(path);
+        expect((raw.query('SELECT COUNT(*) as n FROM "users"').get() as any).n).toBe(1);
+        expect((raw.query('SELECT COUNT(*) as n FROM "_migrations"').get() as any).n).toBe(0);
+        raw.close();
+    });
+
+    test('rollback without a down step throws', () => {
+        const db = new Database(':memory:', { users: UserSchema }, {
+            migrations: [{ name: '001_noop', up: () => { } }],
+        });
+        expect(() => db.rollback()).toThrow(/no down step/);
+        db.close();
+    });
+
+    test('duplicate migration names are rejected', () => {
+        expect(() => new Database(':memory:', { users: UserSchema }, {
+            migrations: [{ name: 'a', up: '' }, { name: 'a', up: '' }],
+        })).toThrow(/duplicate/);
+    });
+});
+
+describe('applyDiff', () => {
+    /** Old deploy: users has an extra `legacy` column and `age` stored as TEXT. */
+    function createDriftedFile(): string {
+        const path = tmpFile();
+        const old = new Database(path, {
+            users: z.object({ name: z.string(), age: z.string(), legacy: z.string().optional() }),
+            posts: z.object({ title: z.string(), user_id: z.number().optional() }),
+        }, {
+            relations: { posts: { user_id: 'users' } },
+            indexes: { users: ['name', 'legacy'] },
+            unique: { users: [['name']] },
+        });
+        const alice = old.users.insert({ name: 'Alice', age: '30', legacy: 'x' });
+        old.posts.insert({ title: 'Hello', user_id: alice.id });
+        old.close();
+        return path;
+    }
+
+    const current = () => ({
+        users: z.object({ name: z.string(), age: z.number() }),
+        posts: z.object({ title: z.string(), user_id: z.number().optional() }),
+    });
+
+    test('does nothing unless destructive changes are opted into', () => {
+        const db = new Database(createDriftedFile(), current(), { relations: { posts: { user_id: 'users' } } });
+        expect(db.applyDiff()).toEqual({});
+        expect(db.diff().users!.removed).toEqual(['legacy']);
+        db.close();
+    });
+
+    test('drops removed columns and retypes changed ones, keeping rows', () => {
+        const db = new Database(createDriftedFile(), current(), { relations: { posts: { user_id: 'users' } } });
+        const result = db.applyDiff({ dropRemoved: true, retype: true });
+        expect(result).toEqual({ users: { dropped: ['legacy'], retyped: ['age'], rechecked: [], relinked: [] } });
+        expect(db.diff()).toEqual({});
+
+        const alice = db.users.select().get()!;
+        expect(alice.name).toBe('Alice');
+        expect(alice.age).toBe(30);
+        db.close();
+    });
+
+    test('retype only keeps removed columns in place', () => {
+        const db = new Database(createDriftedFile(), current(), { relations: { posts: { user_id: 'users' } } });
+        db.applyDiff({ retype: true });
+        expect(db.columns('users').map(c => c.name)).toContain('legacy');
+        expect(db.diff().users).toEqual({ added: [], removed: ['legacy'], typeChanged: [], checkChanged: [], foreignKeyChanged: [] });
+        db.close();
+    });
+
+    test('preserves indexes, unique indexes, child FKs and change triggers', async () => {
+        const db = new Database(createDriftedFile(), current(), { relations: { posts: { user_id: 'users' } } });
+        db.applyDiff({ dropRemoved: true, retype: true });
+
+        const objects = db.raw<{ name: string }>(`SELECT name FROM sqlite_master WHERE tbl_name = 'users' AND type IN ('index', 'trigger')`).map(r => r.name);
+        expect(objects).toContain('uq_users_name');
+        expect(objects).toContain('_trg_users_insert');
+        expect(objects).not.toContain('idx_users_name_legacy'); // covered a dropped column
+
+        // Child row still points at its parent — DROP TABLE did not SET NULL it
+        const post = db.posts.select().get()!;
+        expect(post.user_id).toBe(1);
+        expect((post as any).user()!.name).toBe('Alice');
+
+        expect(() => db.users.insert({ name: 'Alice', age: 1 })).toThrow();
+
+        const seen: string[] = [];
+        db.users.on('insert', (u) => { seen.push(u.name); });
+        db.users.insert({ name: 'Bob', age: 5 });
+        await new Promise(r => setTimeout(r, 150));
+        expect(seen).toEqual(['Bob']);
+        db.close();
+    });
+});
@@ -0,0 +1,114 @@
+/**
+ * named-relations.test.ts — Object-form relations
+ *
+ * `{ fk: { to, as, inverse, kind } }`: custom nav names, self-referencing
+ * relations, one-to-one inverses, eager loading and relation-name joins.
+ */
+import { describe, test, expect } from 'bun:test';
+import { Database, z, UniqueConstraintError } from '../src/index';
+import { parseRelationsConfig } from '../src/schema';
+
+const EmployeeSchema = z.object({ name: z.string(), manager_id: z.number().optional() });
+const UserSchema = z.object({ name: z.string() });
+const ProfileSchema = z.object({ bio: z.string(), user_id: z.number().optional() });
+
+function createOrgDb() {
+    return new Database(':memory:', { employees: EmployeeSchema }, {
+        relations: { employees: { manager_id: { to: 'employees', as: 'manager', inverse: 'reports' } } },
+    });
+}
+
+function createProfileDb() {
+    return new Database(':memory:', { users: UserSchema, profiles: ProfileSchema }, {
+        relations: { profiles: { user_id: { to: 'users', inverse: 'profile', kind: 'one' } } },
+    });
+}
+
+describe('parseRelationsConfig', () => {
+    test('object entries name both sides', () => {
+        const rels = parseRelationsConfig({
+            employees: { manager_id: { to: 'employees', as: 'manager', inverse: 'reports' } },
+            profiles: { user_id: { to: 'users', kind: 'one', inverse: false } },
+        }, { employees: EmployeeSchema, users: UserSchema, profiles: ProfileSchema });
+        expect(rels).toEqual([
+            { type: 'belongs-to', from: 'employees', to: 'employees', relationshipField: 'manager', foreignKey: 'manager_id' },
+            { type: 'one-to-many', from: 'employees', to: 'employees', relationshipField: 'reports', foreignKey: 'manager_id' },
+            { type: 'belongs-to', from: 'profiles', to: 'users', relationshipField: 'user', foreignKey: 'user_id' },
+        ]);
+    });
+});
+
+describe('self-referencing relations', () => {
+    test('manager() and reports() navigate the same table', () => {
+        const db = createOrgDb();
+        const boss = db.employees.insert({ name: 'Boss' });
+        const a = db.employees.insert({ name: 'A', manager_id: boss.id });
+        db.employees.insert({ name: 'B', manager_id: boss.id });
+
+        expect(a.manager()!.name).toBe('Boss');
+        expect(boss.manager()).toBeNull();
+        expect(boss.reports().map(e => e.name)).toEqual(['A', 'B']);
+        expect('employees' in boss).toBe(false);
+        db.close();
+    });
+
+    test('.with() eager loads by the custom name', () => {
+        const db = createOrgDb();
+        const boss = db.employees.insert({ name: 'Boss' });
+        db.employees.insert({ name: 'A', manager_id: boss.id });
+        const rows = db.employees.select().with('reports').orderBy('id').all();
+        expect(rows.map(r => (r as any).reports.length)).toEqual([1, 0]);
+        db.close();
+    });
+
+    test('join() by relation name aliases the self-join', () => {
+        const db = createOrgDb();
+        const boss = db.employees.insert({ name: 'Boss' });
+        db.employees.insert({ name: 'A', manager_id: boss.id });
+        const rows = db.employees.select('name').join('manager', ['name']).all() as any[];
+        expect(rows).toEqual([{ name: 'A', manager_name: 'Boss' }]);
+        expect(db.employees.select('name').join('manager', ['name']).toSQL().sql)
+            .toContain('JOIN employees AS manager ON employees.manager_id = manager.id');
+        db.close();
+    });
+
+    test('where() accepts an entity for the custom nav name', () => {
+        const db = createOrgDb();
+        const boss = db.employees.insert({ name: 'Boss' });
+        db.employees.insert({ name: 'A', manager_id: boss.id });
+        expect(db.employees.select().where({ manager: boss } as any).all().map(e => e.name)).toEqual(['A']);
+        db.close();
+    });
+});
+
+describe("kind: 'one'", () => {
+    test('the inverse returns one row or null', () => {
+        const db = createProfileDb();
+        const alice = db.users.insert({ name: 'Alice' });
+        const bob = db.users.insert({ name: 'Bob' });
+        db.profiles.insert({ bio: 'Hi', user_id: alice.id });
+
+        expect(alice.profile()!.bio).toBe('Hi');
+        expect(bob.profile()).toBeNull();
+        expect(db.profiles.select().get()!.user()!.name).toBe('Alice');
+        db.close();
+    });
+
+    test('the foreign key is unique', () => {
+        const db = createProfileDb();
+        const alice = db.users.insert({ name: 'Alice' });
+        db.profiles.insert({ bio: 'Hi', user_id: alice.id });
+        expect(() => db.profiles.insert({ bio: 'Again', user_id: alice.id })).toThrow(UniqueConstraintError);
+        db.close();
+    });
+
+    test('.with() attaches a single row', () => {
+        const db = createProfileDb();
+        const alice = db.users.insert({ name: 'Alice' });
+        db.users.insert({ name: 'Bob' });
+        db.profiles.insert({ bio: 'Hi', user_id: alice.id });
+        const users = db.users.select().with('profile').orderBy('id').all() as any[];
+        expect(users.map(u => u.profile?.bio ?? null)).toEqual(['Hi', null]);
+        db.close();
+    });
+});
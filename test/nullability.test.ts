@@ -0,0 +1,139 @@
+/**
+ * nullability.test.ts — NOT NULL and DEFAULT column DDL
+ *
+ * zodTypeToConstraints() mapping, raw inserts picking up SQL defaults,
+ * and safe defaults when runMigrations() adds required columns.
+ */
+import { describe, test, expect } from 'bun:test';
+import { Database, z, NotNullError } from '../src/index';
+import { zodTypeToConstraints, safeColumnDefault } from '../src/schema';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const tmpFile = () => join(tmpdir(), `satidb-nullability-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+
+describe('zodTypeToConstraints', () => {
+    test('required fields are NOT NULL; optional and nullable ones are not', () => {
+        expect(zodTypeToConstraints(z.string())).toEqual({ notNull: true, default: null });
+        expect(zodTypeToConstraints(z.string().optional())).toEqual({ notNull: false, default: null });
+        expect(zodTypeToConstraints(z.number().nullable())).toEqual({ notNull: false, default: null });
+    });
+
+    test('static defaults become SQL literals', () => {
+        expect(zodTypeToConstraints(z.number().default(0))).toEqual({ notNull: true, default: '0' });
+        expect(zodTypeToConstraints(z.string().default("it's"))).toEqual({ notNull: true, default: `'it''s'` });
+        expect(zodTypeToConstraints(z.boolean().default(false))).toEqual({ notNull: true, default: '0' });
+        expect(zodTypeToConstraints(z.number().nullable().default(1))).toEqual({ notNull: false, default: '1' });
+        expect(zodTypeToConstraints(z.string().default(() => 'draft'))).toEqual({ notNull: true, default: `'draft'` });
+    });
+
+    test('object, array and date defaults are left to Zod and stay nullable', () => {
+        expect(zodTypeToConstraints(z.array(z.string()).default([]))).toEqual({ notNull: false, default: null });
+        expect(zodTypeToConstraints(z.object({ a: z.number() }).default({ a: 1 }))).toEqual({ notNull: false, default: null });
+        expect(zodTypeToConstraints(z.date().default(() => new Date()))).toEqual({ notNull: false, default: null });
+    });
+
+    test('generated defaults are left to Zod, so the DDL and plan() are stable', () => {
+        let n = 0;
+        const code = z.string().default(() => `c${++n}`);
+        expect(zodTypeToConstraints(code)).toEqual({ notNull: false, default: null });
+
+        const schemas = { coupons: z.object({ code, uses: z.number().default(0) }) };
+        const plan = () => new Database(':memory:', schemas, { dryRun: true }).plan().map(p => p.sql);
+        expect(plan()).toEqual(plan());
+        expect(plan()[0]).toBe('CREATE TABLE IF NOT EXISTS "coupons" (id INTEGER PRIMARY KEY AUTOINCREMENT, "code" TEXT, "uses" REAL NOT NULL DEFAULT 0)');
+
+        const db = new Database(':memory:', schemas);
+        db.exec('INSERT INTO coupons (uses) VALUES (1)');
+        expect(db.raw<{ code: string | null }>('SELECT code FROM coupons')).toEqual([{ code: null }]);
+        expect(db.coupons.insert({}).code).toMatch(/^c\d+$/);
+        db.close();
+    });
+
+    test('safeColumnDefault picks a zero value the schema accepts', () => {
+        expect(safeColumnDefault(z.string())).toBe(`''`);
+        expect(safeColumnDefault(z.enum(['draft', 'live']))).toBe(`'draft'`);
+        expect(safeColumnDefault(z.number().int())).toBe('0');
+        expect(safeColumnDefault(z.boolean())).toBe('0');
+        expect(safeColumnDefault(z.string().min(1))).toBeNull();
+        expect(safeColumnDefault(z.number().positive())).toBeNull();
+        expect(safeColumnDefault(z.date())).toBeNull();
+    });
+});
+
+describe('table DDL', () => {
+    const schemas = {
+        authors: z.object({ name: z.string() }),
+        posts: z.object({
+            title: z.string(),
+            views: z.number().int().default(0),
+            status: z.enum(['draft', 'live']).default('draft'),
+            subtitle: z.string().optional(),
+            author_id: z.number().int(),
+        }),
+    };
+
+    test('columns carry NOT NULL and DEFAULT clauses', () => {
+        const db = new Database(':memory:', schemas, { relations: { posts: { author_id: 'authors' } } });
+        const cols = Object.fromEntries(db.columns('posts').map(c => [c.name, [c.notnull, c.dflt_value]]));
+        expect(cols).toEqual({
+            id: [0, null],
+            title: [1, null],
+            views: [1, '0'],
+            status: [1, `'draft'`],
+            subtitle: [0, null],
+            author_id: [0, null], // ON DELETE SET NULL needs a nullable FK
+        });
+        db.close();
+    });
+
+    test('raw inserts get SQL defaults and hit NOT NULL', () => {
+        const db = new Database(':memory:', schemas);
+        db.exec(`INSERT INTO posts (title, author_id) VALUES ('Hello', 1)`);
+        expect(db.posts.select().get()).toMatchObject({ views: 0, status: 'draft', subtitle: null });
+
+        const err = (() => { try { db.exec(`INSERT INTO posts (views) VALUES (1)`); } catch (e) { return e as any; } })();
+        expect(err).toBeInstanceOf(NotNullError);
+        expect(err.column).toBe('title');
+        db.close();
+    });
+});
+
+describe('adding required columns', () => {
+    test('existing rows are filled with a safe default', () => {
+        const path = tmpFile();
+        const old = new Database(path, { posts: z.object({ title: z.string() }) });
+        old.posts.insert({ title: 'Hello' });
+        old.close();
+
+        const db = new Database(path, {
+            posts: z.object({
+                title: z.string(),
+                body: z.string(),
+                status: z.enum(['draft', 'live']),
+                rank: z.number().int().default(5),
+                slug: z.string().min(1),
+            }),
+        });
+        const cols = Object.fromEntries(db.columns('posts').map(c => [c.name, [c.notnull, c.dflt_value]]));
+        expect(cols.body).toEqual([1, `''`]);
+        expect(cols.status).toEqual([1, `'draft'`]);
+        expect(cols.rank).toEqual([1, '5']);
+        expect(cols.slug).toEqual([0, null]); // no value satisfies min(1) — stays nullable
+        expect(db.posts.select().get()).toMatchObject({ title: 'Hello', body: '', status: 'draft', rank: 5, slug: null });
+        db.close();
+    });
+
+    test('table rebuilds keep the live nullability', () => {
+        const path = tmpFile();
+        const old = new Database(path, { posts: z.object({ title: z.string(), legacy: z.string().optional() }) });
+        old.posts.insert({ title: 'Hello' });
+        old.close();
+
+        const db = new Database(path, { posts: z.object({ title: z.string(), slug: z.string().min(1) }) });
+        db.applyDiff({ dropRemoved: true });
+        const cols = Object.fromEntries(db.columns('posts').map(c => [c.name, c.notnull]));
+        expect(cols).toEqual({ id: 0, title: 1, slug: 0 });
+        db.close();
+    });
+});
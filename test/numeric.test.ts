@@ -0,0 +1,104 @@
+/**
+ * numeric.test.ts — INTEGER vs REAL columns and z.bigint()
+ *
+ * zodTypeToSqlType() number mapping, affinity-aware diff(), REAL drift on
+ * old files, and BigInt round-tripping beyond Number.MAX_SAFE_INTEGER.
+ */
+import { describe, test, expect } from 'bun:test';
+import { Database as SqliteDatabase } from 'bun:sqlite';
+import { Database, z } from '../src/index';
+import { zodTypeToSqlType, sqlAffinity } from '../src/schema';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const tmpFile = () => join(tmpdir(), `satidb-numeric-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+
+describe('zodTypeToSqlType', () => {
+    test('ints, bigints and booleans are INTEGER; other numbers are REAL', () => {
+        expect(zodTypeToSqlType(z.number().int())).toBe('INTEGER');
+        expect(zodTypeToSqlType(z.number().int().min(0).optional())).toBe('INTEGER');
+        expect(zodTypeToSqlType(z.number())).toBe('REAL');
+        expect(zodTypeToSqlType(z.number().nullable().default(0))).toBe('REAL');
+        expect(zodTypeToSqlType(z.bigint())).toBe('INTEGER');
+        expect(zodTypeToSqlType(z.boolean())).toBe('INTEGER');
+    });
+
+    test('sqlAffinity follows SQLite rules', () => {
+        expect(sqlAffinity('BIGINT')).toBe('INTEGER');
+        expect(sqlAffinity('varchar(20)')).toBe('TEXT');
+        expect(sqlAffinity('DOUBLE')).toBe('REAL');
+        expect(sqlAffinity('')).toBe('BLOB');
+        expect(sqlAffinity('DECIMAL')).toBe('NUMERIC');
+    });
+});
+
+describe('REAL columns', () => {
+    const ProductSchema = z.object({ name: z.string(), price: z.number(), stock: z.number().int(), owner_id: z.number().optional() });
+
+    test('tables declare REAL for floats and INTEGER for ints and foreign keys', () => {
+        const db = new Database(':memory:', {
+            users: z.object({ name: z.string() }),
+            products: ProductSchema,
+        }, { relations: { products: { owner_id: 'users' } } });
+        const types = Object.fromEntries(db.columns('products').map(c => [c.name, c.type]));
+        expect(types).toMatchObject({ price: 'REAL', stock: 'INTEGER', owner_id: 'INTEGER' });
+
+        const p = db.products.insert({ name: 'Widget', price: 10, stock: 3 });
+        expect(db.raw<{ t: string }>('SELECT typeof(price) as t FROM products')[0]!.t).toBe('real');
+        expect(db.products.select().where({ id: p.id }).get()!.price).toBe(10);
+        expect(db.diff()).toEqual({});
+        db.close();
+    });
+
+    test('diff() reports float columns created as INTEGER by older versions', () => {
+        const path = tmpFile();
+        const raw = new SqliteDatabase(path);
+        raw.run('CREATE TABLE "products" (id INTEGER PRIMARY KEY AUTOINCREMENT, "name" TEXT, "price" INTEGER, "stock" INT, "owner_id" INTEGER)');
+        raw.run(`INSERT INTO "products" ("name", "price", "stock") VALUES ('Widget', 9.5, 3)`);
+        raw.close();
+
+        const db = new Database(path, { products: ProductSchema.extend({ owner_id: z.number().int().optional() }) });
+        expect(db.diff().products!.typeChanged).toEqual([{ column: 'price', expected: 'REAL', actual: 'INTEGER' }]);
+
+        db.applyDiff({ retype: true });
+        expect(db.diff().products!.typeChanged).toEqual([]);
+        expect(db.raw<{ t: string }>('SELECT typeof(price) as t FROM products')[0]!.t).toBe('real');
+        expect(db.products.select().get()!.price).toBe(9.5);
+        db.close();
+    });
+
+    test('added columns get the right affinity', () => {
+        const path = tmpFile();
+        new Database(path, { products: z.object({ name: z.string() }) }).close();
+        const db = new Database(path, { products: z.object({ name: z.string(), rating: z.number().optional() }) });
+        expect(db.columns('products').find(c => c.name === 'rating')!.type).toBe('REAL');
+        db.close();
+    });
+});
+
+describe('z.bigint()', () => {
+    const big = 9007199254740993n; // MAX_SAFE_INTEGER + 2
+
+    test('round-trips beyond Number.MAX_SAFE_INTEGER', () => {
+        const db = new Database(':memory:', {
+            ledgers: z.object({ name: z.string(), balance: z.bigint(), count: z.number().int().default(0) }),
+        });
+        const row = db.ledgers.insert({ name: 'main', balance: big });
+        expect(row.balance).toBe(big);
+        expect(typeof row.id).toBe('number');
+        expect(typeof row.count).toBe('number');
+
+        const read = db.ledgers.select().where({ balance: big }).get()!;
+        expect(read.balance).toBe(big);
+        expect(db.ledgers.select().all()[0]!.balance).toBe(big);
+        expect(db.ledgers.select().count()).toBe(1);
+        db.close();
+    });
+
+    test('small values come back as bigint too', () => {
+        const db = new Database(':memory:', { ledgers: z.object({ balance: z.bigint().optional() }) });
+        db.exec('INSERT INTO ledgers (balance) VALUES (5)');
+        expect(db.ledgers.select().get()!.balance).toBe(5n);
+        db.close();
+    });
+});
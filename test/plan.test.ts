@@ -0,0 +1,110 @@
+/**
+ * plan.test.ts — Schema plans (dry run)
+ *
+ * db.plan(), the dryRun option, destructive flags, and rebuild previews.
+ */
+import { describe, test, expect } from 'bun:test';
+import { Database as SqliteDatabase } from 'bun:sqlite';
+import { Database, z } from '../src/index';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { existsSync, readFileSync } from 'fs';
+
+const tmpFile = () => join(tmpdir(), `satidb-plan-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+
+const schemas = () => ({
+    users: z.object({ name: z.string(), email: z.string() }),
+    posts: z.object({ title: z.string(), user_id: z.number().optional() }),
+});
+
+const options = {
+    relations: { posts: { user_id: 'users' } } as { posts: { user_id: 'users' } },
+    indexes: { posts: ['title'] },
+    unique: { users: [['email']] },
+};
+
+describe('db.plan()', () => {
+    test('dryRun on an empty database plans every startup statement', () => {
+        const db = new Database(':memory:', schemas(), { ...options, dryRun: true });
+        const plan = db.plan();
+        expect(plan.map(p => p.step)).toEqual([
+            'tables', 'tables',
+            'changeTracking', 'changeTracking', 'changeTracking', 'changeTracking', 'changeTracking', 'changeTracking', 'changeTracking',
+            'indexes', 'unique',
+        ]);
+        expect(plan[0]!.sql).toBe('CREATE TABLE IF NOT EXISTS "users" (id INTEGER PRIMARY KEY AUTOINCREMENT, "name" TEXT NOT NULL, "email" TEXT NOT NULL)');
+        expect(plan.some(p => p.destructive)).toBe(false);
+
+        // Nothing was executed
+        expect(db.raw(`SELECT name FROM sqlite_master WHERE type = 'table'`)).toEqual([]);
+        db.close();
+    });
+
+    test('dryRun against a missing file plans everything without creating it', () => {
+        const path = tmpFile();
+        const db = new Database(path, schemas(), { ...options, dryRun: true });
+        expect(db.plan().filter(p => p.step === 'tables').length).toBe(2);
+        db.close();
+        expect(existsSync(path)).toBe(false);
+    });
+
+    test('dryRun against an existing file only plans what is missing and leaves it untouched', () => {
+        const path = tmpFile();
+        new Database(path, { users: z.object({ name: z.string() }) }, { wal: false }).close();
+        const before = readFileSync(path);
+
+        const db = new Database(path, schemas(), { ...options, dryRun: true });
+        const sql = db.plan().map(p => p.sql);
+        expect(sql).toContain(`ALTER TABLE "users" ADD COLUMN "email" TEXT NOT NULL DEFAULT ''`);
+        expect(sql.some(s => s.startsWith('CREATE TABLE IF NOT EXISTS "posts"'))).toBe(true);
+        expect(sql.some(s => s.includes('"users" (id'))).toBe(false);
+        expect(sql.some(s => s.includes('_trg_users_insert'))).toBe(false);
+        db.close();
+
+        expect(readFileSync(path).equals(before)).toBe(true);
+        expect(existsSync(path + '-wal')).toBe(false);
+    });
+
+    test('plan() on a live database is empty once startup has run', () => {
+        const db = new Database(':memory:', schemas(), options);
+        expect(db.plan()).toEqual([]);
+        db.close();
+    });
+
+    test('pending versioned migrations are listed and flagged', () => {
+        const path = tmpFile();
+        const raw = new SqliteDatabase(path);
+        raw.run('CREATE TABLE "users" (id INTEGER PRIMARY KEY AUTOINCREMENT, "fullname" TEXT, "email" TEXT)');
+        raw.close();
+
+        const db = new Database(path, { users: z.object({ name: z.string(), email: z.string() }) }, {
+            dryRun: true,
+            migrations: [
+                { name: '001_rename', up: 'ALTER TABLE "users" RENAME COLUMN "fullname" TO "name"' },
+                { name: '002_index', up: 'CREATE INDEX "idx_email" ON "users" ("email")' },
+                { name: '003_backfill', up: () => { } },
+            ],
+        });
+        const migrations = db.plan().filter(p => p.step === 'migration');
+        expect(migrations.map(m => [m.migration, m.destructive])).toEqual([
+            ['001_rename', true],
+            ['002_index', false],
+            ['003_backfill', true],
+        ]);
+        db.close();
+    });
+
+    test('applyDiff options append destructive rebuild statements', () => {
+        const path = tmpFile();
+        new Database(path, { users: z.object({ name: z.string(), legacy: z.string().optional() }) }).close();
+
+        const db = new Database(path, { users: z.object({ name: z.string() }) });
+        expect(db.plan()).toEqual([]);
+
+        const plan = db.plan({ dropRemoved: true });
+        expect(plan.every(p => p.step === 'rebuild' && p.destructive)).toBe(true);
+        expect(plan.map(p => p.sql)).toContain('DROP TABLE "users"');
+        expect(db.columns('users').map(c => c.name)).toContain('legacy'); // still only a plan
+        db.close();
+    });
+});
@@ -0,0 +1,103 @@
+/**
+ * polymorphic.test.ts — Polymorphic associations
+ *
+ * `{ polymorphic: [...] }` relations: morph-to navigation, the inverse on
+ * every parent table, eager loading both ways, and the type/id index.
+ */
+import { describe, test, expect } from 'bun:test';
+import { Database, z } from '../src/index';
+
+const PostSchema = z.object({ title: z.string() });
+const VideoSchema = z.object({ url: z.string() });
+const CommentSchema = z.object({
+    body: z.string(),
+    commentable_type: z.enum(['posts', 'videos']),
+    commentable_id: z.number(),
+});
+
+function createDb() {
+    const db = new Database(':memory:', { posts: PostSchema, videos: VideoSchema, comments: CommentSchema }, {
+        relations: { comments: { commentable: { polymorphic: ['posts', 'videos'] } } },
+    });
+    const post = db.posts.insert({ title: 'Hello' });
+    const video = db.videos.insert({ url: 'v.mp4' });
+    db.comments.insertMany([
+        { body: 'on post', commentable_type: 'posts', commentable_id: post.id },
+        { body: 'on video', commentable_type: 'videos', commentable_id: video.id },
+        { body: 'on post again', commentable_type: 'posts', commentable_id: post.id },
+    ]);
+    return { db, post, video };
+}
+
+describe('navigation', () => {
+    test('commentable() resolves to the table named by the type column', () => {
+        const { db } = createDb();
+        const [a, b] = db.comments.select().orderBy('id').all();
+        expect((a!.commentable() as any).title).toBe('Hello');
+        expect((b!.commentable() as any).url).toBe('v.mp4');
+        db.close();
+    });
+
+    test('the inverse only returns children of its own type', () => {
+        const { db, post, video } = createDb();
+        // Same id, different table
+        expect(post.id).toBe(video.id);
+        expect(post.comments().map(c => c.body)).toEqual(['on post', 'on post again']);
+        expect(video.comments().map(c => c.body)).toEqual(['on video']);
+        db.close();
+    });
+
+    test('a missing parent resolves to null', () => {
+        const { db } = createDb();
+        const orphan = db.comments.insert({ body: 'orphan', commentable_type: 'videos', commentable_id: 42 });
+        expect(orphan.commentable()).toBeNull();
+        db.close();
+    });
+});
+
+describe('eager loading', () => {
+    test(".with('comments') loads the inverse in one query", () => {
+        const { db } = createDb();
+        const posts = db.posts.select().with('comments').all() as any[];
+        expect(posts[0].comments.map((c: any) => c.body)).toEqual(['on post', 'on post again']);
+        const videos = db.videos.select().with('comments').all() as any[];
+        expect(videos[0].comments.map((c: any) => c.body)).toEqual(['on video']);
+        db.close();
+    });
+
+    test(".with('commentable') batches one query per parent type", () => {
+        const { db } = createDb();
+        const comments = db.comments.select().with('commentable').orderBy('id').all() as any[];
+        expect(comments.map(c => c.commentable.title ?? c.commentable.url)).toEqual(['Hello', 'v.mp4', 'Hello']);
+        db.close();
+    });
+});
+
+describe('declaration', () => {
+    test('the type/id pair is indexed', () => {
+        const { db } = createDb();
+        const indexes = db.raw<{ name: string }>(`SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = 'comments'`);
+        expect(indexes.map(i => i.name)).toContain('idx_comments_commentable_type_commentable_id');
+        db.close();
+    });
+
+    test('custom columns and inverse names', () => {
+        const db = new Database(':memory:', {
+            posts: PostSchema,
+            audits: z.object({ action: z.string(), subject: z.string(), subject_ref: z.number() }),
+        }, {
+            relations: { audits: { target: { polymorphic: ['posts'], typeColumn: 'subject', idColumn: 'subject_ref', inverse: 'history' } } },
+        });
+        const post = db.posts.insert({ title: 'Hello' });
+        db.audits.insert({ action: 'create', subject: 'posts', subject_ref: post.id });
+        expect(post.history().map(a => a.action)).toEqual(['create']);
+        expect(db.audits.select().get()!.target()!.title).toBe('Hello');
+        db.close();
+    });
+
+    test('the type and id columns must be in the schema', () => {
+        expect(() => new Database(':memory:', { posts: PostSchema, comments: z.object({ body: z.string() }) }, {
+            relations: { comments: { commentable: { polymorphic: ['posts'] } } },
+        })).toThrow(/needs a 'commentable_type' column/);
+    });
+});
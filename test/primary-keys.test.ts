@@ -0,0 +1,185 @@
+/**
+ * primary-keys.test.ts — Custom primary keys
+ *
+ * uuid/ulid/text/custom-generated `id` columns, composite keys, TEXT
+ * foreign keys, and key payloads in `.on()` listeners.
+ */
+import { describe, test, expect } from 'bun:test';
+import { Database, z, NotNullError, UniqueConstraintError } from '../src/index';
+import { ulid } from '../src/keys';
+
+const DeviceSchema = z.object({ name: z.string() });
+const ReadingSchema = z.object({ value: z.number(), device_id: z.string().optional() });
+
+describe('generated text ids', () => {
+    test("'uuid' generates a UUIDv7 unless one is given", () => {
+        const db = new Database(':memory:', { devices: DeviceSchema }, { primaryKey: { devices: 'uuid' } });
+        const a = db.devices.insert({ name: 'Sensor A' });
+        expect(a.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+
+        const b = db.devices.insert({ id: '0190a6f2-0000-7000-8000-000000000001', name: 'Sensor B' });
+        expect(b.id).toBe('0190a6f2-0000-7000-8000-000000000001');
+        expect(db.columns('devices')[0]).toMatchObject({ name: 'id', type: 'TEXT', pk: 1 });
+        db.close();
+    });
+
+    test("'ulid' ids sort by creation time", () => {
+        expect(ulid(0)).toMatch(/^0{10}[0-9A-HJKMNP-TV-Z]{16}$/);
+        expect(ulid(1_700_000_000_000) < ulid(1_700_000_000_001)).toBe(true);
+
+        const db = new Database(':memory:', { devices: DeviceSchema }, { primaryKey: { devices: 'ulid' } });
+        const rows = db.devices.insertMany([{ name: 'a' }, { name: 'b' }]);
+        expect(rows.map(r => r.id.length)).toEqual([26, 26]);
+        db.close();
+    });
+
+    test("'text' keys must be supplied; { generate } uses a custom generator", () => {
+        let n = 0;
+        const db = new Database(':memory:', { devices: DeviceSchema, tags: z.object({ label: z.string() }) }, {
+            primaryKey: { devices: 'text', tags: { generate: () => `tag-${++n}` } },
+        });
+        expect(db.devices.insert({ id: 'dev-1', name: 'A' }).id).toBe('dev-1');
+        expect(() => db.devices.insert({ name: 'B' } as any)).toThrow(NotNullError);
+        expect(() => db.devices.insert({ id: 'dev-1', name: 'C' })).toThrow(UniqueConstraintError);
+        expect(db.tags.insert({ label: 'x' }).id).toBe('tag-1');
+        db.close();
+    });
+});
+
+describe('CRUD with text ids', () => {
+    const open = () => new Database(':memory:', { devices: DeviceSchema, readings: ReadingSchema }, {
+        primaryKey: { devices: 'uuid' },
+        relations: { readings: { device_id: 'devices' } },
+    });
+
+    test('update, delete, upsert and entity methods use the text key', () => {
+        const db = open();
+        const dev = db.devices.insert({ name: 'A' });
+        expect(db.devices.update(dev.id, { name: 'B' })!.name).toBe('B');
+
+        dev.name = 'C'; // auto-persist
+        expect(db.devices.select().where({ id: dev.id }).get()!.name).toBe('C');
+
+        expect(db.devices.upsert({}, { id: dev.id, name: 'D' } as any).id).toBe(dev.id);
+        expect(db.devices.count()).toBe(1);
+
+        dev.delete();
+        expect(db.devices.count()).toBe(0);
+        db.close();
+    });
+
+    test('foreign keys to text-keyed tables are TEXT and navigate both ways', () => {
+        const db = open();
+        const dev = db.devices.insert({ name: 'A' });
+        db.readings.insert({ value: 1.5, device_id: dev.id });
+        db.readings.insert({ value: 2.5, device_id: dev.id });
+
+        expect(db.columns('readings').find(c => c.name === 'device_id')!.type).toBe('TEXT');
+        const reading = db.readings.select().get()!;
+        expect(reading.device()!.id).toBe(dev.id);
+        expect(dev.readings().map(r => r.value)).toEqual([1.5, 2.5]);
+
+        const loaded = db.devices.select().with('readings').get() as any;
+        expect(loaded.readings).toHaveLength(2);
+        expect(db.readings.select().join(db.devices).all()).toHaveLength(2);
+        db.close();
+    });
+
+    test('entities with text keys resolve as where() values', () => {
+        const db = open();
+        const [a, b] = db.devices.insertMany([{ name: 'A' }, { name: 'B' }]);
+        db.readings.insertMany([{ value: 1, device_id: a!.id }, { value: 2, device_id: b!.id }]);
+        expect(db.readings.select().where({ device: b } as any).all().map(r => r.value)).toEqual([2]);
+        expect(db.readings.select().where({ $or: [{ device: a }] } as any).count()).toBe(1);
+        db.close();
+    });
+
+    test('.on() payloads carry the text key', async () => {
+        const db = open();
+        const seen: any[] = [];
+        db.devices.on('insert', d => { seen.push(['insert', d.name]); });
+        db.devices.on('delete', d => { seen.push(['delete', d.id]); });
+        const dev = db.devices.insert({ name: 'A' });
+        await new Promise(r => setTimeout(r, 150));
+        db.devices.delete(dev.id);
+        await new Promise(r => setTimeout(r, 150));
+        expect(seen).toEqual([['insert', 'A'], ['delete', dev.id]]);
+        db.close();
+    });
+});
+
+describe('composite keys', () => {
+    const open = () => new Database(':memory:', {
+        posts: z.object({ title: z.string() }),
+        tags: z.object({ label: z.string() }),
+        post_tags: z.object({ post_id: z.number().int(), tag_id: z.number().int(), weight: z.number().int().default(1) }),
+    }, {
+        primaryKey: { post_tags: ['post_id', 'tag_id'] },
+        relations: { post_tags: { post_id: 'posts', tag_id: 'tags' } },
+    });
+
+    test('the table has no id column and rejects duplicate keys', () => {
+        const db = open();
+        const post = db.posts.insert({ title: 'Hello' });
+        const tag = db.tags.insert({ label: 'intro' });
+        const link = db.post_tags.insert({ post_id: post.id, tag_id: tag.id });
+        expect('id' in link).toBe(false);
+        expect(link).toMatchObject({ post_id: post.id, tag_id: tag.id, weight: 1 });
+        expect(db.columns('post_tags').map(c => [c.name, c.pk])).toEqual([['post_id', 1], ['tag_id', 2], ['weight', 0]]);
+        expect(() => db.post_tags.insert({ post_id: post.id, tag_id: tag.id })).toThrow(UniqueConstraintError);
+        db.close();
+    });
+
+    test('update and delete take an object key; entity methods work', () => {
+        const db = open();
+        const post = db.posts.insert({ title: 'Hello' });
+        const tag = db.tags.insert({ label: 'intro' });
+        const link = db.post_tags.insert({ post_id: post.id, tag_id: tag.id });
+
+        expect(db.post_tags.update({ post_id: post.id, tag_id: tag.id }, { weight: 5 })!.weight).toBe(5);
+        link.weight = 7;
+        expect(db.post_tags.select().get()!.weight).toBe(7);
+
+        db.post_tags.delete({ post_id: post.id, tag_id: tag.id });
+        expect(db.post_tags.count()).toBe(0);
+        expect(() => db.post_tags.delete(1 as any)).toThrow(/composite key/);
+        db.close();
+    });
+
+    test('deleting a parent cascades to rows keyed by it', () => {
+        const db = open();
+        const post = db.posts.insert({ title: 'Hello' });
+        const tag = db.tags.insert({ label: 'intro' });
+        db.post_tags.insert({ post_id: post.id, tag_id: tag.id });
+        db.posts.delete(post.id);
+        expect(db.post_tags.count()).toBe(0);
+        db.close();
+    });
+
+    test('.on() payloads are the key columns', async () => {
+        const db = open();
+        const post = db.posts.insert({ title: 'Hello' });
+        const tag = db.tags.insert({ label: 'intro' });
+        const seen: any[] = [];
+        db.post_tags.on('update', row => { seen.push(row.weight); });
+        db.post_tags.on('delete', key => { seen.push(key); });
+        db.post_tags.insert({ post_id: post.id, tag_id: tag.id });
+        db.post_tags.update({ post_id: post.id, tag_id: tag.id }, { weight: 3 });
+        await new Promise(r => setTimeout(r, 150));
+        db.post_tags.delete({ post_id: post.id, tag_id: tag.id });
+        await new Promise(r => setTimeout(r, 150));
+        expect(seen).toEqual([3, { post_id: post.id, tag_id: tag.id }]);
+        db.close();
+    });
+
+    test('relations cannot target a composite-key table', () => {
+        expect(() => new Database(':memory:', {
+            pairs: z.object({ a: z.number(), b: z.number() }),
+            notes: z.object({ pair_id: z.number().optional() }),
+        }, {
+            primaryKey: { pairs: ['a', 'b'] },
+            relations: { notes: { pair_id: 'pairs' } },
+        })).toThrow(/composite primary key/);
+        expect(() => new Database(':memory:', { pairs: z.object({ a: z.number() }) }, { primaryKey: { pairs: ['a', 'nope'] } })).toThrow(/no column 'nope'/);
+    });
+});
@@ -171,3 +171,88 @@ test('compileProxyQuery: explicit FK column in schema', () => {
     expect(sql).toContain('JOIN');
     expect(sql).toContain('"user_id"');
 });
+
+test('compileProxyQuery: GROUP BY and HAVING come before ORDER BY', () => {
+    const schemas: any = { orders: { shape: { customer: {}, amount: {} } } };
+    const { proxy, aliasMap } = createContextProxy(schemas);
+    const o = (proxy as any).orders;
+
+    const { sql, params } = compileProxyQuery(
+        {
+            select: { customer: o.customer, n: { $count: '*' }, total: { $sum: o.amount } },
+            groupBy: [o.customer],
+            having: { n: { $gt: 1 } },
+            orderBy: { total: 'desc' },
+        },
+        aliasMap,
+    );
+    expect(sql).toBe('SELECT "t1"."customer", COUNT(*) AS "n", SUM("t1"."amount") AS "total" FROM "orders" "t1"'
+        + ' GROUP BY "t1"."customer" HAVING "n" > ? ORDER BY "total" DESC');
+    expect(params).toEqual([1]);
+});
+
+test('compileProxyQuery: where operators match .where()', () => {
+    const schemas: any = { users: { shape: { name: {}, age: {}, email: {} } } };
+    const { proxy, aliasMap } = createContextProxy(schemas);
+    const u = (proxy as any).users;
+
+    const { sql, params } = compileProxyQuery(
+        {
+            select: { name: u.name },
+            where: {
+                [u.name]: { $like: 'A%' },
+                [u.email]: { $isNull: true },
+                [u.age]: { $gte: 18, $lt: 65 },
+                $or: [{ [u.age]: { $between: [20, 30] } }, { [u.name]: { $notIn: ['Bob'] } }],
+            },
+            distinct: true,
+        },
+        aliasMap,
+    );
+    expect(sql).toBe('SELECT DISTINCT "t1"."name" FROM "users" "t1" WHERE "t1"."name" LIKE ? AND "t1"."email" IS NULL'
+        + ' AND "t1"."age" >= ? AND "t1"."age" < ? AND (("t1"."age" BETWEEN ? AND ?) OR ("t1"."name" NOT IN (?)))');
+    expect(params).toEqual(['A%', 18, 65, 20, 30, 'Bob']);
+    expect(() => compileProxyQuery({ select: { name: u.name }, where: { [u.age]: { $near: 1 } } }, aliasMap)).toThrow(/Unsupported operator/);
+});
+
+test('db.query(): left joins, aggregates and typed rows', () => {
+    const { Database, z } = require('../src/index');
+    const db = new Database(':memory:', {
+        authors: z.object({ name: z.string(), active: z.boolean() }),
+        books: z.object({ title: z.string(), author_id: z.number(), published: z.date() }),
+    }, { relations: { books: { author_id: 'authors' } } });
+    const [ann, bea] = db.authors.insertMany([{ name: 'Ann', active: true }, { name: 'Bea', active: false }, { name: 'Cy', active: true }]);
+    db.books.insertMany([
+        { title: 'Dune', author_id: ann.id, published: new Date('2001-01-01') },
+        { title: 'Emma', author_id: ann.id, published: new Date('2005-01-01') },
+        { title: 'Ulysses', author_id: bea.id, published: new Date('2003-01-01') },
+    ]);
+
+    const counts = db.query((c: any) => {
+        const { authors: a, books: b } = c;
+        return {
+            select: { author: a.name, active: a.active, books: { $count: b.id }, first: { $min: b.published } },
+            leftJoin: [b.author_id, a.id],
+            groupBy: [a.id],
+            orderBy: { books: 'desc', [a.name]: 'asc' },
+        };
+    });
+    expect(counts).toEqual([
+        { author: 'Ann', active: true, books: 2, first: new Date('2001-01-01') },
+        { author: 'Bea', active: false, books: 1, first: new Date('2003-01-01') },
+        { author: 'Cy', active: true, books: 0, first: null },
+    ]);
+
+    const prolific = db.query((c: any) => {
+        const { authors: a, books: b } = c;
+        return {
+            select: { author: a.name, n: { $count: '*' } },
+            join: [b.author_id, a.id],
+            where: { [a.active]: true },
+            groupBy: [a.name],
+            having: { n: { $gte: 2 } },
+        };
+    });
+    expect(prolific).toEqual([{ author: 'Ann', n: 2 }]);
+    db.close();
+});
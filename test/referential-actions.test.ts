@@ -0,0 +1,231 @@
+/**
+ * referential-actions.test.ts — onDelete / onUpdate on relations
+ *
+ * Declared actions become FOREIGN KEY clauses, so every delete path honours
+ * them; soft deletes follow 'cascade' and 'restrict' through the relation graph.
+ * Files created before an action was declared keep it via TEMP triggers until
+ * applyDiff({ foreignKeys: true }) rebuilds the table.
+ */
+import { describe, test, expect } from 'bun:test';
+import { Database, z, ForeignKeyError } from '../src/index';
+import type { ReferentialAction } from '../src/index';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const tmpFile = () => join(tmpdir(), `satidb-fk-actions-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+
+const AuthorSchema = z.object({ name: z.string() });
+const BookSchema = z.object({ title: z.string(), author_id: z.number() });
+const ChapterSchema = z.object({ heading: z.string(), book_id: z.number() });
+
+function createDb(onDelete: ReferentialAction, options: { softDeletes?: boolean } = {}) {
+    const db = new Database(':memory:', { authors: AuthorSchema, books: BookSchema, chapters: ChapterSchema }, {
+        relations: {
+            books: { author_id: { to: 'authors', onDelete } },
+            chapters: { book_id: { to: 'books', onDelete: 'cascade' } },
+        },
+        ...options,
+    });
+    const [alice, bob] = db.authors.insertMany([{ name: 'Alice' }, { name: 'Bob' }]);
+    const [a1] = db.books.insertMany([
+        { title: 'A1', author_id: alice!.id },
+        { title: 'B1', author_id: bob!.id },
+    ]);
+    db.chapters.insertMany([{ heading: 'One', book_id: a1!.id }, { heading: 'Two', book_id: a1!.id }]);
+    return { db, alice: alice!, bob: bob! };
+}
+
+describe('DDL', () => {
+    test('actions are emitted as FOREIGN KEY clauses', () => {
+        const db = new Database(':memory:', { authors: AuthorSchema, books: BookSchema }, {
+            relations: { books: { author_id: { to: 'authors', onDelete: 'restrict', onUpdate: 'cascade' } } },
+        });
+        const [fk] = db.raw<{ on_delete: string; on_update: string }>(`PRAGMA foreign_key_list("books")`);
+        expect([fk!.on_delete, fk!.on_update]).toEqual(['RESTRICT', 'CASCADE']);
+        db.close();
+    });
+
+    test("only 'set null' keys drop the schema's NOT NULL", () => {
+        const { db } = createDb('cascade');
+        expect(db.columns('books').find(c => c.name === 'author_id')!.notnull).toBe(1);
+        const nullable = createDb('set null').db;
+        expect(nullable.columns('books').find(c => c.name === 'author_id')!.notnull).toBe(0);
+        db.close();
+        nullable.close();
+    });
+
+    test("key columns can't be 'set null'", () => {
+        expect(() => new Database(':memory:', { tags: z.object({ name: z.string() }), links: z.object({ tag_id: z.number(), url: z.string() }) }, {
+            relations: { links: { tag_id: { to: 'tags', onDelete: 'set null' } } },
+            primaryKey: { links: ['tag_id', 'url'] },
+        })).toThrow(/part of the primary key/);
+    });
+});
+
+describe('hard deletes', () => {
+    test('cascade applies to every delete path, recursively', () => {
+        const { db, alice, bob } = createDb('cascade');
+        db.authors.delete(alice.id);
+        expect(db.books.select().all().map(b => b.title)).toEqual(['B1']);
+        expect(db.chapters.count()).toBe(0);
+
+        db.authors.select().where({ id: bob.id }).deleteAll();
+        expect(db.books.count()).toBe(0);
+        db.close();
+    });
+
+    test('raw deletes cascade too', () => {
+        const { db } = createDb('cascade');
+        db.exec(`DELETE FROM authors WHERE name = ?`, 'Alice');
+        expect(db.books.count()).toBe(1);
+        expect(db.chapters.count()).toBe(0);
+        db.close();
+    });
+
+    test('restrict throws ForeignKeyError while children exist', () => {
+        const { db, alice } = createDb('restrict');
+        expect(() => db.authors.delete(alice.id)).toThrow(ForeignKeyError);
+        expect(() => db.authors.delete().where({ name: 'Alice' }).exec()).toThrow(ForeignKeyError);
+        expect(db.authors.count()).toBe(2);
+        db.books.delete().where({ author_id: alice.id }).exec();
+        db.authors.delete(alice.id);
+        expect(db.authors.count()).toBe(1);
+        db.close();
+    });
+
+    test('set null keeps the children', () => {
+        const { db, alice } = createDb('set null');
+        db.authors.delete(alice.id);
+        expect(db.books.select().orderBy('id').all().map(b => b.author_id)).toEqual([null as any, 2]);
+        db.close();
+    });
+
+    test('onUpdate cascade follows a changed parent key', () => {
+        const db = new Database(':memory:', {
+            countries: z.object({ name: z.string() }),
+            cities: z.object({ name: z.string(), country_id: z.string() }),
+        }, {
+            primaryKey: { countries: 'text' },
+            relations: { cities: { country_id: { to: 'countries', onUpdate: 'cascade' } } },
+        });
+        db.countries.insert({ id: 'UK', name: 'United Kingdom' } as any);
+        db.cities.insert({ name: 'London', country_id: 'UK' });
+        db.exec(`UPDATE countries SET id = 'GB' WHERE id = 'UK'`);
+        expect(db.cities.select().get()!.country_id).toBe('GB');
+        db.close();
+    });
+});
+
+describe('soft deletes', () => {
+    test('cascade recurses through the relation graph', () => {
+        const { db, alice } = createDb('cascade', { softDeletes: true });
+        db.authors.delete(alice.id);
+        expect(db.books.select().all().map(b => b.title)).toEqual(['B1']);
+        expect(db.chapters.count()).toBe(0);
+        expect(db.chapters.select().withTrashed().count()).toBe(2);
+        db.close();
+    });
+
+    test('deleteWhere cascades as well', () => {
+        const { db } = createDb('cascade', { softDeletes: true });
+        expect(db.authors.delete().where({ name: 'Alice' }).exec()).toBe(1);
+        expect(db.chapters.count()).toBe(0);
+        db.close();
+    });
+
+    test('restrict blocks on live children and rolls back', () => {
+        const db = new Database(':memory:', { authors: AuthorSchema, books: BookSchema, chapters: ChapterSchema }, {
+            relations: {
+                books: { author_id: { to: 'authors', onDelete: 'cascade' } },
+                chapters: { book_id: { to: 'books', onDelete: 'restrict' } },
+            },
+            softDeletes: true,
+        });
+        const alice = db.authors.insert({ name: 'Alice' });
+        const book = db.books.insert({ title: 'A1', author_id: alice.id });
+        const chapter = db.chapters.insert({ heading: 'One', book_id: book.id });
+
+        expect(() => db.authors.delete(alice.id)).toThrow(ForeignKeyError);
+        expect([db.authors.count(), db.books.count()]).toEqual([1, 1]);
+
+        db.chapters.delete(chapter.id);
+        db.authors.delete(alice.id);
+        expect([db.authors.count(), db.books.count()]).toEqual([0, 0]);
+        db.close();
+    });
+
+    test('self-referencing trees are deleted to every depth', () => {
+        const db = new Database(':memory:', { employees: z.object({ name: z.string(), manager_id: z.number().optional() }) }, {
+            relations: { employees: { manager_id: { to: 'employees', as: 'manager', inverse: 'reports', onDelete: 'cascade' } } },
+            softDeletes: true,
+        });
+        const ceo = db.employees.insert({ name: 'CEO' });
+        const vp = db.employees.insert({ name: 'VP', manager_id: ceo.id });
+        db.employees.insert({ name: 'Dev', manager_id: vp.id });
+        db.employees.insert({ name: 'Other' });
+
+        db.employees.delete(ceo.id);
+        expect(db.employees.select().all().map(e => e.name)).toEqual(['Other']);
+        db.close();
+    });
+});
+
+describe('cascade option', () => {
+    test('rejects tables without a foreign key to the parent', () => {
+        expect(() => new Database(':memory:', { authors: AuthorSchema, books: BookSchema }, {
+            cascade: { authors: ['books'] },
+        })).toThrow(/'books' has no foreign key to 'authors'/);
+    });
+});
+
+describe('files created before the action was declared', () => {
+    /** Older deploy: books.author_id was the default ON DELETE SET NULL. */
+    function createOldFile(): string {
+        const path = tmpFile();
+        const old = new Database(path, { authors: AuthorSchema, books: BookSchema.partial({ author_id: true }) }, {
+            relations: { books: { author_id: 'authors' } },
+        });
+        const [alice, bob] = old.authors.insertMany([{ name: 'Alice' }, { name: 'Bob' }]);
+        old.books.insertMany([{ title: 'A1', author_id: alice!.id }, { title: 'B1', author_id: bob!.id }]);
+        old.close();
+        return path;
+    }
+
+    const open = (path: string) => new Database(path, { authors: AuthorSchema, books: BookSchema }, {
+        relations: { books: { author_id: 'authors' } },
+        cascade: { authors: ['books'] },
+    });
+
+    test('diff() reports the drifted actions', () => {
+        const db = open(createOldFile());
+        expect(db.diff().books!.foreignKeyChanged).toEqual([
+            { column: 'author_id', expected: 'ON DELETE CASCADE', actual: 'ON DELETE SET NULL' },
+        ]);
+        db.close();
+    });
+
+    test('deletes cascade before the table is rebuilt', () => {
+        const db = open(createOldFile());
+        db.authors.delete(1);
+        expect(db.books.select().all().map(b => b.title)).toEqual(['B1']);
+        db.exec(`DELETE FROM authors`);
+        expect(db.books.count()).toBe(0);
+        db.close();
+    });
+
+    test('applyDiff({ foreignKeys: true }) rebuilds with the declared actions', () => {
+        const path = createOldFile();
+        const db = open(path);
+        expect(db.applyDiff({ foreignKeys: true })).toEqual({ books: { dropped: [], retyped: [], rechecked: [], relinked: ['author_id'] } });
+        expect(db.diff()).toEqual({});
+        const [fk] = db.raw<{ on_delete: string }>(`PRAGMA foreign_key_list("books")`);
+        expect(fk!.on_delete).toBe('CASCADE');
+        db.authors.delete(1);
+        expect(db.books.count()).toBe(1);
+        db.close();
+
+        const reopened = open(path);
+        expect(reopened.raw(`SELECT name FROM sqlite_temp_master WHERE type = 'trigger'`)).toEqual([]);
+        reopened.close();
+    });
+});
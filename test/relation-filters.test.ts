@@ -0,0 +1,156 @@
+/**
+ * relation-filters.test.ts — Filtering and counting by relations
+ *
+ * `whereHas()` / `whereDoesntHave()` compile to correlated EXISTS subqueries,
+ * `withCount()` to correlated COUNT(*) columns, across every relation kind.
+ */
+import { describe, test, expect } from 'bun:test';
+import { Database, z, QueryCompileError } from '../src/index';
+
+const AuthorSchema = z.object({ name: z.string() });
+const BookSchema = z.object({ title: z.string(), published: z.boolean().default(false), author_id: z.number().optional() });
+
+function createDb(options: { softDeletes?: boolean } = {}) {
+    const db = new Database(':memory:', { authors: AuthorSchema, books: BookSchema }, {
+        relations: { books: { author_id: 'authors' } },
+        ...options,
+    });
+    const [alice, bob] = db.authors.insertMany([{ name: 'Alice' }, { name: 'Bob' }, { name: 'Carol' }]);
+    db.books.insertMany([
+        { title: 'A1', published: true, author_id: alice!.id },
+        { title: 'A2', author_id: alice!.id },
+        { title: 'B1', author_id: bob!.id },
+    ]);
+    return db;
+}
+
+describe('whereHas / whereDoesntHave', () => {
+    test('filter by the existence of related rows', () => {
+        const db = createDb();
+        expect(db.authors.select().whereHas('books').orderBy('id').all().map(a => a.name)).toEqual(['Alice', 'Bob']);
+        expect(db.authors.select().whereDoesntHave('books').all().map(a => a.name)).toEqual(['Carol']);
+        db.close();
+    });
+
+    test('a constraint narrows the related rows', () => {
+        const db = createDb();
+        const published = db.authors.select().whereHas('books', q => q.where({ published: true })).all();
+        expect(published.map(a => a.name)).toEqual(['Alice']);
+        const unpublished = db.authors.select().whereDoesntHave('books', q => q.where({ published: true })).orderBy('id').all();
+        expect(unpublished.map(a => a.name)).toEqual(['Bob', 'Carol']);
+        expect(db.authors.select().whereHas('books', q => q.where({ published: true })).count()).toBe(1);
+        db.close();
+    });
+
+    test('belongs-to side and composition with where()', () => {
+        const db = createDb();
+        const books = db.books.select().whereHas('author', q => q.where({ name: 'Alice' })).where({ published: false }).all();
+        expect(books.map(b => b.title)).toEqual(['A2']);
+        expect(db.books.select().whereHas('author').where({ published: false }).toSQL().sql)
+            .toContain('EXISTS (SELECT 1 FROM "authors" WHERE "authors"."id" = "books"."author_id")');
+        db.close();
+    });
+
+    test('constraints keep callback conditions, raw fragments and CTEs', () => {
+        const db = createDb();
+        const names = db.authors.select().whereHas('books', q => q
+            .withCte('drafts', { sql: 'SELECT id FROM books WHERE published = ?', params: [0] })
+            .where((c, _f, op) => op.like(c.title, '_1'))
+            .whereRaw('books.id IN (SELECT id FROM drafts)'))
+            .orderBy('id').pluck('name');
+        expect(names).toEqual(['Bob']);
+        const counts = db.authors.select().withCount({ books: q => q.where((c, _f, op) => op.eq(c.published, 1)) }).orderBy('id').all();
+        expect(counts.map(a => a.books_count)).toEqual([1, 0, 0]);
+        db.close();
+    });
+
+    test('soft-deleted related rows do not count', () => {
+        const db = createDb({ softDeletes: true });
+        const b1 = db.books.select().where({ title: 'B1' }).get()!;
+        db.books.delete(b1.id);
+        expect(db.authors.select().whereHas('books').all().map(a => a.name)).toEqual(['Alice']);
+        db.close();
+    });
+
+    test('unknown relations throw QueryCompileError', () => {
+        const db = createDb();
+        expect(() => db.authors.select().whereHas('reviews')).toThrow(QueryCompileError);
+        db.close();
+    });
+});
+
+describe('withCount', () => {
+    test('adds <relation>_count columns', () => {
+        const db = createDb();
+        const authors = db.authors.select().withCount('books').orderBy('id').all();
+        expect(authors.map(a => [a.name, a.books_count])).toEqual([['Alice', 2], ['Bob', 1], ['Carol', 0]]);
+        db.close();
+    });
+
+    test('constrained counts, ordering by the count, and aggregates', () => {
+        const db = createDb();
+        const q = db.authors.select().withCount({ books: b => b.where({ published: true }) });
+        expect(q.orderBy('books_count', 'desc').all().map(a => [a.name, a.books_count])[0]).toEqual(['Alice', 1]);
+        expect(db.authors.select().withCount('books').count()).toBe(3);
+        expect(db.authors.select('name').withCount('books').get()).toMatchObject({ name: 'Alice', books_count: 2 });
+        db.close();
+    });
+
+    test('combines with whereHas, whereRaw and $or without an outer WHERE', () => {
+        const db = createDb();
+        const counted = () => db.authors.select().withCount('books').orderBy('id');
+        expect(counted().whereHas('books').all().map(a => [a.name, a.books_count])).toEqual([['Alice', 2], ['Bob', 1]]);
+        expect(counted().whereRaw('name != ?', ['Alice']).all().map(a => a.name)).toEqual(['Bob', 'Carol']);
+        expect(counted().where({ $or: [{ name: 'Bob' }, { name: 'Carol' }] }).all().map(a => a.name)).toEqual(['Bob', 'Carol']);
+        expect(counted().whereHas('books').whereRaw('name = ?', ['Bob']).toSQL().sql.match(/ WHERE /g)).toHaveLength(3);
+        db.close();
+    });
+});
+
+describe('relation kinds', () => {
+    test('self-referencing relations alias the inner table', () => {
+        const db = new Database(':memory:', { employees: z.object({ name: z.string(), manager_id: z.number().optional() }) }, {
+            relations: { employees: { manager_id: { to: 'employees', as: 'manager', inverse: 'reports' } } },
+        });
+        const boss = db.employees.insert({ name: 'Boss' });
+        const lead = db.employees.insert({ name: 'Lead', manager_id: boss.id });
+        db.employees.insert({ name: 'Dev', manager_id: lead.id });
+
+        expect(db.employees.select().whereHas('reports').orderBy('id').all().map(e => e.name)).toEqual(['Boss', 'Lead']);
+        expect(db.employees.select().whereDoesntHave('manager').all().map(e => e.name)).toEqual(['Boss']);
+        expect(db.employees.select().withCount('reports').orderBy('id').all().map(e => e.reports_count)).toEqual([1, 1, 0]);
+        db.close();
+    });
+
+    test('many-to-many goes through the junction table', () => {
+        const db = new Database(':memory:', { posts: z.object({ title: z.string() }), tags: z.object({ name: z.string() }) }, {
+            relations: { posts: { tags: { through: 'post_tags' } } },
+        });
+        const [p1, p2] = db.posts.insertMany([{ title: 'One' }, { title: 'Two' }]);
+        const [news, tech] = db.tags.insertMany([{ name: 'news' }, { name: 'tech' }]);
+        p1!.attach('tags', [news!, tech!]);
+        p2!.attach('tags', tech!);
+
+        expect(db.posts.select().whereHas('tags', q => q.where({ name: 'news' })).all().map(p => p.title)).toEqual(['One']);
+        expect(db.tags.select().withCount('posts').orderBy('id').all().map(t => t.posts_count)).toEqual([1, 2]);
+        db.close();
+    });
+
+    test('morph-many only matches children of the parent type', () => {
+        const db = new Database(':memory:', {
+            posts: z.object({ title: z.string() }),
+            videos: z.object({ url: z.string() }),
+            comments: z.object({ body: z.string(), commentable_type: z.string(), commentable_id: z.number() }),
+        }, {
+            relations: { comments: { commentable: { polymorphic: ['posts', 'videos'] } } },
+        });
+        const post = db.posts.insert({ title: 'Hello' });
+        db.videos.insert({ url: 'v.mp4' });
+        db.comments.insert({ body: 'hi', commentable_type: 'posts', commentable_id: post.id });
+
+        expect(db.posts.select().whereHas('comments').count()).toBe(1);
+        expect(db.videos.select().whereHas('comments').count()).toBe(0);
+        expect(() => db.comments.select().whereHas('commentable')).toThrow(/no relationship 'commentable'/);
+        db.close();
+    });
+});
@@ -0,0 +1,134 @@
+/**
+ * search.test.ts — FTS5 full-text search
+ *
+ * The `search` option's external-content index and sync triggers, and
+ * `.search()` with highlight/snippet/rank, composed with where/orderBy/paginate.
+ */
+import { describe, test, expect } from 'bun:test';
+import { Database, z, QueryCompileError } from '../src/index';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const tmpFile = () => join(tmpdir(), `satidb-search-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+
+const MessageSchema = z.object({
+    subject: z.string(),
+    body: z.string(),
+    archived: z.boolean().default(false),
+});
+
+function createDb(options: { softDeletes?: boolean } = {}) {
+    const db = new Database(':memory:', { messages: MessageSchema }, {
+        search: { messages: ['subject', 'body'] },
+        ...options,
+    });
+    db.messages.insertMany([
+        { subject: 'Deploy tonight', body: 'We deploy the new build at nine' },
+        { subject: 'Lunch', body: 'Pizza or sushi?' },
+        { subject: 'Re: deploy', body: 'The deploy went fine, deploy notes attached', archived: true },
+    ]);
+    return db;
+}
+
+describe('index maintenance', () => {
+    test('matches follow inserts, updates and deletes', () => {
+        const db = createDb();
+        expect(db.messages.select().search('deploy').count()).toBe(2);
+
+        const lunch = db.messages.select().where({ subject: 'Lunch' }).get()!;
+        db.messages.update(lunch.id, { body: 'Deploy pizza party' });
+        expect(db.messages.select().search('pizza').all().map(m => m.subject)).toEqual(['Lunch']);
+        expect(db.messages.select().search('sushi').count()).toBe(0);
+
+        db.messages.delete(lunch.id);
+        expect(db.messages.select().search('pizza').count()).toBe(0);
+        db.exec(`INSERT INTO messages (subject, body, archived) VALUES ('raw', 'raw deploy', 0)`);
+        expect(db.messages.select().search('deploy').count()).toBe(3);
+        db.close();
+    });
+
+    test('existing rows are indexed when the option is added', () => {
+        const path = tmpFile();
+        const plain = new Database(path, { messages: MessageSchema });
+        plain.messages.insert({ subject: 'Old', body: 'indexed later' });
+        plain.close();
+
+        const db = new Database(path, { messages: MessageSchema }, { search: { messages: ['body'] } });
+        expect(db.messages.select().search('later').all().map(m => m.subject)).toEqual(['Old']);
+        db.close();
+
+        // Changing the column list rebuilds the index
+        const again = new Database(path, { messages: MessageSchema }, { search: { messages: ['subject'] } });
+        expect(again.messages.select().search('old').count()).toBe(1);
+        expect(again.messages.select().search('later').count()).toBe(0);
+        again.close();
+    });
+
+    test('the option is checked against the schemas', () => {
+        expect(() => new Database(':memory:', { messages: MessageSchema }, { search: { messages: ['title'] } }))
+            .toThrow(/'messages' has no column 'title'/);
+        expect(() => new Database(':memory:', { messages: MessageSchema }, { search: { notes: ['body'] } }))
+            .toThrow(/unknown table 'notes'/);
+    });
+});
+
+describe('search()', () => {
+    test('composes with where, orderBy and paginate', () => {
+        const db = createDb();
+        expect(db.messages.select().search('deploy').where({ archived: false }).all().map(m => m.subject)).toEqual(['Deploy tonight']);
+        expect(db.messages.select().search('deploy').orderBy('subject', 'desc').all().map(m => m.subject))
+            .toEqual(['Re: deploy', 'Deploy tonight']);
+        const page = db.messages.select().search('deploy OR pizza').orderBy('id').paginate(2, 2);
+        expect([page.total, page.pages, page.data.map(m => m.subject)]).toEqual([3, 2, ['Re: deploy']]);
+        db.close();
+    });
+
+    test('highlight, snippet and rank', () => {
+        const db = createDb();
+        const [best, other] = db.messages.select()
+            .search('deploy', { highlight: 'subject', snippet: { column: 'body', tokens: 4 }, rank: true })
+            .all();
+        // More occurrences rank higher
+        expect(best!.subject).toBe('Re: deploy');
+        expect(best!.highlight).toBe('Re: <b>deploy</b>');
+        expect(best!.snippet).toContain('<b>deploy</b>');
+        expect(best!.rank).toBeLessThan(other!.rank);
+        const marked = db.messages.select().search('pizza', { highlight: { column: 'body', open: '[', close: ']' } }).get()!;
+        expect(marked.highlight).toBe('[Pizza] or sushi?');
+        db.close();
+    });
+
+    test('FTS5 query syntax', () => {
+        const db = createDb();
+        expect(db.messages.select().search('"new build"').count()).toBe(1);
+        expect(db.messages.select().search('dep*').count()).toBe(2);
+        expect(db.messages.select().search('subject:lunch').count()).toBe(1);
+        db.close();
+    });
+
+    test('soft-deleted rows are not found', () => {
+        const db = createDb({ softDeletes: true });
+        const first = db.messages.select().search('tonight').get()!;
+        db.messages.delete(first.id);
+        expect(db.messages.select().search('deploy').count()).toBe(1);
+        db.close();
+    });
+
+    test('batch mutations filter by the match', () => {
+        const db = createDb();
+        expect(db.messages.select().search('deploy').updateAll({ archived: true })).toBe(2);
+        expect(db.messages.select().where({ archived: true }).count()).toBe(2);
+        expect(db.messages.select().search('sushi').deleteAll()).toBe(1);
+        expect(db.messages.count()).toBe(2);
+        db.close();
+    });
+
+    test('tables without an index and unindexed columns are rejected', () => {
+        const db = new Database(':memory:', { messages: MessageSchema }, { search: { messages: ['body'] } });
+        expect(() => db.messages.select().search('x', { highlight: 'subject' })).toThrow(/'subject' is not indexed/);
+        const plain = new Database(':memory:', { messages: MessageSchema });
+        expect(() => plain.messages.select().search('x')).toThrow(QueryCompileError);
+        db.close();
+        plain.close();
+    });
+});
@@ -0,0 +1,85 @@
+/**
+ * select-expressions.test.ts — select({ alias: (c, f, op) => expr })
+ *
+ * Expression projections replace `table.*`, compose with groupBy/having/orderBy,
+ * and produce rows typed from the expressions (checked by tsc).
+ */
+import { describe, test, expect } from 'bun:test';
+import { Database, z, QueryCompileError } from '../src/index';
+
+const OrderSchema = z.object({
+    customer: z.string(),
+    status: z.string(),
+    price: z.number(),
+    qty: z.number(),
+    note: z.string().optional(),
+});
+
+function createDb() {
+    const db = new Database(':memory:', { orders: OrderSchema });
+    db.orders.insertMany([
+        { customer: 'Alice', status: 'paid', price: 10, qty: 2 },
+        { customer: 'Bob', status: 'paid', price: 5, qty: 1, note: 'gift' },
+        { customer: 'Alice', status: 'open', price: 20, qty: 3 },
+        { customer: 'Carol', status: 'paid', price: 7, qty: 4 },
+    ]);
+    return db;
+}
+
+describe('select({...})', () => {
+    test('computed columns with aliases', () => {
+        const db = createDb();
+        const rows = db.orders.select({
+            who: (c, f) => f.lower(c.customer),
+            total: (c, _f, op) => op.mul(c.price, c.qty),
+            memo: (c, _f, op) => op.coalesce(c.note, '-'),
+        }).where({ status: 'paid' }).orderBy('total', 'desc').all();
+
+        expect(rows).toEqual([
+            { who: 'carol', total: 28, memo: '-' },
+            { who: 'alice', total: 20, memo: '-' },
+            { who: 'bob', total: 5, memo: 'gift' },
+        ]);
+        const who: string = rows[0]!.who;
+        const total: number = rows[0]!.total;
+        // @ts-expect-error — only the selected aliases exist
+        rows[0]!.price;
+        expect([who, total]).toEqual(['carol', 28]);
+        db.close();
+    });
+
+    test('aggregates with groupBy and having are typed rows', () => {
+        const db = createDb();
+        const rows = db.orders.select({
+            customer: c => c.customer,
+            orders: (_c, f) => f.count(),
+            revenue: (c, f, op) => f.sum(op.mul(c.price, c.qty)),
+            biggest: (c, f) => f.max(c.price),
+        }).groupBy('customer').having({ orders: { $gt: 1 } }).all();
+
+        expect(rows).toEqual([{ customer: 'Alice', orders: 2, revenue: 80, biggest: 20 }]);
+        const customer: string = rows[0]!.customer;
+        const orders: number = rows[0]!.orders;
+        const biggest: number = rows[0]!.biggest;
+        expect([customer, orders, biggest]).toEqual(['Alice', 2, 20]);
+        db.close();
+    });
+
+    test('get(), count() and paginate() still work', () => {
+        const db = createDb();
+        const q = () => db.orders.select({ customer: c => c.customer, share: (c, _f, op) => op.div(op.cast(c.price, 'real'), 100) })
+            .where({ status: 'paid' });
+        expect(q().orderBy('share').get()).toEqual({ customer: 'Bob', share: 0.05 });
+        expect(q().count()).toBe(3);
+        const page = q().orderBy('customer').paginate(2, 2);
+        expect([page.total, page.data]).toEqual([3, [{ customer: 'Carol', share: 0.07 }]]);
+        db.close();
+    });
+
+    test('invalid aliases and functions are rejected', () => {
+        const db = createDb();
+        expect(() => db.orders.select({ 'a b': c => c.qty })).toThrow(/select\(\): invalid alias/);
+        expect(() => db.orders.select({ x: (_c, f: any) => f.load_extension('x') })).toThrow(QueryCompileError);
+        db.close();
+    });
+});
@@ -0,0 +1,136 @@
+/**
+ * set-operations.test.ts — union / unionAll / intersect / except
+ *
+ * Compound queries keep each side's parameters in order, take the builder's
+ * orderBy/limit as the outer ones, and work with count/pluck/paginate.
+ */
+import { describe, test, expect } from 'bun:test';
+import { Database, z, QueryCompileError } from '../src/index';
+
+const PostSchema = z.object({ title: z.string(), views: z.number(), published: z.date() });
+
+function createDb() {
+    const db = new Database(':memory:', { posts: PostSchema, reposts: PostSchema });
+    db.posts.insertMany([
+        { title: 'alpha', views: 10, published: new Date('2024-01-01') },
+        { title: 'beta', views: 3, published: new Date('2024-01-03') },
+        { title: 'gamma', views: 7, published: new Date('2024-01-05') },
+    ]);
+    db.reposts.insertMany([
+        { title: 'gamma', views: 7, published: new Date('2024-01-05') },
+        { title: 'delta', views: 1, published: new Date('2024-01-02') },
+    ]);
+    return db;
+}
+
+describe('union() / unionAll()', () => {
+    test('merges tables with an outer orderBy and limit, parameters in order', () => {
+        const db = createDb();
+        const feed = db.posts.select('title', 'published').where({ views: { $gt: 5 } })
+            .unionAll(db.reposts.select('title', 'published').where({ title: { $ne: 'gamma' } }))
+            .orderBy('published', 'desc')
+            .limit(3);
+        expect(feed.toSQL().params).toEqual([5, 'gamma']);
+        const rows = feed.all();
+        expect(rows.map(r => r.title)).toEqual(['gamma', 'delta', 'alpha']);
+        expect(rows[0]!.published).toBeInstanceOf(Date);
+        db.close();
+    });
+
+    test('union drops duplicate rows, unionAll keeps them', () => {
+        const db = createDb();
+        const posts = () => db.posts.select('title', 'views');
+        const reposts = () => db.reposts.select('title', 'views');
+        expect(posts().union(reposts()).orderBy('title').pluck('title')).toEqual(['alpha', 'beta', 'delta', 'gamma']);
+        expect(posts().unionAll(reposts()).count()).toBe(5);
+        expect(posts().union(reposts()).count()).toBe(4);
+        db.close();
+    });
+
+    test('members with their own order, limit or CTE are wrapped', () => {
+        const db = createDb();
+        const top = db.posts.select('title').orderBy('views', 'desc').limit(1);
+        const cte = db.reposts.select('title')
+            .withCte('old', { sql: 'SELECT id FROM reposts WHERE views < ?', params: [5] })
+            .whereRaw('id IN (SELECT id FROM old)');
+        const rows = db.posts.select('title').where({ title: 'beta' }).union(top).union(cte).orderBy('title').all();
+        expect(rows.map(r => r.title)).toEqual(['alpha', 'beta', 'delta']);
+        db.close();
+    });
+});
+
+describe('intersect() / except()', () => {
+    test('same-table compounds return entities', () => {
+        const db = createDb();
+        const popular = db.posts.select().where({ views: { $gte: 7 } });
+        const rows = db.posts.select().where({ title: { $in: ['beta', 'gamma'] } }).intersect(popular).all();
+        expect(rows.map(r => r.title)).toEqual(['gamma']);
+        expect(typeof rows[0]!.update).toBe('function');
+
+        const rest = db.posts.select().except(db.posts.select().where({ title: 'alpha' })).orderBy('title');
+        expect(rest.pluck('title')).toEqual(['beta', 'gamma']);
+        expect(rest.exists()).toBe(true);
+        db.close();
+    });
+
+    test('across tables by shared columns', () => {
+        const db = createDb();
+        const titles = () => db.reposts.select('title');
+        expect(db.posts.select('title').intersect(titles()).pluck('title')).toEqual(['gamma']);
+        expect(db.posts.select('title').except(titles()).orderBy('title', 'desc').pluck('title')).toEqual(['beta', 'alpha']);
+        db.close();
+    });
+});
+
+describe('compound query terminals', () => {
+    test('paginate() pages the combined rows', () => {
+        const db = createDb();
+        const page = db.posts.select('title').unionAll(db.reposts.select('title')).orderBy('title').paginate(2, 2);
+        expect([page.total, page.pages]).toEqual([5, 3]);
+        expect(page.data.map(r => r.title)).toEqual(['delta', 'gamma']);
+        db.close();
+    });
+
+    test('mutations and cursor pagination are rejected', () => {
+        const db = createDb();
+        const q = () => db.posts.select().union(db.posts.select());
+        expect(() => q().updateAll({ views: 0 })).toThrow(QueryCompileError);
+        expect(() => q().deleteAll()).toThrow(QueryCompileError);
+        expect(() => q().cursorPaginate()).toThrow(QueryCompileError);
+        expect(db.posts.count()).toBe(3);
+        db.close();
+    });
+
+    test('filters after the set operator are rejected instead of reaching only the first query', () => {
+        const db = createDb();
+        const q = () => db.posts.select('title').union(db.reposts.select('title'));
+        expect(() => q().where({ title: 'delta' })).toThrow(/where\(\) after union/);
+        expect(() => q().whereRaw('views > ?', [5])).toThrow(QueryCompileError);
+        expect(() => q().whereIn('title', ['delta'])).toThrow(QueryCompileError);
+        expect(db.posts.select('title').where({ title: 'alpha' }).union(db.reposts.select('title').where({ title: 'delta' }))
+            .orderBy('title').pluck('title')).toEqual(['alpha', 'delta']);
+        db.close();
+    });
+
+    test('modifiers after the set operator are rejected too', () => {
+        const db = new Database(':memory:', {
+            authors: z.object({ name: z.string() }),
+            notes: z.object({ body: z.string(), author_id: z.number() }),
+        }, {
+            relations: { notes: { author_id: 'authors' } },
+            search: { notes: ['body'] },
+            softDeletes: true,
+        });
+        const ada = db.authors.insert({ name: 'ada' });
+        db.notes.insertMany([{ body: 'deploy', author_id: ada.id }, { body: 'rollback', author_id: ada.id }]);
+        const notes = () => db.notes.select('body').union(db.notes.select('body').where({ body: 'rollback' }));
+        expect(() => notes().search('deploy')).toThrow(/search\(\) after union/);
+        expect(() => notes().withTrashed()).toThrow(/withTrashed\(\) after union/);
+        expect(() => notes().onlyTrashed()).toThrow(/onlyTrashed\(\) after union/);
+        expect(() => notes().groupBy('body')).toThrow(/groupBy\(\) after union/);
+        expect(() => notes().distinct()).toThrow(/distinct\(\) after union/);
+        expect(() => db.authors.select().union(db.authors.select()).withCount('notes')).toThrow(/withCount\(\) after union/);
+        expect(db.notes.select('body').search('deploy').union(db.notes.select('body').onlyTrashed()).pluck('body')).toEqual(['deploy']);
+        db.close();
+    });
+});
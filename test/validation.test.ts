@@ -0,0 +1,97 @@
+/**
+ * validation.test.ts — Zod validation on writes
+ *
+ * validate: 'strict' | 'partial' | false, defaults and transforms on write,
+ * and ValidationError field paths.
+ */
+import { describe, test, expect } from 'bun:test';
+import { Database, z, ValidationError, NotNullError } from '../src/index';
+
+const UserSchema = z.object({
+    name: z.string().trim().min(1),
+    email: z.string().email(),
+    role: z.string().default('member'),
+    address: z.object({ city: z.string() }).optional(),
+});
+
+function createDb(validate?: 'strict' | 'partial' | false) {
+    return new Database(':memory:', { users: UserSchema }, validate === undefined ? {} : { validate });
+}
+
+function catchError(fn: () => unknown): any {
+    try { fn(); } catch (err) { return err; }
+    throw new Error('expected fn to throw');
+}
+
+describe("validate: 'strict' (default)", () => {
+    test('applies defaults and transforms on insert', () => {
+        const db = createDb();
+        const user = db.users.insert({ name: '  Alice  ', email: 'a@b.com' });
+        expect(user.name).toBe('Alice');
+        expect(user.role).toBe('member');
+        db.close();
+    });
+
+    test('throws ValidationError listing failing field paths', () => {
+        const db = createDb();
+        const err = catchError(() => db.users.insert({ name: '', email: 'nope', address: { city: 1 as any } }));
+        expect(err).toBeInstanceOf(ValidationError);
+        expect(err.table).toBe('users');
+        expect(err.fields).toEqual(['name', 'email', 'address.city']);
+        expect(err.message).toContain('email');
+        expect(db.users.count()).toBe(0);
+        db.close();
+    });
+
+    test('missing required fields are rejected on insert', () => {
+        const db = createDb();
+        const err = catchError(() => db.users.insert({ name: 'Alice' } as any));
+        expect(err.fields).toEqual(['email']);
+        db.close();
+    });
+
+    test('updates, updateWhere and upsert validate the present fields only', () => {
+        const db = createDb();
+        const user = db.users.insert({ name: 'Alice', email: 'a@b.com' });
+        expect(db.users.update(user.id, { name: '  Alicia ' })!.name).toBe('Alicia');
+        expect(catchError(() => db.users.update(user.id, { email: 'bad' }))).toBeInstanceOf(ValidationError);
+        expect(catchError(() => db.users.update({ email: 'bad' }).where({ id: user.id }).exec())).toBeInstanceOf(ValidationError);
+        expect(catchError(() => db.users.upsert({ name: 'Alicia' }, { email: 'bad' }))).toBeInstanceOf(ValidationError);
+        expect(db.users.select().get()!.email).toBe('a@b.com');
+        db.close();
+    });
+
+    test('insertMany rolls back the whole batch on a bad row', () => {
+        const db = createDb();
+        const err = catchError(() => db.users.insertMany([
+            { name: 'Alice', email: 'a@b.com' },
+            { name: 'Bob', email: 'bad' },
+        ]));
+        expect(err).toBeInstanceOf(ValidationError);
+        expect(db.users.count()).toBe(0);
+        db.close();
+    });
+});
+
+describe("validate: 'partial'", () => {
+    test('checks present fields and leaves required ones to SQLite', () => {
+        const db = createDb('partial');
+        const user = db.users.insert({ name: ' Bob ', email: 'b@b.com' });
+        expect(user.name).toBe('Bob');
+        expect(user.role).toBe('member');
+        expect(catchError(() => db.users.insert({ email: 'bad' } as any))).toBeInstanceOf(ValidationError);
+        expect(catchError(() => db.users.insert({ name: 'Bob' } as any))).toBeInstanceOf(NotNullError);
+        db.close();
+    });
+});
+
+describe('validate: false', () => {
+    test('skips Zod entirely', () => {
+        const db = createDb(false);
+        const user = db.users.insert({ name: '  raw  ', email: 'not-an-email' });
+        expect(user.name).toBe('  raw  ');
+        expect(user.email).toBe('not-an-email');
+        expect(user.role).toBe('member'); // from the column's SQL DEFAULT
+        db.close();
+    });
+});